@@ -0,0 +1,218 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+'use client'
+
+import * as React from 'react'
+import Box from '@mui/material/Box'
+import { useCallback, useEffect, useState } from 'react'
+import { Collapse, Divider, Skeleton, Stack, Typography } from '@mui/material'
+
+import theme from '../../theme'
+import { useAppContext } from '../../context/app-context'
+import { assignUserRole, fetchRolesSettings, removeUserRole, updateRoleFeatures } from '@/app/api/google-auth/action'
+import { RoleFeaturesT, UserRoleAssignmentI, UserRoleT } from '@/app/api/permissions-utils'
+import { fetchExportFieldsSettings, rollbackExportFields, saveExportFields } from '@/app/api/export-fields/action'
+import {
+  ExportCustomFieldsI,
+  ExportFieldErrorI,
+  ExportFieldsVersionI,
+  exportStandardFields,
+} from '@/app/api/export-utils'
+import { ExportAlerts } from '@/app/ui/transverse-components/ExportAlerts'
+import UserRolesManager from '@/app/ui/admin-components/UserRolesManager'
+import RoleFeaturesManager from '@/app/ui/admin-components/RoleFeaturesManager'
+import ExportFieldsEditor from '@/app/ui/admin-components/ExportFieldsEditor'
+const { palette } = theme
+
+export default function Page() {
+  const { appContext, setAppContext, error } = useAppContext()
+
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [errorMsg, setErrorMsg] = useState('')
+  const [successMsg, setSuccessMsg] = useState('')
+  const [assignments, setAssignments] = useState<UserRoleAssignmentI[]>([])
+  const [roleFeatures, setRoleFeatures] = useState<RoleFeaturesT | null>(null)
+  const [defaultRole, setDefaultRole] = useState<UserRoleT>('creator')
+  const [exportFields, setExportFields] = useState<ExportCustomFieldsI | null>(null)
+  const [exportFieldsVersions, setExportFieldsVersions] = useState<ExportFieldsVersionI[]>([])
+  const [exportFieldsErrors, setExportFieldsErrors] = useState<ExportFieldErrorI[]>([])
+
+  const fetchSettings = useCallback(async () => {
+    setIsLoading(true)
+
+    const [res, exportFieldsRes] = await Promise.all([fetchRolesSettings(), fetchExportFieldsSettings()])
+    if ('error' in res) setErrorMsg(res.error)
+    else {
+      setAssignments(res.userRoles)
+      setRoleFeatures(res.roleFeatures)
+      setDefaultRole(res.defaultRole)
+    }
+    if ('error' in exportFieldsRes) setErrorMsg(exportFieldsRes.error)
+    else {
+      setExportFields(exportFieldsRes.fields)
+      setExportFieldsVersions(exportFieldsRes.versions)
+      setExportFieldsErrors(exportFieldsRes.errors)
+    }
+
+    setIsLoading(false)
+  }, [])
+
+  useEffect(() => {
+    if (appContext?.isAdmin) fetchSettings()
+  }, [appContext?.isAdmin, fetchSettings])
+
+  // Every change is saved right away, the displayed settings being replaced by the saved ones
+  const handleSave = async <T,>(
+    save: () => Promise<T | { error: string }>,
+    onSaved: (res: T) => void,
+    message: string
+  ) => {
+    setIsSaving(true)
+    setErrorMsg('')
+    setSuccessMsg('')
+
+    const res = await save()
+    if (typeof res === 'object' && res !== null && 'error' in res) setErrorMsg(res.error)
+    else {
+      onSaved(res as T)
+      setSuccessMsg(message)
+    }
+
+    setIsSaving(false)
+  }
+
+  const handleAssign = (email: string, role: UserRoleT) =>
+    handleSave(
+      () => assignUserRole(email, role),
+      (assignment) =>
+        setAssignments((prevAssignments) =>
+          prevAssignments
+            .filter(({ email }) => email !== assignment.email)
+            .concat(assignment)
+            .sort((a, b) => a.email.localeCompare(b.email))
+        ),
+      'Role assigned with success!'
+    )
+
+  const handleRemove = (email: string) =>
+    handleSave(
+      () => removeUserRole(email),
+      () => setAssignments((prevAssignments) => prevAssignments.filter((assignment) => assignment.email !== email)),
+      'Role removed with success!'
+    )
+
+  const handleFeaturesSave = (editedRoleFeatures: RoleFeaturesT) =>
+    handleSave(() => updateRoleFeatures(editedRoleFeatures), setRoleFeatures, 'Features saved with success!')
+
+  // Saved fields are used right away by this session's export & explore dialogs, other users get them on next load
+  const onExportFieldsSaved = (res: { fields: ExportCustomFieldsI; versions: ExportFieldsVersionI[] }) => {
+    setExportFields(res.fields)
+    setExportFieldsVersions(res.versions)
+    setExportFieldsErrors([])
+    setAppContext((prevContext) =>
+      prevContext ? { ...prevContext, exportMetaOptions: { ...exportStandardFields, ...res.fields } } : prevContext
+    )
+  }
+  const currentExportFieldsVersion = exportFieldsVersions.length > 0 ? exportFieldsVersions[0].version : 0
+
+  const handleExportFieldsSave = (fields: ExportCustomFieldsI) =>
+    handleSave(
+      () => saveExportFields(fields, currentExportFieldsVersion),
+      onExportFieldsSaved,
+      'Export fields saved with success!'
+    )
+
+  const handleExportFieldsRollback = (version: number) =>
+    handleSave(
+      () => rollbackExportFields(version, currentExportFieldsVersion),
+      onExportFieldsSaved,
+      `Export fields restored to version ${version} with success!`
+    )
+
+  if (appContext?.isLoading === true || !appContext?.isAdmin) {
+    return (
+      <Box p={5}>
+        <Typography
+          variant="h3"
+          sx={{
+            fontWeight: 400,
+            color: error === null && appContext?.isLoading ? palette.primary.main : palette.error.main,
+          }}
+        >
+          {appContext?.isLoading
+            ? error === null
+              ? 'Loading your profile content...'
+              : 'Error while loading your profile content! Retry or contact you IT admin.'
+            : 'Only admins can access this page.'}
+        </Typography>
+      </Box>
+    )
+  }
+
+  return (
+    <Box p={5} sx={{ maxHeight: '100vh', width: '100%', overflowY: 'scroll' }}>
+      <Box sx={{ pb: 5, pt: 1.5 }}>
+        <Typography display="inline" variant="h1" color={palette.text.secondary} sx={{ fontSize: '1.8rem' }}>
+          {'Admin/'}
+        </Typography>
+        <Typography
+          display="inline"
+          variant="h1"
+          color={palette.primary.main}
+          sx={{ fontWeight: 500, fontSize: '2rem', pl: 1 }}
+        >
+          {'Settings'}
+        </Typography>
+      </Box>
+
+      <Collapse in={errorMsg !== '' || successMsg !== ''}>
+        <ExportAlerts
+          message={errorMsg !== '' ? errorMsg : successMsg}
+          style={errorMsg !== '' ? 'error' : 'success'}
+          onClose={() => {
+            setErrorMsg('')
+            setSuccessMsg('')
+          }}
+        />
+      </Collapse>
+
+      {isLoading || !roleFeatures || !exportFields ? (
+        <Skeleton variant="rounded" width={'100%'} height={500} sx={{ mt: 2, bgcolor: palette.primary.light }} />
+      ) : (
+        <Stack direction="column" gap={5}>
+          <UserRolesManager
+            assignments={assignments}
+            defaultRole={defaultRole}
+            isSaving={isSaving}
+            onAssign={handleAssign}
+            onRemove={handleRemove}
+          />
+          <Divider />
+          <RoleFeaturesManager roleFeatures={roleFeatures} isSaving={isSaving} onSave={handleFeaturesSave} />
+          <Divider />
+          <ExportFieldsEditor
+            fields={exportFields}
+            versions={exportFieldsVersions}
+            fileErrors={exportFieldsErrors}
+            isSaving={isSaving}
+            onSave={handleExportFieldsSave}
+            onRollback={handleExportFieldsRollback}
+          />
+        </Stack>
+      )}
+    </Box>
+  )
+}
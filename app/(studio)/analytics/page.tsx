@@ -0,0 +1,143 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+'use client'
+
+import * as React from 'react'
+import Box from '@mui/material/Box'
+import { useEffect, useState } from 'react'
+import { Collapse, MenuItem, Skeleton, Stack, TextField, Typography } from '@mui/material'
+
+import theme from '../../theme'
+import { useAppContext } from '../../context/app-context'
+import { fetchLibraryAnalytics } from '@/app/api/analytics/action'
+import { analyticsPeriodOptions, AnalyticsPeriodT, LibraryAnalyticsI } from '@/app/api/analytics-utils'
+import { isFeatureEnabled } from '@/app/api/permissions-utils'
+import { ExportAlerts } from '@/app/ui/transverse-components/ExportAlerts'
+import AnalyticsBars from '@/app/ui/analytics-components/AnalyticsBars'
+import AnalyticsBreakdown from '@/app/ui/analytics-components/AnalyticsBreakdown'
+const { palette } = theme
+
+export default function Page() {
+  const { appContext, error } = useAppContext()
+  const isAllowed = isFeatureEnabled(appContext, 'libraryAnalytics')
+
+  const [period, setPeriod] = useState<AnalyticsPeriodT>('weeks')
+  const [analytics, setAnalytics] = useState<LibraryAnalyticsI | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [errorMsg, setErrorMsg] = useState('')
+
+  useEffect(() => {
+    if (!isAllowed) return
+
+    // Results of a previously selected period are ignored if they come back after the current ones
+    let isCurrent = true
+    setIsLoading(true)
+    setErrorMsg('')
+
+    fetchLibraryAnalytics(period).then((res) => {
+      if (!isCurrent) return
+      if ('error' in res) setErrorMsg(res.error)
+      else setAnalytics(res)
+      setIsLoading(false)
+    })
+
+    return () => {
+      isCurrent = false
+    }
+  }, [isAllowed, period])
+
+  if (appContext?.isLoading === true || !isAllowed) {
+    return (
+      <Box p={5}>
+        <Typography
+          variant="h3"
+          sx={{
+            fontWeight: 400,
+            color: error === null && appContext?.isLoading ? palette.primary.main : palette.error.main,
+          }}
+        >
+          {appContext?.isLoading
+            ? error === null
+              ? 'Loading your profile content...'
+              : 'Error while loading your profile content! Retry or contact you IT admin.'
+            : 'Your role does not give you access to analytics.'}
+        </Typography>
+      </Box>
+    )
+  }
+
+  return (
+    <Box p={5} sx={{ maxHeight: '100vh', width: '100%', overflowY: 'scroll' }}>
+      <Stack direction="row" sx={{ pb: 5, pt: 1.5, justifyContent: 'space-between', alignItems: 'flex-end' }}>
+        <Box>
+          <Typography display="inline" variant="h1" color={palette.text.secondary} sx={{ fontSize: '1.8rem' }}>
+            {'Analytics/'}
+          </Typography>
+          <Typography
+            display="inline"
+            variant="h1"
+            color={palette.primary.main}
+            sx={{ fontWeight: 500, fontSize: '2rem', pl: 1 }}
+          >
+            {'Library'}
+          </Typography>
+        </Box>
+        <TextField
+          select
+          value={period}
+          onChange={(event) => setPeriod(event.target.value as AnalyticsPeriodT)}
+          disabled={isLoading}
+          variant="standard"
+          size="small"
+          label="Period"
+          InputLabelProps={{ sx: { color: palette.text.primary, fontWeight: 500, fontSize: '1rem' } }}
+          InputProps={{ sx: { color: palette.primary.main, fontSize: '1rem' } }}
+          sx={{ width: 180, '& .MuiSvgIcon-root': { color: palette.text.secondary } }}
+        >
+          {analyticsPeriodOptions.map(({ value, label }) => (
+            <MenuItem key={value} value={value}>
+              {label}
+            </MenuItem>
+          ))}
+        </TextField>
+      </Stack>
+
+      <Collapse in={errorMsg !== ''}>
+        <ExportAlerts message={errorMsg} style="error" onClose={() => setErrorMsg('')} />
+      </Collapse>
+
+      {isLoading || !analytics ? (
+        <Skeleton variant="rounded" width={'100%'} height={500} sx={{ mt: 2, bgcolor: palette.primary.light }} />
+      ) : (
+        <Stack direction="column" gap={3}>
+          <Box sx={{ p: 2, border: 1, borderColor: palette.secondary.light, borderRadius: 2 }}>
+            <Typography sx={{ fontSize: '1.1rem', fontWeight: 500, color: palette.text.primary }}>
+              {analytics.total.label}
+            </Typography>
+            <Typography sx={{ fontSize: '2rem', fontWeight: 500, color: palette.primary.main, pb: 2 }}>
+              {analytics.total.total}
+            </Typography>
+            <AnalyticsBars counts={analytics.total.counts} periods={analytics.periods} height={160} isLabeled />
+          </Box>
+          <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(2, minmax(0, 1fr))', gap: 3 }}>
+            {analytics.breakdowns.map((breakdown) => (
+              <AnalyticsBreakdown key={breakdown.key} breakdown={breakdown} periods={analytics.periods} />
+            ))}
+          </Box>
+        </Stack>
+      )}
+    </Box>
+  )
+}
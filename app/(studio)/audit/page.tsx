@@ -0,0 +1,140 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+'use client'
+
+import * as React from 'react'
+import Box from '@mui/material/Box'
+import { useCallback, useEffect, useState } from 'react'
+import { Button, Collapse, Skeleton, Stack, Typography } from '@mui/material'
+
+import theme from '../../theme'
+import { useAppContext } from '../../context/app-context'
+import { fetchAuditEvents } from '@/app/api/audit-log/action'
+import { AuditCursorI, AuditEventI, AuditSearchI } from '@/app/api/audit-utils'
+import { ExportAlerts } from '@/app/ui/transverse-components/ExportAlerts'
+import AuditSearchForm from '@/app/ui/admin-components/AuditSearchForm'
+import AuditEventsTable from '@/app/ui/admin-components/AuditEventsTable'
+const { palette } = theme
+
+export default function Page() {
+  const { appContext, error } = useAppContext()
+
+  const [search, setSearch] = useState<AuditSearchI>({})
+  const [selectedAsset, setSelectedAsset] = useState('')
+  const [events, setEvents] = useState<AuditEventI[]>([])
+  const [lastVisibleEvent, setLastVisibleEvent] = useState<AuditCursorI | null>(null)
+  const [isMorePageToLoad, setIsMorePageToLoad] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [errorMsg, setErrorMsg] = useState('')
+
+  // Without a cursor, the fetched events replace the displayed ones
+  const fetchEvents = useCallback(async (search: AuditSearchI, cursor: AuditCursorI | null) => {
+    setIsLoading(true)
+    setErrorMsg('')
+
+    const res = await fetchAuditEvents(search, cursor)
+    if ('error' in res) setErrorMsg(res.error)
+    else {
+      setEvents((prevEvents) => (cursor ? prevEvents.concat(res.events) : res.events))
+      setLastVisibleEvent(res.lastVisibleEvent)
+      setIsMorePageToLoad(res.isMorePageToLoad)
+    }
+
+    setIsLoading(false)
+  }, [])
+
+  useEffect(() => {
+    if (appContext?.isAdmin) fetchEvents(search, null)
+  }, [appContext?.isAdmin, search, fetchEvents])
+
+  const handleAssetSelect = (asset: string) => {
+    setSelectedAsset(asset)
+    setSearch({ asset: asset })
+  }
+
+  if (appContext?.isLoading === true || !appContext?.isAdmin) {
+    return (
+      <Box p={5}>
+        <Typography
+          variant="h3"
+          sx={{
+            fontWeight: 400,
+            color: error === null && appContext?.isLoading ? palette.primary.main : palette.error.main,
+          }}
+        >
+          {appContext?.isLoading
+            ? error === null
+              ? 'Loading your profile content...'
+              : 'Error while loading your profile content! Retry or contact you IT admin.'
+            : 'Only admins can access this page.'}
+        </Typography>
+      </Box>
+    )
+  }
+
+  return (
+    <Box p={5} sx={{ maxHeight: '100vh', width: '100%', overflowY: 'scroll' }}>
+      <Box sx={{ pb: 5, pt: 1.5 }}>
+        <Typography display="inline" variant="h1" color={palette.text.secondary} sx={{ fontSize: '1.8rem' }}>
+          {'Admin/'}
+        </Typography>
+        <Typography
+          display="inline"
+          variant="h1"
+          color={palette.primary.main}
+          sx={{ fontWeight: 500, fontSize: '2rem', pl: 1 }}
+        >
+          {'Audit log'}
+        </Typography>
+      </Box>
+
+      <Collapse in={errorMsg !== ''}>
+        <ExportAlerts message={errorMsg} style="error" onClose={() => setErrorMsg('')} />
+      </Collapse>
+
+      <Stack direction="column" gap={3}>
+        <AuditSearchForm
+          key={selectedAsset}
+          initialAsset={selectedAsset}
+          isSearching={isLoading}
+          onSearch={setSearch}
+        />
+
+        {isLoading && events.length === 0 ? (
+          <Skeleton variant="rounded" width={'100%'} height={500} sx={{ bgcolor: palette.primary.light }} />
+        ) : events.length === 0 ? (
+          <Typography variant="body2" color={palette.text.secondary}>
+            {'No event matches this search.'}
+          </Typography>
+        ) : (
+          <AuditEventsTable events={events} onAssetSelect={handleAssetSelect} />
+        )}
+
+        {isMorePageToLoad && (
+          <Box>
+            <Button
+              onClick={() => fetchEvents(search, lastVisibleEvent)}
+              disabled={isLoading}
+              variant="outlined"
+              size="small"
+            >
+              {'Load more events'}
+            </Button>
+          </Box>
+        )}
+      </Stack>
+    </Box>
+  )
+}
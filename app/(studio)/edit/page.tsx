@@ -26,6 +26,7 @@ import { Typography } from '@mui/material'
 import theme from '../../theme'
 import EditForm from '@/app/ui/edit-components/EditForm'
 import { redirect } from 'next/navigation'
+import { isFeatureEnabled } from '@/app/api/permissions-utils'
 const { palette } = theme
 
 export default function Page() {
@@ -67,6 +68,8 @@ export default function Page() {
     )
   } else if (process.env.NEXT_PUBLIC_EDIT_ENABLED === 'false') {
     redirect('/generate')
+  } else if (!isFeatureEnabled(appContext, 'imageEdition')) {
+    redirect('/library')
   } else {
     return (
       <Box p={5} sx={{ maxHeight: '100vh' }}>
@@ -15,7 +15,7 @@
 'use client'
 
 import * as React from 'react'
-import { useEffect, useRef, useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import Grid from '@mui/material/Grid2'
 import Box from '@mui/material/Box'
 import { Typography } from '@mui/material'
@@ -23,29 +23,29 @@ import { Typography } from '@mui/material'
 import GenerateForm from '../../ui/generate-components/GenerateForm'
 import OutputImagesDisplay from '../../ui/transverse-components/ImagenOutputImagesDisplay'
 import OutputVideosDisplay from '@/app/ui/transverse-components/VeoOutputVideosDisplay'
+import VideoJobsPanel from '@/app/ui/generate-components/VideoJobsPanel'
 import { ChipGroup } from '@/app/ui/ux-components/InputChipGroup'
 
 import { appContextDataDefault, useAppContext } from '../../context/app-context'
 import { imageGenerationUtils, ImageI, ImageRandomPrompts } from '../../api/generate-image-utils'
 import {
   InterpolImageI,
-  OperationMetadataI,
   videoGenerationUtils,
   VideoI,
+  VideoJobDoneEventI,
+  VideoJobI,
+  VideoJobProgressEventI,
   VideoRandomPrompts,
 } from '@/app/api/generate-video-utils'
-import { getVideoGenerationStatus } from '@/app/api/veo/action'
+import { fetchUserVideoJobs } from '@/app/api/firestore/action'
+import { isFeatureEnabled } from '@/app/api/permissions-utils'
 import { downloadMediaFromGcs } from '@/app/api/cloud-storage/action'
 import { getAspectRatio } from '@/app/ui/edit-components/EditImageDropzone'
 import theme from '../../theme'
 
 // Constants
 const { palette } = theme
-const INITIAL_POLLING_INTERVAL_MS = 6000
-const MAX_POLLING_INTERVAL_MS = 60000
-const BACKOFF_FACTOR = 1.2
-const MAX_POLLING_ATTEMPTS = 30
-const JITTER_FACTOR = 0.2
+const MAX_CONCURRENT_VIDEO_JOBS = 4
 
 type GenerationMode = 'Generate an Image' | 'Generate a Video'
 
@@ -62,11 +62,33 @@ export default function Page() {
   const [initialPrompt, setInitialPrompt] = useState<string | null>(null)
   const [initialITVimage, setInitialITVimage] = useState<InterpolImageI | null>(null)
 
-  // Polling state
-  const [pollingOperation, setPollingOperation] = useState<{ name: string; metadata: OperationMetadataI } | null>(null)
-  const pollingTimeoutRef = useRef<NodeJS.Timeout | null>(null)
-  const pollingAttemptsRef = useRef(0)
-  const pollingIntervalRef = useRef(INITIAL_POLLING_INTERVAL_MS)
+  // Single live connection to the status stream, polling of video jobs is done server side
+  const statusStreamRef = useRef<EventSource | null>(null)
+  const [jobsProgress, setJobsProgress] = useState<{ [jobID: string]: VideoJobProgressEventI }>({})
+
+  // Persisted video jobs state
+  const [videoJobs, setVideoJobs] = useState<VideoJobI[]>([])
+  const [isJobsRefreshing, setIsJobsRefreshing] = useState(false)
+  const hasCheckedPendingJobsRef = useRef(false)
+  const pendingJobs = videoJobs.filter((job) => job.status === 'pending')
+
+  const refreshVideoJobs = useCallback(async () => {
+    if (!appContext?.userID) return []
+
+    setIsJobsRefreshing(true)
+    try {
+      const jobs = await fetchUserVideoJobs()
+      if (!Array.isArray(jobs)) throw Error(jobs.error)
+
+      setVideoJobs(jobs)
+      return jobs
+    } catch (error) {
+      console.error('Error fetching video jobs:', error)
+      return []
+    } finally {
+      setIsJobsRefreshing(false)
+    }
+  }, [appContext?.userID])
 
   // Effect for handling prompts from other pages (e.g., Library)
   useEffect(() => {
@@ -122,87 +144,93 @@ export default function Page() {
     fetchAndSetImage(appContext.imageToVideo)
   }, [appContext?.imageToVideo, setAppContext])
 
-  const stopPolling = () => {
-    if (pollingTimeoutRef.current) {
-      clearTimeout(pollingTimeoutRef.current)
-      pollingTimeoutRef.current = null
+  const closeStatusStream = () => {
+    statusStreamRef.current?.close()
+    statusStreamRef.current = null
+  }
+
+  const openStatusStream = () => {
+    if (!appContext?.userID || statusStreamRef.current) return
+
+    const eventSource = new EventSource('/api/veo/status')
+    statusStreamRef.current = eventSource
+    const reportedJobIDs = new Set<string>()
+
+    eventSource.addEventListener('progress', (event) => {
+      const progress: VideoJobProgressEventI = JSON.parse(event.data)
+      setJobsProgress((prevProgress) => ({ ...prevProgress, [progress.id]: progress }))
+    })
+
+    eventSource.addEventListener('done', (event) => {
+      const result: VideoJobDoneEventI = JSON.parse(event.data)
+      reportedJobIDs.add(result.id)
+
+      if (result.error) {
+        setGenerationErrorMsg(result.error)
+      } else if (result.videos?.length) {
+        // Results are streamed into the display as each job completes
+        const newVideos = result.videos
+        setGeneratedVideos((prevVideos) => [...newVideos, ...prevVideos])
+      } else {
+        setGenerationErrorMsg('Video generation finished, but no results were returned.')
+      }
+      refreshVideoJobs()
+    })
+
+    eventSource.addEventListener('idle', async () => {
+      closeStatusStream()
+
+      // A job may have been started right after the server last checked for pending ones
+      const jobs = await refreshVideoJobs()
+      if (jobs.some((job) => job.status === 'pending' && !reportedJobIDs.has(job.id))) openStatusStream()
+    })
+
+    eventSource.addEventListener('stream-error', (event) => {
+      setGenerationErrorMsg(`Error checking video status: ${JSON.parse(event.data).error}`)
+      closeStatusStream()
+      refreshVideoJobs()
+    })
+
+    // Dropped connections are retried by the browser, only give up when it does
+    eventSource.onerror = () => {
+      if (eventSource.readyState === EventSource.CLOSED && statusStreamRef.current === eventSource)
+        statusStreamRef.current = null
     }
-    setPollingOperation(null)
   }
 
-  // Polling effect for video generation
+  // Effect for resuming the tracking of video jobs started before a page reload or navigation
   useEffect(() => {
-    if (!pollingOperation) return
-
-    const poll = async () => {
-      if (pollingAttemptsRef.current >= MAX_POLLING_ATTEMPTS) {
-        setGenerationErrorMsg(`Video generation timed out after ${MAX_POLLING_ATTEMPTS} attempts.`)
-        stopPolling()
-        return
-      }
-      pollingAttemptsRef.current++
+    if (!appContext?.userID || hasCheckedPendingJobsRef.current || process.env.NEXT_PUBLIC_VEO_ENABLED !== 'true')
+      return
+    hasCheckedPendingJobsRef.current = true
 
-      try {
-        const statusResult = await getVideoGenerationStatus(
-          pollingOperation.name,
-          appContext,
-          pollingOperation.metadata.formData,
-          pollingOperation.metadata.prompt
-        )
+    const resumePendingJobs = async () => {
+      const jobs = await refreshVideoJobs()
+      if (!jobs.some((job) => job.status === 'pending')) return
 
-        // If polling was stopped while waiting for status
-        if (!pollingTimeoutRef.current) return
-
-        if (statusResult.done) {
-          if (statusResult.error) {
-            setGenerationErrorMsg(statusResult.error)
-          } else if (statusResult.videos?.length) {
-            setGeneratedVideos(statusResult.videos)
-            setGeneratedImages([])
-          } else {
-            setGenerationErrorMsg('Video generation finished, but no results were returned.')
-          }
-          stopPolling()
-          setIsLoading(false)
-        } else {
-          // Not done, schedule next poll
-          const jitter = pollingIntervalRef.current * JITTER_FACTOR * (Math.random() - 0.5)
-          const nextInterval = Math.round(pollingIntervalRef.current + jitter)
-          pollingIntervalRef.current = Math.min(pollingIntervalRef.current * BACKOFF_FACTOR, MAX_POLLING_INTERVAL_MS)
-          pollingTimeoutRef.current = setTimeout(poll, nextInterval)
-        }
-      } catch (error) {
-        const message = error instanceof Error ? error.message : 'An unexpected error occurred.'
-        setGenerationErrorMsg(`Error checking video status: ${message}`)
-        stopPolling()
-        setIsLoading(false)
-      }
+      setGenerationMode('Generate a Video')
+      openStatusStream()
     }
 
-    pollingTimeoutRef.current = setTimeout(poll, pollingIntervalRef.current)
+    resumePendingJobs()
+  }, [appContext?.userID, refreshVideoJobs])
 
-    return () => {
-      if (pollingTimeoutRef.current) {
-        clearTimeout(pollingTimeoutRef.current)
-        pollingTimeoutRef.current = null
-      }
-    }
-  }, [pollingOperation, appContext])
+  // Closes the status stream when leaving the page, unfinished jobs will be resumed on next visit
+  useEffect(() => closeStatusStream, [])
 
   const resetGenerationState = (newMode?: GenerationMode) => {
     setIsLoading(false)
     setGenerationErrorMsg('')
     setGeneratedImages([])
-    setGeneratedVideos([])
     setGeneratedCount(0)
     setInitialPrompt(null)
     if (newMode === 'Generate an Image' || !newMode) {
       setInitialITVimage(null)
     }
-    stopPolling()
   }
 
   const handleModeSwitch = ({ clickedValue }: { clickedValue: GenerationMode }) => {
+    // Video jobs keep running in the background, their videos being kept for when the user switches back
     if (clickedValue !== generationMode && !isLoading) {
       setGenerationMode(clickedValue)
       resetGenerationState(clickedValue)
@@ -211,10 +239,11 @@ export default function Page() {
 
   const handleRequestSent = (loading: boolean, count: number) => {
     setIsLoading(loading)
-    setGeneratedCount(count)
     setGenerationErrorMsg('')
     setGeneratedImages([])
-    setGeneratedVideos([])
+
+    // Videos of previous jobs are kept, as new ones are added to the display when completed
+    if (generationMode === 'Generate an Image') setGeneratedCount(count)
   }
 
   const handleImageGeneration = (newImages: ImageI[]) => {
@@ -222,21 +251,27 @@ export default function Page() {
     setIsLoading(false)
   }
 
-  const handleVideoPollingStart = (operationName: string, metadata: OperationMetadataI) => {
-    // Clear any existing polling WITHOUT changing the loading state
-    if (pollingTimeoutRef.current) {
-      clearTimeout(pollingTimeoutRef.current)
-      pollingTimeoutRef.current = null
-    }
+  const handleVideoPollingStart = async () => {
+    // The form is released as soon as the job is initiated, so other generations can be started
+    setIsLoading(false)
+    await refreshVideoJobs()
+    openStatusStream()
+  }
 
-    pollingAttemptsRef.current = 0
-    pollingIntervalRef.current = INITIAL_POLLING_INTERVAL_MS
-    setPollingOperation({ name: operationName, metadata })
+  const handleVideoJobSelect = (job: VideoJobI) => {
+    if (isLoading) return
+
+    setGenerationErrorMsg('')
+    setGeneratedImages([])
+    setGeneratedVideos((prevVideos) => [
+      ...(job.videos ?? []).filter((video) => !prevVideos.some((prevVideo) => prevVideo.key === video.key)),
+      ...prevVideos,
+    ])
   }
 
+  // Errors of a single job do not stop the tracking of other in-flight jobs
   const handleNewError = (newErrorMsg: string) => {
     setGenerationErrorMsg(newErrorMsg)
-    stopPolling()
     setIsLoading(false)
   }
 
@@ -256,7 +291,9 @@ export default function Page() {
   }
 
   const isImageMode = generationMode === 'Generate an Image'
-  const isVideoEnabled = process.env.NEXT_PUBLIC_VEO_ENABLED === 'true'
+  const isVideoEnabled =
+    process.env.NEXT_PUBLIC_VEO_ENABLED === 'true' && isFeatureEnabled(appContext, 'videoGeneration')
+  const pendingVideosCount = pendingJobs.reduce((count, job) => count + parseInt(job.metadata.formData.sampleCount), 0)
 
   const commonFormProps = {
     isLoading,
@@ -281,6 +318,7 @@ export default function Page() {
     ...commonFormProps,
     key: 'video-form',
     generationType: 'Video' as const,
+    isLoading: isLoading || pendingJobs.length >= MAX_CONCURRENT_VIDEO_JOBS,
     onVideoPollingStart: handleVideoPollingStart,
     randomPrompts: VideoRandomPrompts,
     generationFields: videoGenerationUtils,
@@ -306,6 +344,15 @@ export default function Page() {
 
           {isImageMode && <GenerateForm {...imageFormProps} />}
           {isVideoEnabled && !isImageMode && <GenerateForm {...videoFormProps} />}
+          {isVideoEnabled && !isImageMode && (
+            <VideoJobsPanel
+              jobs={videoJobs}
+              jobsProgress={jobsProgress}
+              isRefreshing={isJobsRefreshing}
+              onRefresh={refreshVideoJobs}
+              onJobSelect={handleVideoJobSelect}
+            />
+          )}
         </Grid>
         <Grid size={0.9} flex={1} sx={{ pt: 14, maxWidth: 850, minWidth: 400 }}>
           {isImageMode ? (
@@ -319,7 +366,8 @@ export default function Page() {
             <OutputVideosDisplay
               isLoading={isLoading}
               generatedVideosInGCS={generatedVideos}
-              generatedCount={generatedCount}
+              generatedCount={generatedVideos.length + pendingVideosCount}
+              pendingCount={pendingVideosCount}
             />
           )}
         </Grid>
@@ -23,12 +23,32 @@ import { Button, Collapse, IconButton, Stack, Typography } from '@mui/material'
 import theme from '../../theme'
 import { getSignedURL } from '@/app/api/cloud-storage/action'
 import { ExportAlerts } from '@/app/ui/transverse-components/ExportAlerts'
-import { fetchDocumentsInBatches, firestoreDeleteBatch } from '@/app/api/firestore/action'
-import { MediaMetadataI, MediaMetadataWithSignedUrl } from '@/app/api/export-utils'
+import {
+  fetchDocumentsInBatches,
+  fetchTrashRetentionDays,
+  firestoreDeleteBatch,
+  restoreFirestoreEntries,
+} from '@/app/api/firestore/action'
+import { getSelectedFilters, LibrarySortT, MediaMetadataI, MediaMetadataWithSignedUrl } from '@/app/api/export-utils'
+import { MetadataCursorI } from '@/app/api/metadata-repository/repository'
+import { canManageMedia } from '@/app/api/permissions-utils'
 import LibraryMediasDisplay from '../../ui/library-components/LibraryMediasDisplay'
 import LibraryFiltering from '../../ui/library-components/LibraryFiltering'
+import LibrarySorting from '../../ui/library-components/LibrarySorting'
+import LibraryMetadataExport from '../../ui/library-components/LibraryMetadataExport'
 import { CustomizedSendButton } from '@/app/ui/ux-components/Button-SX'
-import { Autorenew, Close, Delete, TouchApp, WatchLater } from '@mui/icons-material'
+import { useAppContext } from '../../context/app-context'
+import {
+  Autorenew,
+  Close,
+  Delete,
+  DeleteSweep,
+  Download,
+  PhotoLibrary,
+  RestoreFromTrash,
+  TouchApp,
+  WatchLater,
+} from '@mui/icons-material'
 const { palette } = theme
 
 const iconSx = {
@@ -42,21 +62,32 @@ const iconSx = {
 }
 
 export default function Page() {
+  const { appContext } = useAppContext()
   const [errorMsg, setErrorMsg] = useState('')
   const [isMediasLoading, setIsMediasLoading] = useState(false)
   const [fetchedMediasByPage, setFetchedMediasByPage] = useState<MediaMetadataWithSignedUrl[][]>([])
-  const [lastVisibleDocument, setLastVisibleDocument] = useState<any | null>(null)
+  const [lastVisibleDocument, setLastVisibleDocument] = useState<MetadataCursorI | null>(null)
   const [isMorePageToLoad, setIsMorePageToLoad] = useState(false)
   const [filters, setFilters] = useState({}) // Initialized to an empty object
+  const [sort, setSort] = useState<LibrarySortT>('newest')
   const [openFilters, setOpenFilters] = useState(false)
+  const [isTrashView, setIsTrashView] = useState(false)
+  const [trashRetentionDays, setTrashRetentionDays] = useState<number | null>(null)
 
-  // State for deletion flow
+  // State for deletion & download flows, both selecting medias the same way
   const [deletionStatus, setDelStatus] = useState<'init' | 'selecting' | 'deleting'>('init')
   const [deletionSuccess, setDeletionSuccess] = useState(false)
-  const [selectedIdsForDeletion, setSelectedIdsForDeletion] = useState<string[]>([])
+  const [downloadStatus, setDownloadStatus] = useState<'init' | 'selecting'>('init')
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
 
   const fetchDataAndSignedUrls = useCallback(
-    async (currentFiltersArg: any, explicitFetchCursor: any | null, isReplacingExistingData: boolean) => {
+    async (
+      currentFiltersArg: any,
+      currentSort: LibrarySortT,
+      explicitFetchCursor: MetadataCursorI | null,
+      isReplacingExistingData: boolean,
+      isTrashed: boolean
+    ) => {
       setIsMediasLoading(true)
       if (isReplacingExistingData) {
         setIsMorePageToLoad(false)
@@ -64,17 +95,14 @@ export default function Page() {
         setLastVisibleDocument(null)
       }
 
-      const selectedFilters = Object.entries(currentFiltersArg ?? {})
-        .filter(([, value]) => (Array.isArray(value) ? value.length > 0 : value !== undefined && value !== ''))
-        .reduce((acc, [key, value]) => {
-          acc[key] = value
-          return acc
-        }, {} as any)
+      const selectedFilters = getSelectedFilters(currentFiltersArg)
 
       try {
         let res
-        if (Object.values(selectedFilters).length === 0) res = await fetchDocumentsInBatches(explicitFetchCursor)
-        else res = await fetchDocumentsInBatches(explicitFetchCursor, selectedFilters)
+        // The cursor holds the last media's value of the sorted field, so it's only valid with the same sort
+        if (Object.values(selectedFilters).length === 0)
+          res = await fetchDocumentsInBatches(explicitFetchCursor, undefined, currentSort, isTrashed)
+        else res = await fetchDocumentsInBatches(explicitFetchCursor, selectedFilters, currentSort, isTrashed)
 
         if (res.error) throw Error(res.error.replaceAll('Error: ', ''))
 
@@ -99,7 +127,7 @@ export default function Page() {
 
         // Case were no media were fetched
         if (isReplacingExistingData && documents.length === 0) {
-          setErrorMsg('Sorry, your search returned no results')
+          setErrorMsg(isTrashed ? 'The trash is empty' : 'Sorry, your search returned no results')
           setFetchedMediasByPage([])
           setIsMorePageToLoad(false)
           setLastVisibleDocument(null)
@@ -114,14 +142,16 @@ export default function Page() {
             try {
               const signedUrlResult = await getSignedURL(doc.gcsURI)
 
-              if (signedUrlResult.error) throw Error(String(signedUrlResult.error).replaceAll('Error: ', ''))
-              const finalSignedUrl = typeof signedUrlResult === 'string' ? signedUrlResult : signedUrlResult.url
+              if (typeof signedUrlResult === 'object' && 'error' in signedUrlResult)
+                throw Error(String(signedUrlResult.error).replaceAll('Error: ', ''))
+              const finalSignedUrl = signedUrlResult
 
               let finalThumbnailSignedUrl = null
               if (doc.videoThumbnailGcsUri) {
                 const thumbnailResult = await getSignedURL(doc.videoThumbnailGcsUri)
-                if (thumbnailResult.error) throw Error(String(thumbnailResult.error).replaceAll('Error: ', ''))
-                finalThumbnailSignedUrl = typeof thumbnailResult === 'string' ? thumbnailResult : thumbnailResult.url
+                if (typeof thumbnailResult === 'object' && 'error' in thumbnailResult)
+                  throw Error(String(thumbnailResult.error).replaceAll('Error: ', ''))
+                finalThumbnailSignedUrl = thumbnailResult
               }
               return {
                 ...doc,
@@ -140,7 +170,7 @@ export default function Page() {
           return true
         })
 
-        setLastVisibleDocument(res.lastVisibleDocument)
+        setLastVisibleDocument(res.lastVisibleDocument ?? null)
         setIsMorePageToLoad(res.isMorePageToLoad || false)
 
         setFetchedMediasByPage((prevPages) => {
@@ -170,26 +200,45 @@ export default function Page() {
   // This single useEffect handles both initial load and subsequent filter changes.
   useEffect(() => {
     // A new fetch from the beginning is triggered whenever the filters change.
-    fetchDataAndSignedUrls(filters, null, true)
-  }, [filters, fetchDataAndSignedUrls])
+    fetchDataAndSignedUrls(filters, sort, null, true, isTrashView)
+  }, [filters, sort, isTrashView, fetchDataAndSignedUrls])
+
+  useEffect(() => {
+    if (isTrashView && trashRetentionDays === null) fetchTrashRetentionDays().then(setTrashRetentionDays)
+  }, [isTrashView, trashRetentionDays])
 
   const handleLoadMore = useCallback(async () => {
     if (lastVisibleDocument && isMorePageToLoad) {
       // For loading more, we pass the current filters and the cursor.
-      await fetchDataAndSignedUrls(filters ?? {}, lastVisibleDocument, false)
+      await fetchDataAndSignedUrls(filters ?? {}, sort, lastVisibleDocument, false, isTrashView)
     }
-  }, [lastVisibleDocument, isMorePageToLoad, filters, fetchDataAndSignedUrls])
+  }, [lastVisibleDocument, isMorePageToLoad, filters, sort, isTrashView, fetchDataAndSignedUrls])
+
+  const handleTrashViewToggle = useCallback(() => {
+    setErrorMsg('')
+    setDeletionSuccess(false)
+    setIsTrashView((prevIsTrashView) => !prevIsTrashView)
+  }, [])
+
+  // Edited metadata replaces the media's entry in place, signed URLs being kept as is
+  const handleMediaMetadataUpdate = useCallback((updatedDocument: MediaMetadataI) => {
+    setFetchedMediasByPage((prevPages) =>
+      prevPages.map((page) =>
+        page.map((media) => (media.id === updatedDocument.id ? { ...media, ...updatedDocument } : media))
+      )
+    )
+  }, [])
 
-  // Deletion handlers
+  // Deletion handlers, selected medias being restored instead when in the trash
   const handleDeletion = useCallback(async () => {
     if (deletionStatus === 'init') {
       setDelStatus('selecting')
-      setSelectedIdsForDeletion([])
+      setSelectedIds([])
       setDeletionSuccess(false)
       setErrorMsg('')
       return
     } else if (deletionStatus === 'selecting') {
-      if (selectedIdsForDeletion.length === 0) {
+      if (selectedIds.length === 0) {
         setDelStatus('init')
         return
       }
@@ -197,39 +246,77 @@ export default function Page() {
       setErrorMsg('')
       setDeletionSuccess(false)
       try {
-        const allFetchedMedias: MediaMetadataI[] = fetchedMediasByPage.flat()
-        const result = await firestoreDeleteBatch(selectedIdsForDeletion, allFetchedMedias)
+        const result = isTrashView
+          ? await restoreFirestoreEntries(selectedIds)
+          : await firestoreDeleteBatch(selectedIds)
 
         if (result === true) {
           setFetchedMediasByPage([])
           setLastVisibleDocument(null)
           setIsMorePageToLoad(false)
 
-          await fetchDataAndSignedUrls({}, null, true)
+          await fetchDataAndSignedUrls({}, sort, null, true, isTrashView)
 
           setDeletionSuccess(true)
-          setSelectedIdsForDeletion([])
+          setSelectedIds([])
           setDelStatus('init')
         } else if (typeof result === 'object' && 'error' in result) throw new Error(result.error)
         else throw new Error('Deletion completed with an unknown status.') // Unexpected result
       } catch (error: any) {
         console.error('Deletion failed:', error)
-        setErrorMsg('An error occurred during deletion. Please try again.')
+        setErrorMsg(`An error occurred during ${isTrashView ? 'restoration' : 'deletion'}. Please try again.`)
         setDeletionSuccess(false)
         setDelStatus('init')
       }
     }
-  }, [deletionStatus, selectedIdsForDeletion, fetchedMediasByPage, fetchDataAndSignedUrls])
+  }, [deletionStatus, selectedIds, isTrashView, sort, fetchDataAndSignedUrls])
+
+  // Users can only select medias they're allowed to delete, the permission being checked again server-side
+  const isMediaDeletable = useCallback((media: MediaMetadataI) => canManageMedia(appContext, media), [appContext])
+  const hasDeletableMedia = fetchedMediasByPage.some((page) => page.some(isMediaDeletable))
+
+  // Selected medias are downloaded as a ZIP archive streamed by the server, along with their metadata
+  const handleDownload = useCallback(() => {
+    if (downloadStatus === 'init') {
+      setDownloadStatus('selecting')
+      setSelectedIds([])
+      setDeletionSuccess(false)
+      setErrorMsg('')
+      return
+    }
 
-  const handleMediaDeletionSelect = useCallback(
+    if (selectedIds.length > 0) {
+      const params = new URLSearchParams(selectedIds.map((id) => ['id', id]))
+      const link = document.createElement('a')
+      link.href = `/api/firestore/download?${params.toString()}`
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+    }
+    setSelectedIds([])
+    setDownloadStatus('init')
+  }, [downloadStatus, selectedIds])
+
+  const handleSelectionCancel = useCallback(() => {
+    if (deletionStatus === 'selecting') setDelStatus('init')
+    setDownloadStatus('init')
+  }, [deletionStatus])
+
+  const selectionMode = deletionStatus === 'selecting' ? 'delete' : downloadStatus === 'selecting' ? 'download' : null
+  const isMediaSelectable = useCallback(
+    (media: MediaMetadataI) => downloadStatus === 'selecting' || isMediaDeletable(media),
+    [downloadStatus, isMediaDeletable]
+  )
+
+  const handleMediaSelect = useCallback(
     (docId: string) => {
-      if (deletionStatus !== 'selecting') return
+      if (deletionStatus !== 'selecting' && downloadStatus !== 'selecting') return
 
-      setSelectedIdsForDeletion((prevSelectedIds) =>
+      setSelectedIds((prevSelectedIds) =>
         prevSelectedIds.includes(docId) ? prevSelectedIds.filter((id) => id !== docId) : [...prevSelectedIds, docId]
       )
     },
-    [deletionStatus]
+    [deletionStatus, downloadStatus]
   )
   const [displayedAlertProps, setDisplayedAlertProps] = useState<{
     message: string
@@ -237,20 +324,31 @@ export default function Page() {
   } | null>(null)
 
   useEffect(() => {
-    if (deletionSuccess) setDisplayedAlertProps({ message: 'Media(s) deleted with success!', style: 'success' })
+    if (deletionSuccess)
+      setDisplayedAlertProps({
+        message: isTrashView ? 'Media(s) restored with success!' : 'Media(s) moved to the trash with success!',
+        style: 'success',
+      })
     else if (errorMsg !== '') setDisplayedAlertProps({ message: errorMsg, style: 'error' })
-  }, [deletionSuccess, errorMsg])
+  }, [deletionSuccess, errorMsg, isTrashView])
   const alertOnClose = useCallback(() => {
     if (displayedAlertProps?.style === 'success') setDeletionSuccess(false)
     else if (displayedAlertProps?.style === 'error') setErrorMsg('')
   }, [displayedAlertProps, setDeletionSuccess, setErrorMsg])
 
-  let delButtonLabel = 'Batch Delete'
+  let delButtonLabel = isTrashView ? 'Batch Restore' : 'Batch Delete'
   if (deletionStatus === 'selecting') {
-    if (selectedIdsForDeletion.length > 0)
-      delButtonLabel = `Delete ${selectedIdsForDeletion.length} media${selectedIdsForDeletion.length > 1 ? 's' : ''}`
+    if (selectedIds.length > 0)
+      delButtonLabel = `${isTrashView ? 'Restore' : 'Delete'} ${selectedIds.length} media${selectedIds.length > 1 ? 's' : ''}`
     else delButtonLabel = 'Select media(s)'
-  } else if (deletionStatus === 'deleting') delButtonLabel = 'Deleting...'
+  } else if (deletionStatus === 'deleting') delButtonLabel = isTrashView ? 'Restoring...' : 'Deleting...'
+
+  let downloadButtonLabel = 'Batch Download'
+  if (downloadStatus === 'selecting')
+    downloadButtonLabel =
+      selectedIds.length > 0
+        ? `Download ${selectedIds.length} media${selectedIds.length > 1 ? 's' : ''}`
+        : 'Select media(s)'
 
   return (
     <Box p={5} sx={{ maxHeight: '100vh', width: '100%', overflowY: 'scroll' }}>
@@ -264,8 +362,13 @@ export default function Page() {
           color={palette.primary.main}
           sx={{ fontWeight: 500, fontSize: '2rem', pl: 1 }}
         >
-          {'Shared content'}
+          {isTrashView ? 'Trash' : 'Shared content'}
         </Typography>
+        {isTrashView && trashRetentionDays !== null && (
+          <Typography variant="body2" color={palette.text.secondary} sx={{ pt: 1 }}>
+            {`Medias are permanently deleted ${trashRetentionDays} day${trashRetentionDays > 1 ? 's' : ''} after being moved to the trash`}
+          </Typography>
+        )}
       </Box>
       <Collapse
         in={deletionSuccess || errorMsg !== ''}
@@ -310,39 +413,78 @@ export default function Page() {
             alignSelf: 'flex-start',
           }}
         >
-          {deletionStatus === 'selecting' && (
+          <LibrarySorting
+            sort={sort}
+            onSortChange={(newSort) => {
+              setErrorMsg('')
+              setSort(newSort)
+            }}
+            disabled={isMediasLoading || isTrashView || deletionStatus !== 'init' || downloadStatus !== 'init'}
+          />
+          {selectionMode !== null && (
             <IconButton
               onClick={
-                selectedIdsForDeletion.length > 0
-                  ? () => setSelectedIdsForDeletion([]) // Handler when items are selected
-                  : () => setDelStatus('init') // Handler when no items are selected
+                selectedIds.length > 0
+                  ? () => setSelectedIds([]) // Handler when items are selected
+                  : handleSelectionCancel // Handler when no items are selected
               }
-              aria-label="Reset delete selection"
+              aria-label="Reset selection"
               disableRipple
               sx={{
                 px: 0.5,
               }}
             >
-              {selectedIdsForDeletion.length > 0 ? <Autorenew sx={iconSx} /> : <Close sx={iconSx} />}
+              {selectedIds.length > 0 ? <Autorenew sx={iconSx} /> : <Close sx={iconSx} />}
             </IconButton>
           )}
 
+          {!isTrashView && (
+            <LibraryMetadataExport
+              filters={filters}
+              sort={sort}
+              disabled={isMediasLoading || deletionStatus !== 'init' || downloadStatus !== 'init'}
+            />
+          )}
+          {!isTrashView && (
+            <Button
+              onClick={handleDownload}
+              variant="contained"
+              disabled={isMediasLoading || deletionStatus !== 'init'}
+              endIcon={downloadStatus === 'selecting' ? <TouchApp /> : <Download />}
+              sx={CustomizedSendButton}
+            >
+              {downloadButtonLabel}
+            </Button>
+          )}
+          {(hasDeletableMedia || deletionStatus !== 'init') && (
+            <Button
+              onClick={handleDeletion}
+              variant="contained"
+              disabled={isMediasLoading || deletionStatus === 'deleting' || downloadStatus !== 'init'}
+              endIcon={
+                deletionStatus === 'selecting' ? (
+                  <TouchApp />
+                ) : deletionStatus === 'deleting' ? (
+                  <WatchLater sx={{ animation: deletionStatus === 'deleting' ? 'spin 1s linear infinite' : 'none' }} />
+                ) : isTrashView ? (
+                  <RestoreFromTrash />
+                ) : (
+                  <Delete />
+                )
+              }
+              sx={CustomizedSendButton}
+            >
+              {delButtonLabel}
+            </Button>
+          )}
           <Button
-            onClick={handleDeletion}
+            onClick={handleTrashViewToggle}
             variant="contained"
-            disabled={isMediasLoading || deletionStatus === 'deleting'}
-            endIcon={
-              deletionStatus === 'selecting' ? (
-                <TouchApp />
-              ) : deletionStatus === 'deleting' ? (
-                <WatchLater sx={{ animation: deletionStatus === 'deleting' ? 'spin 1s linear infinite' : 'none' }} />
-              ) : (
-                <Delete />
-              )
-            }
+            disabled={isMediasLoading || deletionStatus !== 'init' || downloadStatus !== 'init'}
+            endIcon={isTrashView ? <PhotoLibrary /> : <DeleteSweep />}
             sx={CustomizedSendButton}
           >
-            {delButtonLabel}
+            {isTrashView ? 'Back to Library' : 'Trash'}
           </Button>
         </Box>
       </Stack>
@@ -352,9 +494,11 @@ export default function Page() {
         fetchedMediasByPage={fetchedMediasByPage}
         handleLoadMore={handleLoadMore}
         isMorePageToLoad={isMorePageToLoad && deletionStatus !== 'deleting'}
-        isDeleteSelectActive={deletionStatus === 'selecting'}
-        selectedDocIdsForDelete={selectedIdsForDeletion}
-        onToggleDeleteSelect={handleMediaDeletionSelect}
+        selectionMode={selectionMode}
+        selectedDocIds={selectedIds}
+        onToggleSelect={handleMediaSelect}
+        isSelectable={isMediaSelectable}
+        onMediaMetadataUpdate={handleMediaMetadataUpdate}
       />
     </Box>
   )
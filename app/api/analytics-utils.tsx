@@ -0,0 +1,78 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+export type AnalyticsPeriodT = 'days' | 'weeks' | 'months'
+
+export const analyticsPeriodOptions: { value: AnalyticsPeriodT; label: string; count: number }[] = [
+  { value: 'days', label: 'Last 30 days', count: 30 },
+  { value: 'weeks', label: 'Last 12 weeks', count: 12 },
+  { value: 'months', label: 'Last 12 months', count: 12 },
+]
+
+// Time range of one bar of the charts, timestamps being in milliseconds
+export interface AnalyticsPeriodI {
+  label: string
+  from: number
+  to: number
+}
+
+// Counts of one value (ex: an author or a model) for every period
+export interface AnalyticsRowI {
+  value: string
+  label: string
+  total: number
+  counts: number[]
+}
+
+export interface AnalyticsBreakdownI {
+  key: string
+  label: string
+  rows: AnalyticsRowI[]
+  error?: string
+}
+
+export interface LibraryAnalyticsI {
+  periods: AnalyticsPeriodI[]
+  total: AnalyticsRowI
+  breakdowns: AnalyticsBreakdownI[]
+}
+
+// Consecutive periods ending with the current one, weeks starting on Mondays, in the server's time zone like creation dates
+export const getAnalyticsPeriods = (period: AnalyticsPeriodT, now = new Date()): AnalyticsPeriodI[] => {
+  const count = analyticsPeriodOptions.find(({ value }) => value === period)?.count ?? 12
+
+  const getStart = (index: number) => {
+    const back = count - 1 - index
+    if (period === 'months') return new Date(now.getFullYear(), now.getMonth() - back, 1)
+
+    const start = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+    if (period === 'weeks') start.setDate(start.getDate() - ((start.getDay() + 6) % 7) - back * 7)
+    else start.setDate(start.getDate() - back)
+    return start
+  }
+
+  return Array.from({ length: count }, (_, index) => {
+    const start = getStart(index)
+    const end = getStart(index + 1)
+
+    return {
+      label: start.toLocaleDateString(
+        'en-US',
+        period === 'months' ? { month: 'short', year: 'numeric' } : { month: 'short', day: 'numeric' }
+      ),
+      from: start.getTime(),
+      to: end.getTime(),
+    }
+  })
+}
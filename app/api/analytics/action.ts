@@ -0,0 +1,234 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+'use server'
+
+import {
+  AnalyticsBreakdownI,
+  AnalyticsPeriodI,
+  AnalyticsPeriodT,
+  getAnalyticsPeriods,
+  LibraryAnalyticsI,
+} from '../analytics-utils'
+import { exportSelectFieldTypes, exportStandardFields, libraryFieldFilters } from '../export-utils'
+import { fetchExportFields } from '../export-fields/action'
+import { AuditActionT, auditActions } from '../audit-utils'
+import { getAuditRepository } from '../audit-repository'
+import { getUserWithFeature } from '../google-auth/identity'
+import { getMetadataRepository, MetadataCountQueryI } from '../metadata-repository'
+
+// Only the values with the most medias over the whole range are counted for each period
+const MAX_BREAKDOWN_ROWS = 8
+
+const MAX_CONCURRENT_COUNTS = 10
+const ANALYTICS_CACHE_MS = 5 * 60 * 1000
+const analyticsCache = new Map<AnalyticsPeriodT, { analytics: LibraryAnalyticsI; expiresAt: number }>()
+
+type CountFilterT = Omit<MetadataCountQueryI, 'from' | 'to'>
+
+interface BreakdownValueI {
+  value: string
+  label: string
+  count: (from: number, to: number) => Promise<number>
+}
+
+// Tasks waiting for a slot are given the one of the task ending, so that no more than max tasks ever run at once
+function limitConcurrency(max: number) {
+  let running = 0
+  const waiting: (() => void)[] = []
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (running < max) running++
+    else await new Promise<void>((resolve) => waiting.push(resolve))
+
+    try {
+      return await task()
+    } finally {
+      const next = waiting.shift()
+      if (next) next()
+      else running--
+    }
+  }
+}
+
+// Shared by all requests, authors & custom fields options not being bounded
+const limitCount = limitConcurrency(MAX_CONCURRENT_COUNTS)
+
+// Every count is an aggregation query, no document is read
+async function getBreakdown(
+  key: string,
+  label: string,
+  values: BreakdownValueI[],
+  periods: AnalyticsPeriodI[]
+): Promise<AnalyticsBreakdownI> {
+  const range = { from: periods[0].from, to: periods[periods.length - 1].to }
+
+  try {
+    const totals = await Promise.all(values.map(({ count }) => count(range.from, range.to)))
+    const topValues = values
+      .map((value, index) => ({ ...value, total: totals[index] }))
+      .filter(({ total }) => total > 0)
+      .sort((a, b) => b.total - a.total)
+      .slice(0, MAX_BREAKDOWN_ROWS)
+
+    return {
+      key: key,
+      label: label,
+      rows: await Promise.all(
+        topValues.map(async ({ value, label, total, count }) => ({
+          value: value,
+          label: label,
+          total: total,
+          counts: await Promise.all(periods.map(({ from, to }) => count(from, to))),
+        }))
+      ),
+    }
+  } catch (error: any) {
+    // Firestore FAILED_PRECONDITION error code, the message links to the creation of the missing index
+    if (error?.code !== 9) throw error
+    console.error(error)
+    return { key: key, label: label, rows: [], error: 'Not available until the missing database index is created' }
+  }
+}
+
+// Library medias created over the period, matching the filter
+const countMedias = (filter: CountFilterT) => (from: number, to: number) =>
+  limitCount(() => getMetadataRepository().countCreated({ ...filter, from: from, to: to }))
+
+// Successful actions recorded in the audit log over the period, including medias never exported to the Library
+const countAuditEvents = (action: AuditActionT) => (from: number, to: number) =>
+  limitCount(() => getAuditRepository().count({ action: action, outcome: 'success', from: from, to: to }))
+
+const toFieldValues = (name: string, options: { value: string; label: string }[]): BreakdownValueI[] =>
+  options.map(({ value, label }) => ({
+    value: value,
+    label: label,
+    count: countMedias({ field: { name: name, values: [value] } }),
+  }))
+
+const generationActions: AuditActionT[] = ['imageGeneration', 'imageEdition', 'imageUpscale', 'videoGenerationResult']
+
+// Medias exported to the Library over the period, by author, model, format, upscale & custom select fields (ex: team),
+// along with the generations done in the app, cached for a few minutes as they are the same for all users
+export async function fetchLibraryAnalytics(period: AnalyticsPeriodT): Promise<LibraryAnalyticsI | { error: string }> {
+  const user = await getUserWithFeature('libraryAnalytics')
+  if ('error' in user) return user
+
+  const cached = analyticsCache.get(period)
+  if (cached && cached.expiresAt > Date.now()) return cached.analytics
+
+  const fields = await fetchExportFields()
+  if ('error' in fields) return { error: 'Error while fetching export fields' }
+
+  try {
+    const metadataRepository = getMetadataRepository()
+    const periods = getAnalyticsPeriods(period)
+    const formatOptions = libraryFieldFilters.format.options ?? []
+    const customFields = Object.entries(fields).filter(
+      ([key, field]) => !(key in exportStandardFields) && exportSelectFieldTypes.includes(field.type) && field.options
+    )
+
+    const [counts, authors] = await Promise.all([
+      Promise.all(periods.map(({ from, to }) => countMedias({})(from, to))),
+      metadataRepository.listAuthors(),
+    ])
+
+    const breakdowns = await Promise.all([
+      getBreakdown(
+        'generation',
+        'Generations',
+        auditActions
+          .filter(({ value }) => generationActions.includes(value))
+          .map(({ value, label }) => ({ value: value, label: label, count: countAuditEvents(value) })),
+        periods
+      ),
+      getBreakdown(
+        'mediaType',
+        'Images & videos',
+        [
+          {
+            value: 'image',
+            label: 'Images',
+            count: countMedias({
+              field: { name: 'format', values: formatOptions.map(({ value }) => value).filter((v) => v !== 'MP4') },
+            }),
+          },
+          { value: 'video', label: 'Videos', count: countMedias({ field: { name: 'format', values: ['MP4'] } }) },
+        ],
+        periods
+      ),
+      getBreakdown(
+        'upscaleFactor',
+        'Upscale',
+        toFieldValues('upscaleFactor', [
+          { value: 'x2', label: 'Upscaled x2' },
+          { value: 'x4', label: 'Upscaled x4' },
+          { value: 'no', label: 'Not upscaled' },
+        ]),
+        periods
+      ),
+      getBreakdown(
+        'author',
+        'Authors',
+        authors.map((author) => ({
+          value: author,
+          label: author,
+          count: countMedias({ field: { name: 'author', values: [author] } }),
+        })),
+        periods
+      ),
+      getBreakdown(
+        'leveragedModel',
+        libraryFieldFilters.leveragedModel.label,
+        toFieldValues('leveragedModel', libraryFieldFilters.leveragedModel.options ?? []),
+        periods
+      ),
+      getBreakdown('format', libraryFieldFilters.format.label, toFieldValues('format', formatOptions), periods),
+      ...customFields.map(([key, field]) =>
+        getBreakdown(
+          key,
+          field.name || field.label,
+          (field.options ?? []).map(({ value, label }) => ({
+            value: value,
+            label: label,
+            count: countMedias({ combinedFilter: `${key}_${value}` }),
+          })),
+          periods
+        )
+      ),
+    ])
+
+    const analytics = {
+      periods: periods,
+      total: {
+        value: 'all',
+        label: 'Exported medias',
+        total: counts.reduce((sum, count) => sum + count, 0),
+        counts: counts,
+      },
+      breakdowns: breakdowns,
+    }
+
+    // Breakdowns missing an index are computed again once it has been created
+    if (breakdowns.every(({ error }) => !error))
+      analyticsCache.set(period, { analytics: analytics, expiresAt: Date.now() + ANALYTICS_CACHE_MS })
+
+    return analytics
+  } catch (error) {
+    console.error(error)
+    return {
+      error: 'Error while computing Library analytics',
+    }
+  }
+}
@@ -0,0 +1,44 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+'use server'
+
+import { AuditCursorI, AuditPageI, AuditSearchI } from '../audit-utils'
+import { getAuditRepository } from '../audit-repository'
+import { getAdminUser } from '../google-auth/identity'
+
+const AUDIT_PAGE_SIZE = 50
+
+export async function fetchAuditEvents(
+  search: AuditSearchI,
+  cursor: AuditCursorI | null
+): Promise<AuditPageI | { error: string }> {
+  const admin = await getAdminUser()
+  if ('error' in admin) return admin
+
+  try {
+    return await getAuditRepository().search({
+      ...search,
+      email: search.email?.trim().toLowerCase() || undefined,
+      asset: search.asset?.trim() || undefined,
+      cursor: cursor,
+      batchSize: AUDIT_PAGE_SIZE,
+    })
+  } catch (error) {
+    console.error(error)
+    return {
+      error: 'Error while searching the audit log.',
+    }
+  }
+}
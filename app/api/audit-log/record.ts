@@ -0,0 +1,82 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { AuditActionT, toAuditParameters } from '../audit-utils'
+import { getAuditRepository } from '../audit-repository'
+import { getCurrentUser } from '../google-auth/identity'
+
+// Not a server actions module, so that events can only be recorded by the server itself
+
+export interface AuditedActionI {
+  action: AuditActionT
+  model?: string
+  parameters?: { [name: string]: any }
+  sourceUris?: string[]
+  resultUris?: string[]
+  mediaIds?: string[]
+}
+
+async function getAuditUser() {
+  try {
+    const user = await getCurrentUser()
+    if (user) return { userID: user.userID, email: user.email }
+  } catch (error) {
+    console.error(error)
+  }
+  return { userID: '', email: 'unknown' }
+}
+
+// Failing to record an event is logged, it never makes the recorded action fail
+export async function recordAuditEvent(event: AuditedActionI & { error?: string }) {
+  try {
+    await getAuditRepository().add({
+      ...(await getAuditUser()),
+      timestamp: Date.now(),
+      action: event.action,
+      model: event.model,
+      parameters: toAuditParameters(event.parameters ?? {}),
+      sourceUris: event.sourceUris ?? [],
+      resultUris: event.resultUris ?? [],
+      mediaIds: event.mediaIds ?? [],
+      outcome: event.error === undefined ? 'success' : 'failure',
+      error: event.error,
+    })
+  } catch (error) {
+    console.error(`Could not record ${event.action} audit event:`, error)
+  }
+}
+
+// Runs an action returning { error } when failing, and records its outcome with what it produced (ex: media URIs)
+export async function withAuditEvent<T>(
+  event: AuditedActionI,
+  run: () => Promise<T>,
+  getResultDetails: (result: Exclude<T, { error: string }>) => Partial<AuditedActionI> = () => ({})
+): Promise<T> {
+  let result: T
+  try {
+    result = await run()
+  } catch (error) {
+    await recordAuditEvent({ ...event, error: error instanceof Error ? error.message : String(error) })
+    throw error
+  }
+
+  if (typeof result === 'object' && result !== null && 'error' in result)
+    await recordAuditEvent({ ...event, error: String(result.error) })
+  else {
+    const details = getResultDetails(result as Exclude<T, { error: string }>)
+    await recordAuditEvent({ ...event, ...details, parameters: { ...event.parameters, ...details.parameters } })
+  }
+
+  return result
+}
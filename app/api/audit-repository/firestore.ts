@@ -0,0 +1,79 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { getFirestore } from '../metadata-repository/firestore'
+import { AuditRepositoryI, getAuditIndex, isMatchingSearch, toAuditEvent } from './repository'
+const { FieldPath } = require('@google-cloud/firestore')
+
+export const firestoreAuditRepository: AuditRepositoryI = {
+  add: async (event) => {
+    await getFirestore()
+      .collection('audit')
+      .add({ ...event, ...getAuditIndex(event) })
+  },
+
+  search: async ({ cursor, batchSize, ...search }) => {
+    let query = getFirestore().collection('audit')
+    const { email, action, asset, from, to } = search
+
+    // A single criteria is set on the Firestore query besides the dates, to avoid needing an index for every combination,
+    // the whole search is then checked on fetched events
+    if (asset) query = query.where('assetKeys', 'array-contains', asset)
+    else if (email) query = query.where('email', '==', email)
+    else if (action) query = query.where('action', '==', action)
+    if (from !== undefined) query = query.where('timestamp', '>=', from)
+    if (to !== undefined) query = query.where('timestamp', '<', to)
+
+    // One more matching event is looked for to know if there's a next page
+    query = query
+      .orderBy('timestamp', 'desc')
+      .orderBy(FieldPath.documentId(), 'desc')
+      .limit(batchSize + 1)
+    if (cursor) query = query.startAfter(cursor.timestamp, cursor.id)
+
+    let matchingDocs: any[] = []
+    let lastScannedDoc: any = null
+    let isLastBatch = false
+    while (matchingDocs.length <= batchSize && !isLastBatch) {
+      const snapshot = await (lastScannedDoc ? query.startAfter(lastScannedDoc) : query).get()
+      matchingDocs = matchingDocs.concat(snapshot.docs.filter((doc: any) => isMatchingSearch(doc.data(), search)))
+      lastScannedDoc = snapshot.docs[snapshot.docs.length - 1]
+      isLastBatch = snapshot.docs.length <= batchSize
+    }
+
+    const docs = matchingDocs.slice(0, batchSize)
+    if (docs.length === 0) return { events: [], lastVisibleEvent: null, isMorePageToLoad: false }
+
+    const lastDoc = docs[docs.length - 1]
+    return {
+      events: docs.map((doc) => toAuditEvent(doc.id, doc.data())),
+      lastVisibleEvent: { id: lastDoc.id, timestamp: lastDoc.data().timestamp },
+      isMorePageToLoad: matchingDocs.length > batchSize,
+    }
+  },
+
+  // Aggregation query, every criteria being set on it
+  count: async ({ email, action, outcome, asset, from, to }) => {
+    let query = getFirestore().collection('audit')
+    if (asset) query = query.where('assetKeys', 'array-contains', asset)
+    if (email) query = query.where('email', '==', email)
+    if (action) query = query.where('action', '==', action)
+    if (outcome) query = query.where('outcome', '==', outcome)
+    if (from !== undefined) query = query.where('timestamp', '>=', from)
+    if (to !== undefined) query = query.where('timestamp', '<', to)
+
+    const snapshot = await query.count().get()
+    return snapshot.data().count
+  },
+}
@@ -0,0 +1,26 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { firestoreAuditRepository } from './firestore'
+import { jsonFileAuditRepository } from './json-file'
+import { AuditRepositoryI } from './repository'
+
+export type { AuditQueryI, AuditRepositoryI } from './repository'
+
+// Follows METADATA_STORE, so the audit log is kept next to the Library metadata
+export function getAuditRepository(): AuditRepositoryI {
+  if (process.env.METADATA_STORE === 'json') return jsonFileAuditRepository
+
+  return firestoreAuditRepository
+}
@@ -0,0 +1,61 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import path from 'path'
+import { randomUUID } from 'crypto'
+import { AuditCursorI, AuditEventI } from '../audit-utils'
+import { createJsonFileStore } from '../json-file-store'
+import { AuditRepositoryI, getAuditIndex, isMatchingSearch, toAuditEvent } from './repository'
+
+const auditFile = path.resolve(process.env.LOCAL_AUDIT_FILE ?? path.join(process.cwd(), '.local-storage', 'audit.json'))
+
+type StoredAuditEventT = Omit<AuditEventI, 'id'> & { assetKeys: string[] }
+
+const { read: readEvents, update: updateEvents } = createJsonFileStore<{ [id: string]: StoredAuditEventT }>(
+  auditFile,
+  () => ({})
+)
+
+// Newest first, then by ID like Firestore
+const isBefore = (a: AuditCursorI, b: AuditCursorI) =>
+  a.timestamp !== b.timestamp ? a.timestamp > b.timestamp : a.id > b.id
+
+export const jsonFileAuditRepository: AuditRepositoryI = {
+  add: (event) =>
+    updateEvents((events) => {
+      events[randomUUID()] = { ...event, ...getAuditIndex(event) }
+    }),
+
+  search: async ({ cursor, batchSize, ...search }) => {
+    const events = await readEvents()
+
+    const matching = Object.entries(events)
+      .map(([id, event]) => ({ id: id, timestamp: event.timestamp, event: event }))
+      .filter(({ event }) => isMatchingSearch(event, search))
+      .filter((entry) => !cursor || isBefore(cursor, entry))
+      .sort((a, b) => (isBefore(a, b) ? -1 : 1))
+
+    const page = matching.slice(0, batchSize)
+    if (page.length === 0) return { events: [], lastVisibleEvent: null, isMorePageToLoad: false }
+
+    const last = page[page.length - 1]
+    return {
+      events: page.map(({ id, event }) => toAuditEvent(id, event)),
+      lastVisibleEvent: { id: last.id, timestamp: last.timestamp },
+      isMorePageToLoad: matching.length > batchSize,
+    }
+  },
+
+  count: async (search) => Object.values(await readEvents()).filter((event) => isMatchingSearch(event, search)).length,
+}
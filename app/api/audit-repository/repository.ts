@@ -0,0 +1,55 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { AuditCursorI, AuditEventI, AuditPageI, AuditSearchI } from '../audit-utils'
+
+export interface AuditQueryI extends AuditSearchI {
+  cursor: AuditCursorI | null
+  batchSize: number
+}
+
+// Events are only ever added, never updated nor deleted
+export interface AuditRepositoryI {
+  add: (event: Omit<AuditEventI, 'id'>) => Promise<void>
+  search: (query: AuditQueryI) => Promise<AuditPageI>
+  count: (search: AuditSearchI) => Promise<number>
+}
+
+// Stored with each event so that every event about a given media can be looked for at once
+export interface AuditIndexI {
+  assetKeys: string[]
+}
+
+export const getAuditIndex = (event: Omit<AuditEventI, 'id'>): AuditIndexI => ({
+  assetKeys: Array.from(new Set([...event.sourceUris, ...event.resultUris, ...event.mediaIds])),
+})
+
+export function isMatchingSearch(event: Omit<AuditEventI, 'id'> & Partial<AuditIndexI>, search: AuditSearchI) {
+  const { email, action, outcome, asset, from, to } = search
+
+  if (email && event.email !== email) return false
+  if (action && event.action !== action) return false
+  if (outcome && event.outcome !== outcome) return false
+  if (asset && !(event.assetKeys ?? getAuditIndex(event).assetKeys).includes(asset)) return false
+  if (from !== undefined && event.timestamp < from) return false
+  if (to !== undefined && event.timestamp >= to) return false
+
+  return true
+}
+
+// Index fields are left out of returned events
+export function toAuditEvent(id: string, data: any): AuditEventI {
+  const { assetKeys, ...event } = data
+  return { ...event, id: id }
+}
@@ -0,0 +1,92 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+export type AuditActionT =
+  | 'imageGeneration'
+  | 'imageEdition'
+  | 'imageUpscale'
+  | 'videoGeneration'
+  | 'videoGenerationResult'
+  | 'libraryExport'
+  | 'libraryDeletion'
+  | 'libraryRestoration'
+  | 'libraryPurge'
+
+export const auditActions: { value: AuditActionT; label: string }[] = [
+  { value: 'imageGeneration', label: 'Image generation' },
+  { value: 'imageEdition', label: 'Image edition' },
+  { value: 'imageUpscale', label: 'Image upscale' },
+  { value: 'videoGeneration', label: 'Video generation request' },
+  { value: 'videoGenerationResult', label: 'Video generation result' },
+  { value: 'libraryExport', label: 'Export to Library' },
+  { value: 'libraryDeletion', label: 'Deletion from Library' },
+  { value: 'libraryRestoration', label: 'Restoration from trash' },
+  { value: 'libraryPurge', label: 'Permanent deletion' },
+]
+
+export type AuditOutcomeT = 'success' | 'failure'
+
+export type AuditParametersT = { [name: string]: string | number | boolean | null }
+
+// One action done in the app, with the URIs & Library IDs of the medias it used & produced
+export interface AuditEventI {
+  id: string
+  timestamp: number
+  action: AuditActionT
+  userID: string
+  email: string
+  model?: string
+  parameters: AuditParametersT
+  sourceUris: string[]
+  resultUris: string[]
+  mediaIds: string[]
+  outcome: AuditOutcomeT
+  error?: string
+}
+
+// Every set criteria must match, 'asset' being the exact URI or Library ID of a media, dates being in milliseconds
+export interface AuditSearchI {
+  email?: string
+  action?: AuditActionT
+  outcome?: AuditOutcomeT
+  asset?: string
+  from?: number
+  to?: number
+}
+
+export interface AuditCursorI {
+  id: string
+  timestamp: number
+}
+
+export interface AuditPageI {
+  events: AuditEventI[]
+  lastVisibleEvent: AuditCursorI | null
+  isMorePageToLoad: boolean
+}
+
+// Longer values (ex: images & masks sent as base64) are not kept
+const MAX_AUDIT_PARAMETER_LENGTH = 2000
+
+// Keeps the simple values of an action's parameters, nested ones (ex: reference images) being left out
+export const toAuditParameters = (values: { [name: string]: any }): AuditParametersT =>
+  Object.fromEntries(
+    Object.entries(values).filter(
+      ([, value]) =>
+        value === null ||
+        typeof value === 'number' ||
+        typeof value === 'boolean' ||
+        (typeof value === 'string' && !value.startsWith('data:') && value.length <= MAX_AUDIT_PARAMETER_LENGTH)
+    )
+  )
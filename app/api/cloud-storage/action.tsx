@@ -23,50 +23,53 @@ import os from 'os'
 ffmpeg.setFfmpegPath(ffmpegInstaller.path)
 ffmpeg.setFfprobePath(ffprobeInstaller.path)
 
-const { Storage } = require('@google-cloud/storage')
-
-interface optionsI {
-  version: 'v2' | 'v4'
-  action: 'read' | 'write' | 'delete' | 'resumable'
-  expires: number
-}
-const projectId = process.env.NEXT_PUBLIC_PROJECT_ID
-
-export async function decomposeUri(uri: string) {
-  const sourceUriParts = uri.replace('gs://', '').split('/')
-  const sourceBucketName = sourceUriParts[0]
-  const sourceObjectName = sourceUriParts.slice(1).join('/')
-
-  return {
-    bucketName: sourceBucketName,
-    fileName: sourceObjectName,
-  }
+import { getStorageDriver } from '../storage-driver'
+import { getCurrentUser, getUserWithFeature } from '../google-auth/identity'
+import { withAuditEvent } from '../audit-log/record'
+import {
+  decomposeUri,
+  downloadMediaFromGcs as downloadStorageMedia,
+  downloadTempVideo,
+  getSignedURL as getStorageSignedURL,
+  uploadBase64Image,
+} from './storage'
+
+// Users can only read their own outputs, and the team Library
+function canReadStorageUri(userID: string, gcsUri: string) {
+  const readablePrefixes = [
+    `gs://${process.env.NEXT_PUBLIC_OUTPUT_BUCKET}/${userID}/`,
+    `gs://${process.env.NEXT_PUBLIC_TEAM_BUCKET}/`,
+  ]
+  return !!gcsUri && !gcsUri.includes('..') && readablePrefixes.some((prefix) => gcsUri.startsWith(prefix))
 }
 
 export async function getSignedURL(gcsURI: string) {
-  const { bucketName, fileName } = await decomposeUri(gcsURI)
+  const user = await getCurrentUser()
+  if (!user || !canReadStorageUri(user.userID, gcsURI)) return { error: 'You are not allowed to access this content.' }
 
-  const storage = new Storage({ projectId })
+  return getStorageSignedURL(gcsURI)
+}
 
-  const options: optionsI = {
-    version: 'v4',
-    action: 'read',
-    expires: Date.now() + 60 * 60 * 1000,
-  }
+export async function downloadMediaFromGcs(gcsUri: string): Promise<{ data?: string; error?: string }> {
+  const user = await getCurrentUser()
+  if (!user || !canReadStorageUri(user.userID, gcsUri)) return { error: 'You are not allowed to access this content.' }
 
-  try {
-    const [url] = await storage.bucket(bucketName).file(fileName).getSignedUrl(options)
-    return url
-  } catch (error) {
-    console.error(error)
-    return {
-      error: 'Error while getting secured access to content.',
-    }
-  }
+  return downloadStorageMedia(gcsUri)
 }
 
 export async function copyImageToTeamBucket(sourceGcsUri: string, id: string) {
-  const storage = new Storage({ projectId })
+  return withAuditEvent(
+    { action: 'libraryExport', sourceUris: [sourceGcsUri], mediaIds: [id] },
+    () => copyToTeamBucket(sourceGcsUri, id),
+    (teamGcsUri) => ({ resultUris: [teamGcsUri] })
+  )
+}
+
+async function copyToTeamBucket(sourceGcsUri: string, id: string) {
+  const user = await getUserWithFeature('libraryExport')
+  if ('error' in user) return user
+
+  const storage = getStorageDriver()
 
   try {
     if (!sourceGcsUri || !sourceGcsUri.startsWith('gs://')) {
@@ -88,13 +91,9 @@ export async function copyImageToTeamBucket(sourceGcsUri: string, id: string) {
 
     if (!bucketName || !fileName || !destinationBucketName) throw new Error('Invalid source or destination URI.')
 
-    const sourceObject = storage.bucket(bucketName).file(fileName)
-    const destinationBucket = storage.bucket(destinationBucketName)
-    const destinationFile = destinationBucket.file(id)
-
     // Check if file already exists in destination bucket, if not copy it
-    const [exists] = await destinationFile.exists()
-    if (!exists) await sourceObject.copy(destinationFile)
+    const exists = await storage.exists(destinationBucketName, id)
+    if (!exists) await storage.copy(bucketName, fileName, destinationBucketName, id)
 
     return `gs://${destinationBucketName}/${id}`
   } catch (error) {
@@ -105,67 +104,11 @@ export async function copyImageToTeamBucket(sourceGcsUri: string, id: string) {
   }
 }
 
-export async function downloadMediaFromGcs(gcsUri: string): Promise<{ data?: string; error?: string }> {
-  const storage = new Storage()
-
-  if (!gcsUri || !gcsUri.startsWith('gs://')) {
-    console.error('Invalid GCS URI provided:', gcsUri)
-    return {
-      error: 'Invalid GCS URI format. It must start with gs://',
-    }
-  }
-
-  try {
-    const { bucketName, fileName } = await decomposeUri(gcsUri)
-
-    if (!bucketName || !fileName) {
-      console.error('Could not determine bucket name or file name from URI:', gcsUri)
-      return {
-        error: 'Invalid GCS URI, could not extract bucket or file name.',
-      }
-    }
-
-    const [fileBuffer] = await storage.bucket(bucketName).file(fileName).download()
-    const base64Data = fileBuffer.toString('base64')
-
-    return {
-      data: base64Data,
-    }
-  } catch (error: any) {
-    console.error('Error during GCS file download:', error)
-
-    const errorMessage = error.message || 'Error while downloading the media'
-    return {
-      error: errorMessage,
-    }
-  }
-}
-
-export async function downloadTempVideo(gcsUri: string): Promise<string> {
-  const storage = new Storage()
-
-  const { bucketName, fileName } = await decomposeUri(gcsUri)
-
-  const tempFileName = `video_${Date.now()}_${path.basename(fileName)}`
-  const tempFilePath = path.join(os.tmpdir(), tempFileName)
-
-  await storage.bucket(bucketName).file(fileName).download({
-    destination: tempFilePath,
-  })
-
-  return tempFilePath
-}
-
 export async function fetchJsonFromStorage(gcsUri: string) {
-  const storage = new Storage({ projectId })
-
   try {
     const { bucketName, fileName } = await decomposeUri(gcsUri)
 
-    const bucket = storage.bucket(bucketName)
-    const file = bucket.file(fileName)
-
-    const [contents] = await file.download()
+    const contents = await getStorageDriver().download(bucketName, fileName)
 
     const jsonData = JSON.parse(contents.toString())
     return jsonData
@@ -178,46 +121,15 @@ export async function fetchJsonFromStorage(gcsUri: string) {
   }
 }
 
-export async function uploadBase64Image(
-  base64Image: string,
-  bucketName: string,
-  objectName: string,
-  contentType: string = 'image/png'
-): Promise<{ success?: boolean; message?: string; error?: string; fileUrl?: string }> {
-  const storage = new Storage({ projectId })
-
-  if (!base64Image) return { error: 'Invalid base64 data.' }
-
-  const imageBuffer = Buffer.from(base64Image, 'base64')
-  const options = {
-    destination: objectName,
-    metadata: {
-      contentType: contentType,
-    },
-  }
-
-  try {
-    await storage.bucket(bucketName).file(objectName).save(imageBuffer, options)
-
-    const fileUrl = `gs://${bucketName}/${objectName}`
-
-    return {
-      success: true,
-      message: `File uploaded to: ${fileUrl}`,
-      fileUrl: fileUrl,
-    }
-  } catch (error) {
-    console.error('Error uploading file:', error)
-    return {
-      error: 'Error uploading file to Google Cloud Storage.',
-    }
-  }
-}
-
 export async function getVideoThumbnailBase64(
   videoSourceGcsUri: string,
   ratio: string
 ): Promise<{ thumbnailBase64Data?: string; mimeType?: string; error?: string }> {
+  const user = await getUserWithFeature('libraryExport')
+  if ('error' in user) return { error: user.error }
+  if (!canReadStorageUri(user.userID, videoSourceGcsUri))
+    return { error: 'You are not allowed to access this content.' }
+
   const outputMimeType = 'image/png'
   const tempThumbnailFileName = `thumbnail_${Date.now()}.png`
   const tempThumbnailPath = path.join(os.tmpdir(), tempThumbnailFileName)
@@ -277,29 +189,26 @@ export async function getVideoThumbnailBase64(
   }
 }
 
-export async function deleteMedia(gcsURI: string): Promise<boolean | { error: string }> {
-  const storage = new Storage({ projectId })
-
-  if (!gcsURI || !gcsURI.startsWith('gs://')) return { error: 'Invalid GCS URI. It must start with "gs://".' }
-
-  const { bucketName, fileName: objectName } = await decomposeUri(gcsURI)
+// Thumbnail of a video being exported, saved next to it in the team Library
+export async function uploadLibraryThumbnail(
+  thumbnailBase64Data: string,
+  id: string
+): Promise<{ success?: boolean; message?: string; error?: string; fileUrl?: string }> {
+  const user = await getUserWithFeature('libraryExport')
+  if ('error' in user) return { error: user.error }
 
-  if (!bucketName || !objectName) return { error: 'Invalid GCS URI' }
+  const teamBucketName = process.env.NEXT_PUBLIC_TEAM_BUCKET
+  if (!teamBucketName || !id || id.includes('/')) return { error: 'Invalid thumbnail destination.' }
 
+  // Thumbnails of already exported medias are never overwritten
+  const thumbnailName = `${id}_thumbnail.png`
   try {
-    await storage.bucket(bucketName).file(objectName).delete()
-
-    return true
-  } catch (error: any) {
-    console.error(`Error deleting file ${gcsURI} from GCS:`, error)
-
-    if (error.code === 404)
-      return {
-        error: `File ${gcsURI} not found in Google Cloud Storage.`,
-      }
-
-    return {
-      error: `An error occurred while deleting file ${gcsURI} from Google Cloud Storage.`,
-    }
+    if (await getStorageDriver().exists(teamBucketName, thumbnailName))
+      return { error: `Thumbnail of ${id} already exists in the team Library.` }
+  } catch (error) {
+    console.error(error)
+    return { error: 'Error while checking thumbnail in the team Library.' }
   }
+
+  return uploadBase64Image(thumbnailBase64Data, teamBucketName, thumbnailName, 'image/png')
 }
@@ -0,0 +1,67 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import fs from 'fs/promises'
+import { NextRequest, NextResponse } from 'next/server'
+
+import { getLocalContentType, getLocalFilePath, isLocalTokenValid } from '../../storage-driver/local'
+
+export const dynamic = 'force-dynamic'
+
+// Serves files of the local storage driver, the same way signed URLs give access to Cloud Storage objects
+export async function GET(req: NextRequest) {
+  if (process.env.STORAGE_DRIVER !== 'local') return NextResponse.json({ error: 'Not found' }, { status: 404 })
+
+  const uri = req.nextUrl.searchParams.get('uri') ?? ''
+  const expires = parseInt(req.nextUrl.searchParams.get('expires') ?? '', 10)
+  const token = req.nextUrl.searchParams.get('token') ?? ''
+
+  if (!isLocalTokenValid(uri, expires, token))
+    return NextResponse.json({ error: 'Invalid or expired access token' }, { status: 403 })
+
+  const uriParts = uri.replace('gs://', '').split('/')
+  const bucketName = uriParts[0]
+  const objectName = uriParts.slice(1).join('/')
+
+  let file: Buffer
+  try {
+    file = await fs.readFile(getLocalFilePath(bucketName, objectName))
+  } catch (error) {
+    console.error(error)
+    return NextResponse.json({ error: 'File not found' }, { status: 404 })
+  }
+
+  const headers = {
+    'Content-Type': getLocalContentType(objectName),
+    'Accept-Ranges': 'bytes',
+    'Cache-Control': 'private, max-age=3600',
+  }
+
+  // Partial content, needed by browsers to seek within videos
+  const range = /^bytes=(\d*)-(\d*)$/.exec(req.headers.get('range') ?? '')
+  if (range && (range[1] !== '' || range[2] !== '')) {
+    const start = range[1] !== '' ? parseInt(range[1], 10) : Math.max(file.length - parseInt(range[2], 10), 0)
+    const end = range[1] !== '' && range[2] !== '' ? Math.min(parseInt(range[2], 10), file.length - 1) : file.length - 1
+
+    if (start > end || start >= file.length)
+      return new NextResponse(null, { status: 416, headers: { 'Content-Range': `bytes */${file.length}` } })
+
+    return new NextResponse(new Uint8Array(file.subarray(start, end + 1)), {
+      status: 206,
+      headers: { ...headers, 'Content-Range': `bytes ${start}-${end}/${file.length}` },
+    })
+  }
+
+  return new NextResponse(new Uint8Array(file), { headers: headers })
+}
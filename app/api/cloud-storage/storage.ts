@@ -0,0 +1,141 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import path from 'path'
+import os from 'os'
+
+import { getStorageDriver, StorageDriverError } from '../storage-driver'
+
+// Not a server actions module, so that clients can only reach storage through the checks of the cloud-storage actions
+
+export async function decomposeUri(uri: string) {
+  const sourceUriParts = uri.replace('gs://', '').split('/')
+  const sourceBucketName = sourceUriParts[0]
+  const sourceObjectName = sourceUriParts.slice(1).join('/')
+
+  return {
+    bucketName: sourceBucketName,
+    fileName: sourceObjectName,
+  }
+}
+
+export async function getSignedURL(gcsURI: string) {
+  const { bucketName, fileName } = await decomposeUri(gcsURI)
+
+  try {
+    const url = await getStorageDriver().getSignedUrl(bucketName, fileName, Date.now() + 60 * 60 * 1000)
+    return url
+  } catch (error) {
+    console.error(error)
+    return {
+      error: 'Error while getting secured access to content.',
+    }
+  }
+}
+
+export async function downloadMediaFromGcs(gcsUri: string): Promise<{ data?: string; error?: string }> {
+  if (!gcsUri || !gcsUri.startsWith('gs://')) {
+    console.error('Invalid GCS URI provided:', gcsUri)
+    return {
+      error: 'Invalid GCS URI format. It must start with gs://',
+    }
+  }
+
+  try {
+    const { bucketName, fileName } = await decomposeUri(gcsUri)
+
+    if (!bucketName || !fileName) {
+      console.error('Could not determine bucket name or file name from URI:', gcsUri)
+      return {
+        error: 'Invalid GCS URI, could not extract bucket or file name.',
+      }
+    }
+
+    const fileBuffer = await getStorageDriver().download(bucketName, fileName)
+    const base64Data = fileBuffer.toString('base64')
+
+    return {
+      data: base64Data,
+    }
+  } catch (error: any) {
+    console.error('Error during GCS file download:', error)
+
+    const errorMessage = error.message || 'Error while downloading the media'
+    return {
+      error: errorMessage,
+    }
+  }
+}
+
+export async function downloadTempVideo(gcsUri: string): Promise<string> {
+  const { bucketName, fileName } = await decomposeUri(gcsUri)
+
+  const tempFileName = `video_${Date.now()}_${path.basename(fileName)}`
+  const tempFilePath = path.join(os.tmpdir(), tempFileName)
+
+  await getStorageDriver().downloadToFile(bucketName, fileName, tempFilePath)
+
+  return tempFilePath
+}
+
+export async function uploadBase64Image(
+  base64Image: string,
+  bucketName: string,
+  objectName: string,
+  contentType: string = 'image/png'
+): Promise<{ success?: boolean; message?: string; error?: string; fileUrl?: string }> {
+  if (!base64Image) return { error: 'Invalid base64 data.' }
+
+  try {
+    await getStorageDriver().save(bucketName, objectName, base64Image, contentType)
+
+    const fileUrl = `gs://${bucketName}/${objectName}`
+
+    return {
+      success: true,
+      message: `File uploaded to: ${fileUrl}`,
+      fileUrl: fileUrl,
+    }
+  } catch (error) {
+    console.error('Error uploading file:', error)
+    return {
+      error: 'Error uploading file to Google Cloud Storage.',
+    }
+  }
+}
+
+export async function deleteMedia(gcsURI: string): Promise<boolean | { error: string }> {
+  if (!gcsURI || !gcsURI.startsWith('gs://')) return { error: 'Invalid GCS URI. It must start with "gs://".' }
+
+  const { bucketName, fileName: objectName } = await decomposeUri(gcsURI)
+
+  if (!bucketName || !objectName) return { error: 'Invalid GCS URI' }
+
+  try {
+    await getStorageDriver().delete(bucketName, objectName)
+
+    return true
+  } catch (error) {
+    console.error(`Error deleting file ${gcsURI} from GCS:`, error)
+
+    if (error instanceof StorageDriverError && error.status === 404)
+      return {
+        error: `File ${gcsURI} not found in Google Cloud Storage.`,
+      }
+
+    return {
+      error: `An error occurred while deleting file ${gcsURI} from Google Cloud Storage.`,
+    }
+  }
+}
@@ -0,0 +1,157 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { Readable } from 'stream'
+
+// Files are stored without compression, medias being already compressed, each one must stay under 4 GB
+export interface ZipEntryI {
+  name: string
+  getContent: () => Readable | Buffer
+  date?: Date
+}
+
+const MAX_32_BITS = 0xffffffff
+const MAX_16_BITS = 0xffff
+
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+function updateCrc32(crc: number, chunk: Uint8Array) {
+  for (let i = 0; i < chunk.length; i++) crc = crcTable[(crc ^ chunk[i]) & 0xff] ^ (crc >>> 8)
+  return crc
+}
+
+function toDosDateTime(date: Date) {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+// Sizes & CRC are only known once the file is read, they're set in a data descriptor following its content
+async function* generateZip(entries: ZipEntryI[]) {
+  const centralHeaders: Buffer[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf-8')
+    const { time, date } = toDosDateTime(entry.date ?? new Date())
+
+    // Flags: data descriptor used (bit 3) & UTF-8 file name (bit 11)
+    const localHeader = Buffer.alloc(30)
+    localHeader.writeUInt32LE(0x04034b50, 0)
+    localHeader.writeUInt16LE(20, 4)
+    localHeader.writeUInt16LE(0x0808, 6)
+    localHeader.writeUInt16LE(time, 10)
+    localHeader.writeUInt16LE(date, 12)
+    localHeader.writeUInt16LE(name.length, 26)
+    yield localHeader
+    yield name
+
+    let crc = MAX_32_BITS
+    let size = 0
+    const content = entry.getContent()
+    for await (const chunk of Buffer.isBuffer(content) ? [content] : content) {
+      crc = updateCrc32(crc, chunk)
+      size += chunk.length
+      yield chunk as Buffer
+    }
+    crc = (crc ^ MAX_32_BITS) >>> 0
+    if (size > MAX_32_BITS) throw Error(`File ${entry.name} is too large to be added to a ZIP archive`)
+
+    const dataDescriptor = Buffer.alloc(16)
+    dataDescriptor.writeUInt32LE(0x08074b50, 0)
+    dataDescriptor.writeUInt32LE(crc, 4)
+    dataDescriptor.writeUInt32LE(size, 8)
+    dataDescriptor.writeUInt32LE(size, 12)
+    yield dataDescriptor
+
+    // Offsets beyond 4 GB are set in a ZIP64 extra field
+    const isZip64Offset = offset > MAX_32_BITS
+    const centralHeader = Buffer.alloc(46 + (isZip64Offset ? 12 : 0))
+    centralHeader.writeUInt32LE(0x02014b50, 0)
+    centralHeader.writeUInt16LE(isZip64Offset ? 45 : 20, 4)
+    centralHeader.writeUInt16LE(isZip64Offset ? 45 : 20, 6)
+    centralHeader.writeUInt16LE(0x0808, 8)
+    centralHeader.writeUInt16LE(time, 12)
+    centralHeader.writeUInt16LE(date, 14)
+    centralHeader.writeUInt32LE(crc, 16)
+    centralHeader.writeUInt32LE(size, 20)
+    centralHeader.writeUInt32LE(size, 24)
+    centralHeader.writeUInt16LE(name.length, 28)
+    centralHeader.writeUInt16LE(isZip64Offset ? 12 : 0, 30)
+    centralHeader.writeUInt32LE(isZip64Offset ? MAX_32_BITS : offset, 42)
+    if (isZip64Offset) {
+      centralHeader.writeUInt16LE(0x0001, 46)
+      centralHeader.writeUInt16LE(8, 48)
+      centralHeader.writeBigUInt64LE(BigInt(offset), 50)
+    }
+    centralHeaders.push(centralHeader.subarray(0, 46), name, centralHeader.subarray(46))
+
+    offset += localHeader.length + name.length + size + dataDescriptor.length
+  }
+
+  const centralDirectoryOffset = offset
+  let centralDirectorySize = 0
+  for (const centralHeader of centralHeaders) {
+    centralDirectorySize += centralHeader.length
+    yield centralHeader
+  }
+
+  const isZip64 = entries.length > MAX_16_BITS || centralDirectoryOffset > MAX_32_BITS
+  if (isZip64) {
+    const zip64End = Buffer.alloc(56 + 20)
+    zip64End.writeUInt32LE(0x06064b50, 0)
+    zip64End.writeBigUInt64LE(BigInt(44), 4)
+    zip64End.writeUInt16LE(45, 12)
+    zip64End.writeUInt16LE(45, 14)
+    zip64End.writeBigUInt64LE(BigInt(entries.length), 24)
+    zip64End.writeBigUInt64LE(BigInt(entries.length), 32)
+    zip64End.writeBigUInt64LE(BigInt(centralDirectorySize), 40)
+    zip64End.writeBigUInt64LE(BigInt(centralDirectoryOffset), 48)
+
+    // Locator of the ZIP64 end record
+    zip64End.writeUInt32LE(0x07064b50, 56)
+    zip64End.writeBigUInt64LE(BigInt(centralDirectoryOffset + centralDirectorySize), 64)
+    zip64End.writeUInt32LE(1, 72)
+    yield zip64End
+  }
+
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(Math.min(entries.length, MAX_16_BITS), 8)
+  end.writeUInt16LE(Math.min(entries.length, MAX_16_BITS), 10)
+  end.writeUInt32LE(centralDirectorySize, 12)
+  end.writeUInt32LE(isZip64 ? MAX_32_BITS : centralDirectoryOffset, 16)
+  yield end
+}
+
+// Archive is generated as it's read, so only the file currently added is partly kept in memory
+export function createZipStream(entries: ZipEntryI[]): ReadableStream<Uint8Array> {
+  const zip = generateZip(entries)
+
+  return new ReadableStream({
+    async pull(controller) {
+      const { value, done } = await zip.next()
+      if (done) controller.close()
+      else controller.enqueue(new Uint8Array(value.buffer, value.byteOffset, value.length))
+    },
+    async cancel() {
+      await zip.return(undefined)
+    },
+  })
+}
@@ -12,6 +12,8 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
+import { ImageI } from './generate-image-utils'
+
 export interface EditImageFieldStyleI {
   type: string
   label: string
@@ -161,6 +163,18 @@ export const EditImageFormFields = {
         defaultMaskDilation: 0.0,
         defaultBaseSteps: 75,
       },
+      {
+        value: 'CONVERSATIONAL',
+        label: 'Chat edit',
+        description: 'Edit step by step',
+        icon: 'forum',
+        mandatoryPrompt: true,
+        promptIndication: 'Instruction - Describe the next change to apply, ex: "make the sky pink"',
+        mandatoryMask: false,
+        enabled: true,
+        defaultMaskDilation: 0,
+        defaultBaseSteps: 0,
+      },
       {
         value: 'UPSCALE',
         label: 'Upscale',
@@ -347,3 +361,12 @@ editFieldList.forEach((field) => {
   const defaultValue = 'default' in fieldParams ? fieldParams.default : ''
   formDataEditDefaults = { ...formDataEditDefaults, [field]: defaultValue }
 })
+
+// Model used for conversational edits, as Imagen does not support multi-turn editing
+export const conversationalEditModel = 'gemini-2.5-flash-image'
+
+// A turn of a conversational edit, with the image version it produced
+export interface EditChatTurnI {
+  instruction: string
+  image: ImageI
+}
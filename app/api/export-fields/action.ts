@@ -0,0 +1,186 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+'use server'
+
+import { decomposeUri } from '../cloud-storage/storage'
+import {
+  ExportCustomFieldsI,
+  ExportFieldErrorI,
+  ExportFieldsVersionI,
+  ExportMediaFormFieldsI,
+  exportStandardFields,
+  formatExportFieldError,
+  getExportFieldsErrors,
+  parseExportFields,
+} from '../export-utils'
+import { getAdminUser } from '../google-auth/identity'
+import { getStorageDriver } from '../storage-driver'
+
+// Every saved version is kept next to the options file, in a '<file name>-versions' folder listed by history.json
+async function getExportFieldsLocation() {
+  const optionsURI = process.env.NEXT_PUBLIC_EXPORT_FIELDS_OPTIONS_URI
+  if (!optionsURI) throw Error('Missing NEXT_PUBLIC_EXPORT_FIELDS_OPTIONS_URI environment variable')
+
+  const { bucketName, fileName } = await decomposeUri(optionsURI)
+  const versionsFolder = `${fileName.replace(/\.json$/, '')}-versions`
+
+  return {
+    bucketName: bucketName,
+    fileName: fileName,
+    historyFileName: `${versionsFolder}/history.json`,
+    getVersionFileName: (version: number) => `${versionsFolder}/v${version}.json`,
+  }
+}
+
+async function readJsonFile(bucketName: string, fileName: string) {
+  try {
+    return JSON.parse((await getStorageDriver().download(bucketName, fileName)).toString())
+  } catch (error: any) {
+    if (error?.status === 404) return null
+    throw error
+  }
+}
+
+async function writeJsonFile(bucketName: string, fileName: string, data: any) {
+  const base64Data = Buffer.from(JSON.stringify(data, null, 2)).toString('base64')
+  await getStorageDriver().save(bucketName, fileName, base64Data, 'application/json')
+}
+
+// Latest version first
+async function readHistory(): Promise<ExportFieldsVersionI[]> {
+  const { bucketName, historyFileName } = await getExportFieldsLocation()
+  const history: ExportFieldsVersionI[] = (await readJsonFile(bucketName, historyFileName)) ?? []
+
+  return history.sort((a, b) => b.version - a.version)
+}
+
+async function saveNewVersion(
+  fields: ExportCustomFieldsI,
+  baseVersion: number,
+  savedBy: string,
+  restoredFrom?: number
+): Promise<{ fields: ExportCustomFieldsI; versions: ExportFieldsVersionI[] } | { error: string }> {
+  const errors = getExportFieldsErrors(fields)
+  if (errors.length > 0) return { error: `Invalid export fields: ${errors.map(formatExportFieldError).join('; ')}` }
+
+  const { bucketName, fileName, historyFileName, getVersionFileName } = await getExportFieldsLocation()
+  let history = await readHistory()
+
+  // Prevents an admin from overwriting changes saved since they loaded the fields
+  const latestVersion = history.length > 0 ? history[0].version : 0
+  if (latestVersion !== baseVersion)
+    return { error: 'Export fields were changed by someone else in the meantime, reload them before saving.' }
+
+  // Options file as it was before the first save is kept as the first version, to be able to roll back to it
+  if (history.length === 0) {
+    const initialFields = await readJsonFile(bucketName, fileName)
+    if (initialFields) {
+      await writeJsonFile(bucketName, getVersionFileName(1), initialFields)
+      history = [{ version: 1, savedAt: Date.now() }]
+    }
+  }
+
+  const newVersion: ExportFieldsVersionI = {
+    version: history.length > 0 ? history[0].version + 1 : 1,
+    savedAt: Date.now(),
+    savedBy: savedBy,
+    restoredFrom: restoredFrom,
+  }
+  await writeJsonFile(bucketName, getVersionFileName(newVersion.version), fields)
+  await writeJsonFile(bucketName, fileName, fields)
+
+  history = [newVersion, ...history]
+  await writeJsonFile(bucketName, historyFileName, history)
+
+  return { fields: fields, versions: history }
+}
+
+// Standard & valid custom fields, as loaded by the app, for server side uses of the Library metadata
+export async function fetchExportFields(): Promise<ExportMediaFormFieldsI | { error: string }> {
+  try {
+    const { bucketName, fileName } = await getExportFieldsLocation()
+    const { fields } = parseExportFields((await readJsonFile(bucketName, fileName)) ?? {})
+
+    return { ...exportStandardFields, ...fields }
+  } catch (error) {
+    console.error(error)
+    return {
+      error: 'Error while fetching export fields',
+    }
+  }
+}
+
+// Broken fields of the saved file are left out & returned as errors, saving the edited fields then drops them
+export async function fetchExportFieldsSettings(): Promise<
+  { fields: ExportCustomFieldsI; errors: ExportFieldErrorI[]; versions: ExportFieldsVersionI[] } | { error: string }
+> {
+  try {
+    const admin = await getAdminUser()
+    if ('error' in admin) return admin
+
+    const { bucketName, fileName } = await getExportFieldsLocation()
+    const { fields, errors } = parseExportFields((await readJsonFile(bucketName, fileName)) ?? {})
+
+    return {
+      fields: fields,
+      errors: errors,
+      versions: await readHistory(),
+    }
+  } catch (error) {
+    console.error(error)
+    return {
+      error: 'Error while fetching export fields',
+    }
+  }
+}
+
+export async function saveExportFields(
+  fields: ExportCustomFieldsI,
+  baseVersion: number
+): Promise<{ fields: ExportCustomFieldsI; versions: ExportFieldsVersionI[] } | { error: string }> {
+  try {
+    const admin = await getAdminUser()
+    if ('error' in admin) return admin
+
+    return await saveNewVersion(fields, baseVersion, admin.email)
+  } catch (error) {
+    console.error(error)
+    return {
+      error: 'Error while saving export fields',
+    }
+  }
+}
+
+// Rolled back fields are saved as a new version, so the rollback can itself be undone
+export async function rollbackExportFields(
+  version: number,
+  baseVersion: number
+): Promise<{ fields: ExportCustomFieldsI; versions: ExportFieldsVersionI[] } | { error: string }> {
+  try {
+    const admin = await getAdminUser()
+    if ('error' in admin) return admin
+
+    const { bucketName, getVersionFileName } = await getExportFieldsLocation()
+    const fields = await readJsonFile(bucketName, getVersionFileName(version))
+    if (!fields) return { error: `Version ${version} of export fields not found` }
+
+    return await saveNewVersion(fields, baseVersion, admin.email, version)
+  } catch (error) {
+    console.error(error)
+    return {
+      error: 'Error while rolling back export fields',
+    }
+  }
+}
@@ -12,8 +12,9 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-import { ImageI } from './generate-image-utils'
-import { VideoI } from './generate-video-utils'
+import { EditImageFormFields } from './edit-utils'
+import { chipGroupFieldsI, GenerateImageFormFields, ImageI } from './generate-image-utils'
+import { GenerateVideoFormFields, VideoI } from './generate-video-utils'
 
 export interface ExportMediaFieldI {
   label: string
@@ -169,6 +170,269 @@ export const exportStandardFields: ExportMediaFormFieldsI = {
     isExportVisible: true,
     isExploreVisible: true,
   },
+  lastModificationDate: {
+    label: 'Last modification date',
+    type: 'text-info',
+    isUpdatable: false,
+    isExportVisible: false,
+    isExploreVisible: true,
+  },
+  lastModifiedBy: {
+    label: 'Last modified by',
+    type: 'text-info',
+    isUpdatable: false,
+    isExportVisible: false,
+    isExploreVisible: true,
+  },
+}
+
+// Types admins can give to the fields they add in the export fields options file
+export const exportCustomFieldTypes: { value: string; label: string }[] = [
+  { value: 'multiple-select', label: 'Multiple select' },
+  { value: 'select', label: 'Single select' },
+  { value: 'text', label: 'Free text' },
+  { value: 'number', label: 'Number' },
+  { value: 'date', label: 'Date' },
+  { value: 'boolean', label: 'Checkbox' },
+]
+
+// Fields of the export fields options file, standard fields being added by the app
+export interface ExportCustomFieldsI {
+  [key: string]: ExportMediaFieldI
+}
+
+export interface ExportFieldsVersionI {
+  version: number
+  savedAt: number
+  savedBy?: string
+  restoredFrom?: number
+}
+
+// Field types whose values are picked among options
+export const exportSelectFieldTypes = ['multiple-select', 'select']
+
+// Field types the Library can be filtered on with a range
+export const exportRangeFieldTypes = ['number', 'date']
+
+const booleanFieldOptions = [
+  { value: 'true', label: 'Yes' },
+  { value: 'false', label: 'No' },
+]
+
+// Values the Library can filter a field on, checkboxes being filtered on 'true' or 'false'
+export const getExportFieldFilterOptions = (field: ExportMediaFieldI) =>
+  field.type === 'boolean' ? booleanFieldOptions : field.options
+
+// Values stored for the field from a form input (ex: ['marketing'] => { marketing: true }),
+// dates being stored as the timestamp of their day in UTC so they can be range filtered whatever the time zone
+export const toStoredExportFieldValue = (field: ExportMediaFieldI, value: any) => {
+  switch (field.type) {
+    case 'multiple-select':
+      return Array.isArray(value) && value.length > 0
+        ? Object.fromEntries(value.map((str: string) => [str, true]))
+        : null
+    case 'select':
+    case 'text':
+      return typeof value === 'string' && value.trim() !== '' ? value.trim() : null
+    case 'number':
+      return value !== undefined && value !== null && value !== '' && !isNaN(Number(value)) ? Number(value) : null
+    case 'date':
+      return typeof value === 'string' && !isNaN(Date.parse(value)) ? Date.parse(value) : null
+    case 'boolean':
+      return value === true
+    default:
+      return value ?? null
+  }
+}
+
+// Form input value of a stored value, to edit it
+export const toExportFieldFormValue = (field: ExportMediaFieldI, value: any) => {
+  switch (field.type) {
+    case 'multiple-select':
+      return value ? Object.keys(value).filter((val) => value[val]) : []
+    case 'date':
+      return typeof value === 'number' ? new Date(value).toISOString().slice(0, 10) : ''
+    case 'boolean':
+      return value === true
+    default:
+      return value ?? ''
+  }
+}
+
+const getOptionLabel = (field: ExportMediaFieldI, value: string) =>
+  field.options?.find((option) => option.value === value)?.label ?? value
+
+// Stored value as displayed in the Library, options being displayed with their label
+export const formatExportFieldValue = (field: ExportMediaFieldI, value: any) => {
+  if (value === undefined || value === null || value === '') return null
+
+  if (field.type === 'boolean') return value === true ? 'Yes' : 'No'
+  if (field.type === 'date' && typeof value === 'number')
+    return new Date(value).toLocaleDateString('en-US', {
+      month: 'long',
+      day: 'numeric',
+      year: 'numeric',
+      timeZone: 'UTC',
+    })
+  if (field.type === 'select') return getOptionLabel(field, `${value}`)
+  if (typeof value === 'object')
+    return Object.keys(value)
+      .filter((val) => value[val])
+      .map((val) => getOptionLabel(field, val))
+      .join(', ')
+
+  return `${value}`
+}
+
+// Library medias as a table with one column per field, multiple select values being flattened to their labels
+export const getMetadataTable = (documents: MediaMetadataI[], fields: ExportMediaFormFieldsI) => ({
+  headers: Object.values(fields).map((field) => field.label),
+  rows: documents.map((document) =>
+    Object.entries(fields).map(([key, field]) => formatExportFieldValue(field, document[key]) ?? '')
+  ),
+})
+
+// Library media with option values replaced by their labels, multiple select maps becoming lists of labels
+export const toReadableMetadata = (document: MediaMetadataI, fields: ExportMediaFormFieldsI) => {
+  const readableDocument: MediaMetadataI = { ...document }
+
+  Object.entries(fields).forEach(([key, field]) => {
+    const value = document[key]
+    if (field.type === 'select' && typeof value === 'string') readableDocument[key] = getOptionLabel(field, value)
+    else if (field.type === 'multiple-select' && value && typeof value === 'object')
+      readableDocument[key] = Object.keys(value)
+        .filter((val) => value[val])
+        .map((val) => getOptionLabel(field, val))
+  })
+
+  return readableDocument
+}
+
+// Values are quoted when needed, so they can contain commas, quotes & line breaks
+export const toCsv = (rows: string[][]) =>
+  rows
+    .map((row) => row.map((value) => (/[",\r\n]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value)).join(','))
+    .join('\r\n')
+
+// Property is missing when the error is about the field itself (ex: its key)
+export interface ExportFieldErrorI {
+  field: string
+  property?: string
+  message: string
+}
+
+export const formatExportFieldError = ({ field, property, message }: ExportFieldErrorI) =>
+  `${field || '(no key)'}${property ? `.${property}` : ''}: ${message}`
+
+// Type of each property an export field can have, any other property being rejected
+const exportFieldSchema: { [property in keyof ExportMediaFieldI]-?: { type: string; isRequired: boolean } } = {
+  label: { type: 'string', isRequired: true },
+  name: { type: 'string', isRequired: false },
+  type: { type: 'string', isRequired: true },
+  prop: { type: 'string', isRequired: false },
+  isUpdatable: { type: 'boolean', isRequired: true },
+  isMandatory: { type: 'boolean', isRequired: false },
+  isExportVisible: { type: 'boolean', isRequired: true },
+  isExploreVisible: { type: 'boolean', isRequired: true },
+  options: { type: 'array', isRequired: false },
+}
+
+// Field keys & option values are used as Firestore field names and filter values
+const exportFieldKeyPattern = /^[a-z][a-zA-Z]*$/
+
+const getValueType = (value: unknown) => (Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value)
+
+// Checks a field of the export fields options file against the schema
+export const getExportFieldErrors = (key: string, field: unknown) => {
+  const errors: ExportFieldErrorI[] = []
+  const addError = (message: string, property?: string) =>
+    errors.push({ field: key, property: property, message: message })
+
+  if (!exportFieldKeyPattern.test(key)) addError('Key must only contain letters, starting with a lowercase one')
+  if (key in exportStandardFields) addError('Key is already used by a standard field')
+  if (getValueType(field) !== 'object') {
+    addError(`Field must be an object, not ${getValueType(field)}`)
+    return errors
+  }
+
+  const fieldProperties = field as { [property: string]: unknown }
+  Object.keys(fieldProperties)
+    .filter((property) => !(property in exportFieldSchema))
+    .forEach((property) => addError('Unknown property', property))
+
+  Object.entries(exportFieldSchema).forEach(([property, { type, isRequired }]) => {
+    const value = fieldProperties[property]
+    if (value === undefined) {
+      if (isRequired) addError('Property is required', property)
+    } else if (getValueType(value) !== type) addError(`Must be of type ${type}, not ${getValueType(value)}`, property)
+  })
+
+  // Values are only checked further when they have the expected types
+  const isChecked = (property: keyof ExportMediaFieldI) =>
+    !errors.some((error) => error.property === property) && fieldProperties[property] !== undefined
+  const { label, type, options } = field as ExportMediaFieldI
+
+  if (isChecked('label') && !label.trim()) addError('Must not be empty', 'label')
+  if (!isChecked('type')) return errors
+  if (!exportCustomFieldTypes.some(({ value }) => value === type)) {
+    addError(
+      `Unknown type '${type}', must be one of: ${exportCustomFieldTypes.map(({ value }) => value).join(', ')}`,
+      'type'
+    )
+    return errors
+  }
+  if (!isChecked('options') && fieldProperties.options !== undefined) return errors
+
+  if (exportSelectFieldTypes.includes(type)) {
+    const fieldOptions = options ?? []
+    if (fieldOptions.length === 0) addError(`Required with at least one option for type '${type}'`, 'options')
+
+    const optionValues: string[] = []
+    fieldOptions.forEach((option, index) => {
+      const addOptionError = (message: string, property?: string) =>
+        addError(message, `options[${index}]${property ? `.${property}` : ''}`)
+
+      if (getValueType(option) !== 'object')
+        return addOptionError(`Option must be an object, not ${getValueType(option)}`)
+      Object.keys(option)
+        .filter((property) => property !== 'value' && property !== 'label')
+        .forEach((property) => addOptionError('Unknown property', property))
+
+      if (typeof option.value !== 'string') addOptionError('Must be a string', 'value')
+      else if (!exportFieldKeyPattern.test(option.value))
+        addOptionError('Must only contain letters, starting with a lowercase one', 'value')
+      else if (optionValues.includes(option.value))
+        addOptionError(`Value '${option.value}' is used more than once`, 'value')
+      else optionValues.push(option.value)
+
+      if (typeof option.label !== 'string' || !option.label.trim())
+        addOptionError('Must be a non-empty string', 'label')
+    })
+  } else if (options) addError(`Not allowed for type '${type}'`, 'options')
+
+  return errors
+}
+
+export const getExportFieldsErrors = (fields: ExportCustomFieldsI) =>
+  Object.entries(fields).flatMap(([key, field]) => getExportFieldErrors(key, field))
+
+// Loaded options file is split between valid fields and errors, so one broken field doesn't prevent the others from loading
+export const parseExportFields = (json: unknown) => {
+  if (getValueType(json) !== 'object')
+    return {
+      fields: {} as ExportCustomFieldsI,
+      errors: [{ field: '', message: `Options file must contain an object, not ${getValueType(json)}` }],
+    }
+
+  const fields: ExportCustomFieldsI = {}
+  const errors: ExportFieldErrorI[] = []
+  Object.entries(json as { [key: string]: unknown }).forEach(([key, field]) => {
+    const fieldErrors = getExportFieldErrors(key, field)
+    if (fieldErrors.length === 0) fields[key] = field as ExportMediaFieldI
+    else errors.push(...fieldErrors)
+  })
+
+  return { fields: fields, errors: errors }
 }
 
 export interface ExportMediaFormI {
@@ -181,6 +445,65 @@ export interface FilterMediaFormI {
   [key: string]: any
 }
 
+// Filters actually set in the Library, empty ones being left out
+export const getSelectedFilters = (filters?: FilterMediaFormI): FilterMediaFormI =>
+  Object.fromEntries(
+    Object.entries(filters ?? {}).filter(([, value]) =>
+      Array.isArray(value) ? value.length > 0 : value !== undefined && value !== ''
+    )
+  )
+
+// Values selected within a field are always OR-ed, fields are AND-ed when all of them must match
+export const filterModeField: chipGroupFieldsI = {
+  label: 'Medias must match',
+  default: 'All fields',
+  options: ['All fields', 'Any field'],
+}
+
+// Standard fields the Library can be filtered on by value, options being the values medias are stored with
+export interface LibraryFieldFilterI {
+  label: string
+  options?: { value: string; label: string }[]
+}
+
+const modelOptions = [
+  ...GenerateImageFormFields.modelVersion.options,
+  ...EditImageFormFields.modelVersion.options,
+  ...GenerateVideoFormFields.modelVersion.options,
+]
+const ratioOptions = [...GenerateImageFormFields.aspectRatio.options, ...GenerateVideoFormFields.aspectRatio.options]
+
+export const libraryFieldFilters: { [field: string]: LibraryFieldFilterI } = {
+  leveragedModel: {
+    label: 'Leveraged model',
+    options: modelOptions
+      .filter((option, index) => modelOptions.findIndex(({ value }) => value === option.value) === index)
+      .map(({ value, label }) => ({ value: value, label: label })),
+  },
+  format: {
+    label: 'Format',
+    options: ['PNG', 'JPEG', 'MP4'].map((format) => ({ value: format, label: format })),
+  },
+  aspectRatio: {
+    label: 'Ratio',
+    options: Array.from(new Set(ratioOptions)).map((ratio) => ({ value: ratio, label: ratio })),
+  },
+  author: {
+    label: 'Author',
+  },
+}
+
+export type LibrarySortT = 'newest' | 'oldest' | 'author' | 'model' | 'resolution' | 'duration'
+
+export const librarySortOptions: { value: LibrarySortT; label: string }[] = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'author', label: 'Author' },
+  { value: 'model', label: 'Model' },
+  { value: 'resolution', label: 'Highest resolution' },
+  { value: 'duration', label: 'Longest video' },
+]
+
 export interface MediaMetadataI {
   id: string
   gcsURI: string
@@ -196,7 +519,49 @@ export interface MediaMetadataI {
   upscaleFactor?: string
   width: number
   height: number
+  lastModificationDate?: string
+  lastModifiedBy?: string
+  deletedAt?: number
+  deletedBy?: string
   [key: string]: any
 }
 
 export type MediaMetadataWithSignedUrl = MediaMetadataI & { signedUrl: string; videoThumbnailSignedUrl?: string }
+
+// Words too common to narrow down a Library search
+const searchStopWords = new Set('a an and are at by for from in is of on or that the this to with'.split(' '))
+const MIN_SEARCH_TOKEN_LENGTH = 2
+const MAX_SEARCH_PREFIX_LENGTH = 15
+
+// Lowercased & accent-free words of a text (ex: 'Red sneakers at the Café' => ['red', 'sneakers', 'cafe'])
+export const tokenizeSearchText = (text: string) => {
+  const tokens = text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9\u00c0-\u1fff\u2c00-\uffff]+/)
+    .filter((token) => token.length >= MIN_SEARCH_TOKEN_LENGTH && !searchStopWords.has(token))
+
+  return Array.from(new Set(tokens))
+}
+
+// Keywords stored with a Library entry, word prefixes are included so that searching 'sneak' matches 'sneakers',
+// free text export fields can be searched as well
+export const getMediaSearchKeywords = (
+  media: { id?: string; author?: string; prompt?: string },
+  texts: string[] = []
+) => {
+  const keywords = new Set<string>()
+
+  tokenizeSearchText([media.prompt ?? '', media.author ?? '', media.id ?? '', ...texts].join(' ')).forEach((token) => {
+    for (let length = MIN_SEARCH_TOKEN_LENGTH; length <= Math.min(token.length, MAX_SEARCH_PREFIX_LENGTH); length++)
+      keywords.add(token.slice(0, length))
+    keywords.add(token)
+  })
+
+  return Array.from(keywords)
+}
+
+// Keywords a Library entry must all contain to match a search query
+export const getSearchQueryKeywords = (query: string) =>
+  Array.from(new Set(tokenizeSearchText(query).map((token) => token.slice(0, MAX_SEARCH_PREFIX_LENGTH))))
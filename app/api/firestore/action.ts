@@ -14,191 +14,500 @@
 
 'use server'
 
-import { Timestamp } from '@google-cloud/firestore'
-import { ExportMediaFormI, MediaMetadataI, ExportMediaFormFieldsI } from '../export-utils'
-import { deleteMedia } from '../cloud-storage/action'
+import {
+  ExportMediaFormI,
+  MediaMetadataI,
+  ExportMediaFormFieldsI,
+  exportSelectFieldTypes,
+  FilterMediaFormI,
+  getMediaSearchKeywords,
+  getSearchQueryKeywords,
+  libraryFieldFilters,
+  LibrarySortT,
+  toStoredExportFieldValue,
+} from '../export-utils'
+import { deleteMedia } from '../cloud-storage/storage'
+import { VideoJobI } from '../generate-video-utils'
+import { getMetadataRepository, MetadataCursorI, MetadataRepositoryError, MetadataSortI } from '../metadata-repository'
+import { getAdminUser, getCurrentUser, getTrashPurgeUser, getUserWithFeature } from '../google-auth/identity'
+import { canManageMedia, UserPermissionsI } from '../permissions-utils'
+import { recordAuditEvent } from '../audit-log/record'
+import { listUserVideoJobs } from '../veo/jobs'
+import { fetchExportFields } from '../export-fields/action'
+
+// Transforms filters selected in the library (ex: { contextAuthorTeam: ['marketing'] }) into groups of stored combined filters,
+// one group per field, or a single one when any field can match
+function getFilterGroups(filters?: any) {
+  if (!filters) return []
+
+  const filterGroups = Object.entries(filters)
+    .filter(([key, values]) => !libraryFieldFilters[key] && Array.isArray(values) && values.length > 0)
+    .map(([filterKey, filterValues]) => (filterValues as string[]).map((filterValue) => `${filterKey}_${filterValue}`))
+
+  if (filters.filterMode === 'Any field' && filterGroups.length > 0) return [filterGroups.flat()]
+  return filterGroups
+}
 
-const { Firestore, FieldValue } = require('@google-cloud/firestore')
-const firestore = new Firestore()
-firestore.settings({ ignoreUndefinedProperties: true })
+export async function addNewFirestoreEntry(entryID: string, data: ExportMediaFormI) {
+  const exporter = await getUserWithFeature('libraryExport')
+  if ('error' in exporter) return exporter
 
-export async function addNewFirestoreEntry(
-  entryID: string,
-  data: ExportMediaFormI,
-  ExportImageFormFields: ExportMediaFormFieldsI
-) {
-  const document = firestore.collection('metadata').doc(entryID)
+  // Field definitions are read on the server, so that clients can't choose which fields are stored & indexed
+  const ExportImageFormFields = await fetchExportFields()
+  if ('error' in ExportImageFormFields) return { error: 'Error while fetching export fields' }
 
   let cleanData: MediaMetadataI = {} as MediaMetadataI
   data = { ...data.mediaToExport, ...data }
-  let combinedFilters: string[] = []
-
-  if (ExportImageFormFields) {
-    Object.entries(ExportImageFormFields).forEach(([name, field]) => {
-      const sourceProp = field.prop || name
-      const valueFromData = data[sourceProp as keyof ExportMediaFormI]
-      let transformedValue = valueFromData
 
-      if (Array.isArray(valueFromData) && valueFromData.every((item) => typeof item === 'string')) {
-        transformedValue = valueFromData.length > 0 ? Object.fromEntries(valueFromData.map((str) => [str, true])) : null
-        valueFromData.forEach((item) => combinedFilters.push(`${name}_${item}`))
-      }
+  Object.entries(ExportImageFormFields).forEach(([name, field]) => {
+    const sourceProp = field.prop || name
+    const valueFromData = data[sourceProp as keyof ExportMediaFormI]
+    cleanData[name as keyof MediaMetadataI] = toStoredExportFieldValue(field, valueFromData)
+  })
+  // Exported medias always belong to the user exporting them
+  cleanData.author = exporter.userID
 
-      cleanData[name as keyof MediaMetadataI] = transformedValue ?? null
+  try {
+    const metadataRepository = getMetadataRepository()
+    const res = await metadataRepository.add(entryID, cleanData, {
+      combinedFilters: getDocumentCombinedFilters(cleanData, ExportImageFormFields),
+      searchKeywords: getDocumentSearchKeywords(cleanData, ExportImageFormFields),
+      creationTimestamp: getCreationTimestamp(cleanData.creationDate),
+      pixelCount: (cleanData.width ?? 0) * (cleanData.height ?? 0),
     })
-  }
+    await metadataRepository.addAuthors([cleanData.author])
 
-  const dataToSet = {
-    ...cleanData,
-    timestamp: FieldValue.serverTimestamp(),
-    combinedFilters: combinedFilters,
-  }
-
-  try {
-    const res = await document.set(dataToSet, { ignoreUndefinedProperties: true })
-    return res._writeTime._seconds
+    return res
   } catch (error) {
     console.error(error)
+    if (error instanceof MetadataRepositoryError && error.status === 409)
+      return { error: 'This media has already been exported to the Library.' }
     return {
       error: 'Error while setting new metadata entry to database.',
     }
   }
 }
 
-export async function fetchDocumentsInBatches(lastVisibleDocument?: any, filters?: any) {
-  const batchSize = 24
+// Standard fields are filtered on their stored value (ex: { format: ['PNG'], author: 'john' })
+function getFieldFilters(filters?: any) {
+  const fieldFilters: { [field: string]: string[] } = {}
 
-  const collection = firestore.collection('metadata')
-  let thisBatchDocuments: MediaMetadataI[] = []
+  Object.keys(libraryFieldFilters).forEach((field) => {
+    const value = filters?.[field]
+    if (Array.isArray(value) && value.length > 0) fieldFilters[field] = value
+    else if (typeof value === 'string' && value.trim() !== '') fieldFilters[field] = [value.trim()]
+  })
+
+  return fieldFilters
+}
 
-  let query = collection
+// Date inputs (ex: '2025-06-30') are local days, like stored creation dates
+function getRangeFilters(filters?: any) {
+  const rangeFilters: { [field: string]: { min?: number; max?: number } } = {}
+  const toNumber = (value: any) =>
+    value !== undefined && value !== '' && !isNaN(Number(value)) ? Number(value) : undefined
 
-  if (filters) {
-    const filterEntries = Object.entries(filters).filter(([, values]) => Array.isArray(values) && values.length > 0)
-    if (filterEntries.length > 0) {
-      const combinedFilterEntries = filterEntries.flatMap(([filterKey, filterValues]) =>
-        (filterValues as string[]).map((filterValue) => `${filterKey}_${filterValue}`)
-      )
-      if (combinedFilterEntries.length > 0)
-        query = query.where('combinedFilters', 'array-contains-any', combinedFilterEntries)
+  if (filters?.creationDateFrom || filters?.creationDateTo)
+    rangeFilters.creationTimestamp = {
+      min: filters.creationDateFrom ? Date.parse(`${filters.creationDateFrom}T00:00:00`) : undefined,
+      max: filters.creationDateTo ? Date.parse(`${filters.creationDateTo}T23:59:59.999`) : undefined,
     }
+
+  const minDuration = toNumber(filters?.videoDurationMin)
+  const maxDuration = toNumber(filters?.videoDurationMax)
+  if (minDuration !== undefined || maxDuration !== undefined)
+    rangeFilters.videoDuration = { min: minDuration, max: maxDuration }
+
+  // Number & date export fields ranges are set with stored values (ex: { contextGoLiveDate: { min: 1751241600000 } })
+  Object.entries(filters?.fieldRanges ?? {}).forEach(([field, range]: [string, any]) => {
+    const min = toNumber(range?.min)
+    const max = toNumber(range?.max)
+    if (!libraryFieldFilters[field] && (min !== undefined || max !== undefined)) rangeFilters[field] = { min, max }
+  })
+
+  return rangeFilters
+}
+
+// Stored field each Library sort is applied on
+const librarySorts: { [sort in LibrarySortT]: MetadataSortI } = {
+  newest: { field: 'timestamp', direction: 'desc' },
+  oldest: { field: 'timestamp', direction: 'asc' },
+  author: { field: 'author', direction: 'asc' },
+  model: { field: 'leveragedModel', direction: 'asc' },
+  resolution: { field: 'pixelCount', direction: 'desc' },
+  duration: { field: 'videoDuration', direction: 'desc' },
+}
+
+// Most recently deleted medias are shown first in the trash
+const trashSort: MetadataSortI = { field: 'deletedAt', direction: 'desc' }
+
+// Number of days trashed medias are kept before they can be purged
+function getTrashRetentionDays() {
+  const retentionDays = parseInt(process.env.LIBRARY_TRASH_RETENTION_DAYS ?? '', 10)
+  return isNaN(retentionDays) || retentionDays < 0 ? 30 : retentionDays
+}
+
+// Creation dates are stored formatted (ex: 'June 30, 2025'), their timestamp is indexed to filter medias on it
+function getCreationTimestamp(creationDate: any) {
+  const timestamp = Date.parse(creationDate)
+  return isNaN(timestamp) ? Date.now() : timestamp
+}
+
+// Stored select & checkbox values (ex: { contextAuthorTeam: { marketing: true } }, contextChannel: 'email', isApproved: true)
+// are indexed as combined filters (ex: 'contextAuthorTeam_marketing', 'contextChannel_email', 'isApproved_true')
+function getDocumentCombinedFilters(document: MediaMetadataI, ExportImageFormFields: ExportMediaFormFieldsI) {
+  return Object.entries(ExportImageFormFields)
+    .filter(
+      ([name, field]) =>
+        (exportSelectFieldTypes.includes(field.type) || field.type === 'boolean') &&
+        document[name] !== null &&
+        document[name] !== undefined
+    )
+    .flatMap(([name, field]) => {
+      const value = document[name]
+      const values = field.type === 'multiple-select' ? Object.keys(value).filter((val) => value[val]) : [`${value}`]
+      return values.map((val) => `${name}_${val}`)
+    })
+}
+
+// Free text export fields are searched in, along with the prompt, author & ID
+function getDocumentSearchKeywords(document: MediaMetadataI, ExportImageFormFields: ExportMediaFormFieldsI) {
+  const texts = Object.entries(ExportImageFormFields)
+    .filter(([name, field]) => field.type === 'text' && typeof document[name] === 'string')
+    .map(([name]) => document[name])
+
+  return getMediaSearchKeywords(document, texts)
+}
+
+// Current user, if allowed to edit & delete every given Library entry
+async function getUserManagingEntries(entryIDs: string[]): Promise<UserPermissionsI | { error: string }> {
+  const user = await getCurrentUser()
+  if (!user) return { error: 'Authentication error' }
+  if (user.isAdmin || user.features.libraryModeration) return user
+
+  const entries = await Promise.all(entryIDs.map((id) => getMetadataRepository().get(id)))
+  if (entries.some((entry) => entry && !canManageMedia(user, entry)))
+    return { error: 'You can only edit or delete medias you created.' }
+
+  return user
+}
+
+// URIs of the files of Library entries, so that audit events can be looked for from them
+async function getEntriesUris(entryIDs: string[]) {
+  const entries = await Promise.all(entryIDs.map((id) => getMetadataRepository().get(id)))
+
+  return entries.flatMap((entry) => [entry?.gcsURI, entry?.videoThumbnailGcsUri]).filter((uri): uri is string => !!uri)
+}
+
+export async function updateFirestoreEntry(
+  entryID: string,
+  data: FilterMediaFormI
+): Promise<MediaMetadataI | { error: string }> {
+  // Field definitions are read on the server, so that clients can't make other fields updatable
+  const ExportImageFormFields = await fetchExportFields()
+  if ('error' in ExportImageFormFields) return { error: 'Error while fetching export fields' }
+
+  let updatedData: Partial<MediaMetadataI> = {}
+
+  // Only updatable fields can be changed once the media has been exported
+  for (const [name, field] of Object.entries(ExportImageFormFields)) {
+    if (!field.isUpdatable || !(name in data)) continue
+
+    const transformedValue = toStoredExportFieldValue(field, data[name])
+    if (field.isMandatory && transformedValue === null)
+      return { error: `Field '${field.name || field.label}' is mandatory.` }
+    updatedData[name] = transformedValue
   }
 
-  query = query.orderBy('timestamp', 'desc').limit(batchSize)
+  const today = new Date()
+  updatedData.lastModificationDate = today.toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+  })
 
   try {
-    if (lastVisibleDocument) {
-      query = query.startAfter(
-        new Timestamp(
-          Math.floor(lastVisibleDocument.timestamp / 1000),
-          (lastVisibleDocument.timestamp % 1000) * 1000000
-        )
-      )
+    const metadataRepository = getMetadataRepository()
+
+    const currentEntry = await metadataRepository.get(entryID)
+    if (!currentEntry) return { error: 'This media does not exist anymore in the library.' }
+
+    const editor = await getUserManagingEntries([entryID])
+    if ('error' in editor) return editor
+    updatedData.lastModifiedBy = editor.userID
+
+    // Combined filters & search keywords are recomputed from the whole entry, as non-updatable fields also feed them
+    const updatedEntry: MediaMetadataI = { ...currentEntry, ...updatedData }
+    await metadataRepository.update(entryID, updatedData, {
+      combinedFilters: getDocumentCombinedFilters(updatedEntry, ExportImageFormFields),
+      searchKeywords: getDocumentSearchKeywords(updatedEntry, ExportImageFormFields),
+    })
+
+    return updatedEntry
+  } catch (error) {
+    console.error(error)
+    return {
+      error: 'Error while updating metadata entry in database.',
     }
+  }
+}
 
-    const snapshot = await query.get()
+export async function fetchDocumentsInBatches(
+  lastVisibleDocument?: MetadataCursorI | null,
+  filters?: any,
+  sort: LibrarySortT = 'newest',
+  isTrashed = false,
+  batchSize = 24
+) {
+  try {
+    const page = await getMetadataRepository().paginate({
+      cursor: lastVisibleDocument,
+      sort: isTrashed ? trashSort : (librarySorts[sort] ?? librarySorts.newest),
+      filterGroups: getFilterGroups(filters),
+      searchKeywords: getSearchQueryKeywords(filters?.searchQuery ?? ''),
+      fieldFilters: getFieldFilters(filters),
+      rangeFilters: getRangeFilters(filters),
+      isTrashed: isTrashed,
+      batchSize: batchSize,
+    })
 
     // No more documents
-    if (snapshot.empty) {
+    if (page.documents.length === 0) {
       return { thisBatchDocuments: null, lastVisibleDocument: null, isMorePageToLoad: false }
     }
 
-    thisBatchDocuments = snapshot.docs.map((doc: { data: () => any }) => {
-      const data = doc.data()
-      delete data.timestamp
-      delete data.combinedFilters
-      return data as MediaMetadataI
-    })
-
-    const newLastVisibleDocument = {
-      id: snapshot.docs[snapshot.docs.length - 1].id,
-      timestamp:
-        snapshot.docs[snapshot.docs.length - 1].data().timestamp._seconds * 1000 +
-        snapshot.docs[snapshot.docs.length - 1].data().timestamp._nanoseconds / 1000000,
+    return {
+      thisBatchDocuments: page.documents,
+      lastVisibleDocument: page.lastVisibleDocument,
+      isMorePageToLoad: page.isMorePageToLoad,
     }
+  } catch (error) {
+    console.error(error)
+    return {
+      error: 'Error while fetching metadata',
+    }
+  }
+}
+
+// Counts are kept for a few minutes, as they're needed every time Library filters are opened
+const FILTER_COUNTS_CACHE_MS = 5 * 60 * 1000
+const filterCountsCache = new Map<string, { counts: { [combinedFilter: string]: number }; expiresAt: number }>()
 
-    // Check if there's a next page
-    let nextPageQuery = collection
-    if (filters) {
-      const filterEntries = Object.entries(filters).filter(([, values]) => Array.isArray(values) && values.length > 0)
-      if (filterEntries.length > 0) {
-        const combinedFilterEntries = filterEntries.flatMap(([filterKey, filterValues]) =>
-          (filterValues as string[]).map((filterValue) => `${filterKey}_${filterValue}`)
+// Number of library medias each filter option (ex: { contextAuthorTeam: ['marketing'] }) would return along with the
+// applied filters, the option replacing the selection of its own field, or every selected option when any field can match
+export async function countDocumentsByFilter(
+  filterOptions: { [filterKey: string]: string[] },
+  filters?: any
+): Promise<{ [combinedFilter: string]: number } | { error: string }> {
+  const cacheKey = JSON.stringify({ filterOptions, filters })
+  const cached = filterCountsCache.get(cacheKey)
+  if (cached && cached.expiresAt > Date.now()) return cached.counts
+
+  try {
+    const fieldCounts = await Promise.all(
+      Object.entries(filterOptions).map(([filterKey, values]) => {
+        const otherFilters: any = Object.fromEntries(
+          Object.entries(filters ?? {}).filter(([key]) =>
+            filters.filterMode === 'Any field' ? !(key in filterOptions) : key !== filterKey
+          )
         )
-        if (combinedFilterEntries.length > 0)
-          nextPageQuery = nextPageQuery.where('combinedFilters', 'array-contains-any', combinedFilterEntries)
-      }
-    }
 
-    nextPageQuery = nextPageQuery
-      .orderBy('timestamp', 'desc')
-      .limit(1)
-      .startAfter(
-        new Timestamp(
-          Math.floor(newLastVisibleDocument.timestamp / 1000),
-          (newLastVisibleDocument.timestamp % 1000) * 1000000
+        return getMetadataRepository().countByFilter(
+          values.map((value) => `${filterKey}_${value}`),
+          {
+            filterGroups: getFilterGroups(otherFilters),
+            searchKeywords: getSearchQueryKeywords(otherFilters.searchQuery ?? ''),
+            fieldFilters: getFieldFilters(otherFilters),
+            rangeFilters: getRangeFilters(otherFilters),
+            isTrashed: false,
+          }
         )
-      )
-    const nextPageSnapshot = await nextPageQuery.get()
-    const isMorePageToLoad = !nextPageSnapshot.empty
+      })
+    )
+    const counts = Object.assign({}, ...fieldCounts)
 
-    return {
-      thisBatchDocuments: thisBatchDocuments,
-      lastVisibleDocument: newLastVisibleDocument,
-      isMorePageToLoad: isMorePageToLoad,
-    }
+    filterCountsCache.forEach(({ expiresAt }, key) => {
+      if (expiresAt <= Date.now()) filterCountsCache.delete(key)
+    })
+    filterCountsCache.set(cacheKey, { counts: counts, expiresAt: Date.now() + FILTER_COUNTS_CACHE_MS })
+
+    return counts
   } catch (error) {
     console.error(error)
     return {
-      error: 'Error while fetching metadata',
+      error: 'Error while counting medias by filter',
     }
   }
 }
 
-export async function firestoreDeleteBatch(
-  idsToDelete: string[],
-  currentMedias: MediaMetadataI[]
-): Promise<boolean | { error: string }> {
-  // Ensure firestore is initialized and collection name is correct
-  const collection = firestore.collection('metadata')
-  const batch = firestore.batch()
+// Indexes entries exported before search, date filters, resolution sort & analytics were available, can be run again safely
+export async function backfillMetadataIndex(): Promise<number | { error: string }> {
+  // Rewrites every Library entry, so only admins can run it
+  const admin = await getAdminUser()
+  if ('error' in admin) return admin
 
-  const gcsDeletionPromises: Promise<void>[] = []
+  const metadataRepository = getMetadataRepository()
+  const authors = new Set<string>()
+  let updatedCount = 0
 
+  try {
+    // Current export fields feed combined filters & search keywords, like when an entry is exported or edited
+    const exportFields = await fetchExportFields()
+    if ('error' in exportFields) return { error: 'Error while fetching export fields' }
+
+    // Trashed entries are indexed too, so they can be found once restored
+    let cursor: MetadataCursorI | null = null
+    do {
+      const page = await metadataRepository.paginate({ cursor: cursor, batchSize: 100 })
+
+      for (const document of page.documents) {
+        await metadataRepository.update(
+          document.id,
+          {},
+          {
+            combinedFilters: getDocumentCombinedFilters(document, exportFields),
+            searchKeywords: getDocumentSearchKeywords(document, exportFields),
+            creationTimestamp: getCreationTimestamp(document.creationDate),
+            pixelCount: (document.width ?? 0) * (document.height ?? 0),
+            isTrashed: Boolean(document.deletedAt),
+          }
+        )
+        if (document.author) authors.add(document.author)
+        updatedCount++
+      }
+
+      cursor = page.isMorePageToLoad ? page.lastVisibleDocument : null
+    } while (cursor)
+    await metadataRepository.addAuthors(Array.from(authors))
+
+    return updatedCount
+  } catch (error) {
+    console.error(error)
+    return {
+      error: 'Error while backfilling metadata index.',
+    }
+  }
+}
+
+// Medias are moved to the trash, their files are only deleted once purged after the retention period
+export async function firestoreDeleteBatch(idsToDelete: string[]): Promise<boolean | { error: string }> {
   if (!idsToDelete || idsToDelete.length === 0) {
     console.log('No IDs provided for deletion. Exiting.')
     return true
   }
 
-  for (const id of idsToDelete) {
-    const mediaItem = currentMedias.find((media) => media.id === id)
-
-    if (mediaItem && mediaItem.gcsURI)
-      gcsDeletionPromises.push(
-        deleteMedia(mediaItem.gcsURI)
-          .then(() => {
-            console.log(`Successfully deleted GCS file: ${mediaItem.gcsURI} for document ID: ${id}`)
-          })
-          .catch((error: any) => {
-            console.error(`Failed to delete GCS file ${mediaItem.gcsURI} for document ID: ${id}. Error:`, error)
-          })
-      )
-
-    // Add the Firestore document deletion to the batch
-    const docRef = collection.doc(id)
-    batch.delete(docRef)
+  const auditEvent = {
+    action: 'libraryDeletion' as const,
+    sourceUris: await getEntriesUris(idsToDelete).catch(() => []),
+    mediaIds: idsToDelete,
+  }
+
+  try {
+    const deleter = await getUserManagingEntries(idsToDelete)
+    if ('error' in deleter) {
+      await recordAuditEvent({ ...auditEvent, error: deleter.error })
+      return deleter
+    }
+
+    await getMetadataRepository().trash(idsToDelete, deleter.userID)
+    await recordAuditEvent(auditEvent)
+    return true
+  } catch (error) {
+    console.error('Metadata deletion failed:', error)
+    await recordAuditEvent({ ...auditEvent, error: String(error) })
+
+    return { error: `Metadata deletion failed. ` }
   }
+}
+
+export async function restoreFirestoreEntries(idsToRestore: string[]): Promise<boolean | { error: string }> {
+  if (!idsToRestore || idsToRestore.length === 0) return true
 
-  // Attempt to delete all GCS files concurrently and wait for all attempts to settle.
-  if (gcsDeletionPromises.length > 0) await Promise.all(gcsDeletionPromises)
+  const auditEvent = {
+    action: 'libraryRestoration' as const,
+    sourceUris: await getEntriesUris(idsToRestore).catch(() => []),
+    mediaIds: idsToRestore,
+  }
 
-  // Commit the batch of Firestore deletions
   try {
-    await batch.commit()
+    const restorer = await getUserManagingEntries(idsToRestore)
+    if ('error' in restorer) {
+      await recordAuditEvent({ ...auditEvent, error: restorer.error })
+      return restorer
+    }
+
+    await getMetadataRepository().restore(idsToRestore)
+    await recordAuditEvent(auditEvent)
     return true
   } catch (error) {
-    console.error('Firestore batch commit failed:', error)
+    console.error('Metadata restoration failed:', error)
+    await recordAuditEvent({ ...auditEvent, error: String(error) })
 
-    return { error: `Firestore batch deletion failed. ` }
+    return { error: 'Error while restoring medias from the trash.' }
   }
 }
+
+export async function fetchTrashRetentionDays() {
+  return getTrashRetentionDays()
+}
+
+// Permanently deletes medias trashed for longer than the retention period, files first then their metadata entries,
+// entries whose files couldn't be deleted are kept to be purged again later
+export async function purgeExpiredTrash(): Promise<number | { error: string }> {
+  const purger = await getTrashPurgeUser()
+  if ('error' in purger) return purger
+
+  const metadataRepository = getMetadataRepository()
+  const expirationTimestamp = Date.now() - getTrashRetentionDays() * 24 * 60 * 60 * 1000
+  let cursor: MetadataCursorI | null = null
+  let purgedCount = 0
+
+  try {
+    do {
+      const page = await metadataRepository.paginate({
+        cursor: cursor,
+        sort: { field: 'deletedAt', direction: 'asc' },
+        rangeFilters: { deletedAt: { max: expirationTimestamp } },
+        isTrashed: true,
+        batchSize: 100,
+      })
+
+      const purgeableIds: string[] = []
+      const purgedUris: string[] = []
+      for (const document of page.documents) {
+        const mediaUris = [document.gcsURI, document.videoThumbnailGcsUri].filter((uri): uri is string => !!uri)
+        const results = await Promise.all(mediaUris.map((uri) => deleteMedia(uri)))
+
+        const failedResult = results.find((res) => typeof res === 'object' && !res.error.includes('not found'))
+        if (failedResult) console.error(`Failed to purge files of document ID: ${document.id}`, failedResult)
+        else {
+          purgeableIds.push(document.id)
+          purgedUris.push(...mediaUris)
+        }
+      }
+
+      if (purgeableIds.length > 0) {
+        await metadataRepository.delete(purgeableIds)
+        await recordAuditEvent({ action: 'libraryPurge', sourceUris: purgedUris, mediaIds: purgeableIds })
+      }
+      purgedCount += purgeableIds.length
+
+      cursor = page.isMorePageToLoad ? page.lastVisibleDocument : null
+    } while (cursor)
+
+    return purgedCount
+  } catch (error) {
+    console.error(error)
+    return {
+      error: 'Error while purging the trash.',
+    }
+  }
+}
+
+// Jobs of the user calling the action, never of another one
+export async function fetchUserVideoJobs(maxJobs = 20): Promise<VideoJobI[] | { error: string }> {
+  const user = await getCurrentUser()
+  if (!user) return { error: 'Authentication error' }
+
+  return listUserVideoJobs(user.userID, maxJobs)
+}
@@ -0,0 +1,100 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { NextRequest, NextResponse } from 'next/server'
+
+import { decomposeUri } from '../../cloud-storage/storage'
+import { createZipStream, ZipEntryI } from '../../cloud-storage/zip'
+import { getMetadataTable, MediaMetadataI, toCsv } from '../../export-utils'
+import { fetchExportFields } from '../../export-fields/action'
+import { getCurrentUser } from '../../google-auth/identity'
+import { getMetadataRepository } from '../../metadata-repository'
+import { getStorageDriver } from '../../storage-driver'
+
+export const dynamic = 'force-dynamic'
+
+const MAX_DOWNLOADED_MEDIAS = 100
+
+// Selected Library medias as a ZIP archive streamed file by file, with their metadata in metadata.csv & metadata.json
+export async function GET(req: NextRequest) {
+  const user = await getCurrentUser()
+  if (!user) return NextResponse.json({ error: 'Authentication error' }, { status: 401 })
+
+  const ids = Array.from(new Set(req.nextUrl.searchParams.getAll('id')))
+  if (ids.length === 0 || ids.length > MAX_DOWNLOADED_MEDIAS)
+    return NextResponse.json(
+      { error: `Select between 1 and ${MAX_DOWNLOADED_MEDIAS} medias to download` },
+      { status: 400 }
+    )
+
+  const fields = await fetchExportFields()
+  if ('error' in fields) return NextResponse.json(fields, { status: 500 })
+
+  const storageDriver = getStorageDriver()
+  let medias: { document: MediaMetadataI; bucketName: string; objectName: string; fileName: string }[]
+  try {
+    const documents = (await Promise.all(ids.map((id) => getMetadataRepository().get(id)))).filter(
+      (document): document is MediaMetadataI => document !== null && !document.deletedAt
+    )
+
+    // Medias whose file can't be found anymore are only listed in the manifest, without file name
+    medias = await Promise.all(
+      documents.map(async (document) => {
+        const { bucketName, fileName: objectName } = await decomposeUri(document.gcsURI)
+        const isFound = await storageDriver.exists(bucketName, objectName)
+
+        return {
+          document: document,
+          bucketName: bucketName,
+          objectName: objectName,
+          fileName: isFound ? `${document.id}.${document.format.toLowerCase()}` : '',
+        }
+      })
+    )
+  } catch (error) {
+    console.error(error)
+    return NextResponse.json({ error: 'Error while fetching medias to download' }, { status: 500 })
+  }
+  if (medias.length === 0) return NextResponse.json({ error: 'Selected medias were not found' }, { status: 404 })
+
+  const { headers, rows } = getMetadataTable(
+    medias.map(({ document }) => document),
+    fields
+  )
+  const manifestCsv = toCsv([['File name', ...headers], ...rows.map((row, i) => [medias[i].fileName, ...row])])
+  const manifestJson = JSON.stringify(
+    medias.map(({ document, fileName }) => ({ fileName: fileName, ...document })),
+    null,
+    2
+  )
+
+  const entries: ZipEntryI[] = [
+    { name: 'metadata.csv', getContent: () => Buffer.from(manifestCsv, 'utf-8') },
+    { name: 'metadata.json', getContent: () => Buffer.from(manifestJson, 'utf-8') },
+    ...medias
+      .filter(({ fileName }) => fileName !== '')
+      .map(({ bucketName, objectName, fileName }) => ({
+        name: fileName,
+        getContent: () => storageDriver.createReadStream(bucketName, objectName),
+      })),
+  ]
+
+  return new NextResponse(createZipStream(entries), {
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="library-${new Date().toISOString().slice(0, 10)}.zip"`,
+      'Cache-Control': 'no-store',
+    },
+  })
+}
@@ -0,0 +1,108 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { NextRequest, NextResponse } from 'next/server'
+
+import { fetchDocumentsInBatches } from '../action'
+import {
+  ExportMediaFormFieldsI,
+  FilterMediaFormI,
+  getMetadataTable,
+  LibrarySortT,
+  toCsv,
+  toReadableMetadata,
+} from '../../export-utils'
+import { fetchExportFields } from '../../export-fields/action'
+import { getCurrentUser } from '../../google-auth/identity'
+
+export const dynamic = 'force-dynamic'
+
+const EXPORT_BATCH_SIZE = 200
+const exportContentTypes: { [format: string]: string } = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+}
+
+// Metadata of every Library media matching the query, ex: /api/firestore/metadata-export?format=csv&sort=newest&filters={"contextAuthorTeam":["marketing"]}
+// Medias are fetched & written page by page, so large Libraries can be exported
+export async function GET(req: NextRequest) {
+  const user = await getCurrentUser()
+  if (!user) return NextResponse.json({ error: 'Authentication error' }, { status: 401 })
+
+  const format = req.nextUrl.searchParams.get('format') ?? 'csv'
+  if (!exportContentTypes[format])
+    return NextResponse.json({ error: `Unknown export format '${format}', use csv or json` }, { status: 400 })
+
+  let filters: FilterMediaFormI
+  try {
+    filters = JSON.parse(req.nextUrl.searchParams.get('filters') ?? '{}')
+    if (!filters || typeof filters !== 'object' || Array.isArray(filters)) throw Error('Not an object')
+  } catch (error) {
+    return NextResponse.json({ error: 'Filters must be a JSON object' }, { status: 400 })
+  }
+  const sort = (req.nextUrl.searchParams.get('sort') ?? 'newest') as LibrarySortT
+
+  const fields = await fetchExportFields()
+  if ('error' in fields) return NextResponse.json(fields, { status: 500 })
+
+  // First page is fetched before answering, so its errors are still returned with an error status
+  const firstPage = await fetchDocumentsInBatches(null, filters, sort, false, EXPORT_BATCH_SIZE)
+  if ('error' in firstPage) return NextResponse.json(firstPage, { status: 500 })
+
+  async function* generateExport(fields: ExportMediaFormFieldsI) {
+    let page = firstPage
+    let isFirstDocument = true
+
+    // Byte order mark, for spreadsheet apps to read accents properly
+    yield format === 'csv' ? `\uFEFF${toCsv([getMetadataTable([], fields).headers])}` : '['
+
+    while (true) {
+      const documents = page.thisBatchDocuments ?? []
+      if (format === 'csv' && documents.length > 0) yield `\r\n${toCsv(getMetadataTable(documents, fields).rows)}`
+      if (format === 'json')
+        for (const document of documents) {
+          yield `${isFirstDocument ? '\n' : ',\n'}${JSON.stringify(toReadableMetadata(document, fields))}`
+          isFirstDocument = false
+        }
+
+      if (!page.isMorePageToLoad) break
+      const nextPage = await fetchDocumentsInBatches(page.lastVisibleDocument, filters, sort, false, EXPORT_BATCH_SIZE)
+      if ('error' in nextPage) throw Error(nextPage.error)
+      page = nextPage
+    }
+
+    yield format === 'csv' ? '\r\n' : '\n]\n'
+  }
+
+  const exportGenerator = generateExport(fields)
+  const encoder = new TextEncoder()
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await exportGenerator.next()
+      if (done) controller.close()
+      else controller.enqueue(encoder.encode(value))
+    },
+    async cancel() {
+      await exportGenerator.return(undefined)
+    },
+  })
+
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': exportContentTypes[format],
+      'Content-Disposition': `attachment; filename="library-metadata-${new Date().toISOString().slice(0, 10)}.${format}"`,
+      'Cache-Control': 'no-store',
+    },
+  })
+}
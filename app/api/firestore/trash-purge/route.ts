@@ -0,0 +1,31 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { NextResponse } from 'next/server'
+
+import { purgeExpiredTrash } from '../action'
+import { getTrashPurgeUser } from '../../google-auth/identity'
+
+export const dynamic = 'force-dynamic'
+
+// Permanently deletes Library medias whose trash retention period expired, meant to be called on a schedule
+export async function POST() {
+  const purger = await getTrashPurgeUser()
+  if ('error' in purger) return NextResponse.json(purger, { status: 403 })
+
+  const res = await purgeExpiredTrash()
+  if (typeof res === 'object' && 'error' in res) return NextResponse.json(res, { status: 500 })
+
+  return NextResponse.json({ purgedEntries: res })
+}
@@ -394,6 +394,9 @@ export const ReferenceObjectInit: ReferenceObjectI[] = [
 
 export const maxReferences = 4
 
+// Maximum number of images attached as inputs to Gemini image generation
+export const maxGeminiInputImages = 3
+
 // Interface of Generate form fields
 export interface GenerateImageFormI {
   prompt: string
@@ -428,6 +431,7 @@ generateFieldList.forEach((field) => {
   formDataDefaults = { ...formDataDefaults, [field]: defaultValue }
 })
 formDataDefaults.referenceObjects = ReferenceObjectInit
+formDataDefaults.geminiInputImages = []
 
 export interface chipGroupFieldsI {
   label: string
@@ -512,6 +516,19 @@ export interface ImagenModelResultI {
   bytesBase64Encoded?: string
   mimeType: string
   prompt?: string
+  description?: string
+  raiFilteredReason?: string
+}
+
+// Subset of a Gemini generateContent response used for image generation
+export interface GeminiPartI {
+  text?: string
+  inlineData?: { mimeType: string; data: string }
+}
+export interface GeminiCandidateI {
+  content?: { role: string; parts?: GeminiPartI[] }
+  finishReason?: string
+  safetyRatings?: { category: string; probability: string; blocked?: boolean }[]
 }
 
 // Interface of Image object created after image generation
@@ -529,6 +546,7 @@ export interface ImageI {
   author: string
   modelVersion: string
   mode: string
+  description?: string
 }
 
 // List of Imagen available ratio and their corresponding generation dimentions
@@ -516,7 +516,7 @@ export interface PollingResponse {
   response?: {
     raiMediaFilteredReasons: boolean
     '@type': string
-    videos?: VideoSample[]
+    videos?: VeoModelResultI[]
   }
 }
 
@@ -556,6 +556,53 @@ export interface OperationMetadataI {
   prompt: string
 }
 
+// Status of a video generation job persisted in Firestore
+export type VideoJobStatusT = 'pending' | 'done' | 'failed'
+
+// Interface of a video generation job, persisted so polling can resume after a page reload
+export interface VideoJobI {
+  id: string
+  operationName: string
+  metadata: OperationMetadataI
+  status: VideoJobStatusT
+  author: string
+  videos?: VideoI[]
+  error?: string
+  createdAt: number
+  updatedAt: number
+}
+
+// Jobs are stored under the ID of their Veo long-running operation (last segment of the operation name)
+export const getJobIdFromOperationName = (operationName: string) => operationName.split('/').pop() ?? operationName
+
+// Backoff settings used when polling the status of a video generation job
+export const INITIAL_POLLING_INTERVAL_MS = 6000
+export const MAX_POLLING_INTERVAL_MS = 60000
+export const BACKOFF_FACTOR = 1.2
+export const JITTER_FACTOR = 0.2
+
+// Returns the delay before the next status poll with some jitter, and the increased interval for the following one
+export const getNextPollingDelay = (interval: number) => {
+  const jitter = interval * JITTER_FACTOR * (Math.random() - 0.5)
+  return {
+    delay: Math.round(interval + jitter),
+    nextInterval: Math.min(interval * BACKOFF_FACTOR, MAX_POLLING_INTERVAL_MS),
+  }
+}
+
+// Events streamed by the video generation status route to the client
+export interface VideoJobProgressEventI {
+  id: string
+  attempts: number
+  elapsedMs: number
+}
+export interface VideoJobDoneEventI {
+  id: string
+  operationName: string
+  videos?: VideoI[]
+  error?: string
+}
+
 // List of Veo available ratio and their corresponding generation dimentions
 export const VideoRatioToPixel = [
   { ratio: '9:16', width: 720, height: 1280 },
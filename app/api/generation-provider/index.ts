@@ -0,0 +1,27 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { mockProvider } from './mock'
+import { GenerationProviderI } from './provider'
+import { vertexProvider } from './vertex'
+
+export { GenerationProviderError } from './provider'
+export type { GenerationProviderI } from './provider'
+
+// Set GENERATION_PROVIDER=mock to use placeholder medias instead of Vertex AI models
+export function getGenerationProvider(): GenerationProviderI {
+  if (process.env.GENERATION_PROVIDER === 'mock') return mockProvider
+
+  return vertexProvider
+}
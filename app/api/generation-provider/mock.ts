@@ -0,0 +1,296 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import crypto from 'crypto'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import zlib from 'zlib'
+import ffmpeg from 'fluent-ffmpeg'
+const ffmpegInstaller = require('@ffmpeg-installer/ffmpeg')
+ffmpeg.setFfmpegPath(ffmpegInstaller.path)
+
+import { RatioToPixel } from '../generate-image-utils'
+import { VideoRatioToPixel } from '../generate-video-utils'
+import { uploadBase64Image } from '../cloud-storage/storage'
+import { GenerationProviderError, GenerationProviderI } from './provider'
+
+// Offline provider returning deterministic placeholders, to run the app without access to Vertex AI models
+const mockOperationsDir = path.join(os.tmpdir(), 'img-studio-mock-operations')
+const mockVideoDurationMs = 20000
+
+interface MockOperationI {
+  name: string
+  createdAt: number
+  reqData: any
+  videos?: { gcsUri: string; mimeType: string }[]
+}
+
+// 1 - Placeholder images, encoded as PNG without any image library
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+function crc32(buffer: Buffer) {
+  let crc = 0xffffffff
+  for (const byte of buffer) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// Buffer typings of @types/node don't match the Uint8Array ones of the TypeScript lib, though Buffers are Uint8Arrays
+const concatBuffers = (buffers: Buffer[]) => Buffer.concat(buffers as unknown as Uint8Array[])
+
+function pngChunk(type: string, data: Buffer) {
+  const length = Buffer.alloc(4)
+  length.writeUInt32BE(data.length)
+  const content = concatBuffers([Buffer.from(type, 'ascii'), data])
+  const crc = Buffer.alloc(4)
+  crc.writeUInt32BE(crc32(content))
+  return concatBuffers([length, content, crc])
+}
+
+function encodePng(width: number, height: number, getPixel: (x: number, y: number) => [number, number, number]) {
+  const header = Buffer.alloc(13)
+  header.writeUInt32BE(width, 0)
+  header.writeUInt32BE(height, 4)
+  header.writeUInt8(8, 8) // Bit depth
+  header.writeUInt8(2, 9) // RGB color type
+
+  const rowLength = width * 3 + 1
+  const pixels = Buffer.alloc(rowLength * height)
+  for (let y = 0; y < height; y++)
+    for (let x = 0; x < width; x++) {
+      const [r, g, b] = getPixel(x, y)
+      const offset = y * rowLength + 1 + x * 3
+      pixels[offset] = r
+      pixels[offset + 1] = g
+      pixels[offset + 2] = b
+    }
+
+  return concatBuffers([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlib.deflateSync(pixels)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ])
+}
+
+function getSeedColor(seed: string): [number, number, number] {
+  const hash = crypto.createHash('md5').update(seed).digest()
+  return [hash[0], hash[1], hash[2]]
+}
+
+function getPlaceholderImage(seed: string, width: number, height: number) {
+  const [r, g, b] = getSeedColor(seed)
+
+  // Vertical gradient from the seed color to a darker shade
+  const image = encodePng(width, height, (_, y) => {
+    const shade = 1 - (0.6 * y) / height
+    return [Math.round(r * shade), Math.round(g * shade), Math.round(b * shade)]
+  })
+
+  return image.toString('base64')
+}
+
+// Reads dimensions from the IHDR chunk of a base64 PNG, falls back to a square image for other formats
+function getPngSize(base64Image?: string) {
+  const image = Buffer.from(base64Image ?? '', 'base64')
+  if (image.length < 24 || image.toString('ascii', 12, 16) !== 'IHDR') return { width: 1024, height: 1024 }
+
+  return { width: image.readUInt32BE(16), height: image.readUInt32BE(20) }
+}
+
+function getImagePredictions(prompt: string, sampleCount: number, width: number, height: number) {
+  return Array.from({ length: sampleCount }, (_, index) => ({
+    bytesBase64Encoded: getPlaceholderImage(`${prompt}_${index}`, width, height),
+    mimeType: 'image/png',
+    prompt: prompt,
+  }))
+}
+
+function splitGcsUri(gcsUri: string) {
+  const bucketName = gcsUri.replace('gs://', '').split('/')[0]
+  const folderName = gcsUri.replace(`gs://${bucketName}`, '').replace(/^\//, '')
+
+  return { bucketName, folderName }
+}
+
+// 2 - Placeholder videos, written as long-running operations on local disk so they survive server reloads
+function getOperationPath(operationId: string) {
+  return path.join(mockOperationsDir, `${operationId}.json`)
+}
+
+async function writeOperation(operationId: string, operation: MockOperationI) {
+  await fs.mkdir(mockOperationsDir, { recursive: true })
+  await fs.writeFile(getOperationPath(operationId), JSON.stringify(operation))
+}
+
+async function renderPlaceholderVideo(seed: string, width: number, height: number, durationSeconds: number) {
+  const [r, g, b] = getSeedColor(seed)
+  const hexColor = [r, g, b].map((value) => value.toString(16).padStart(2, '0')).join('')
+  const outputPath = path.join(os.tmpdir(), `mock_video_${crypto.randomUUID()}.mp4`)
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      ffmpeg()
+        .input(`color=c=0x${hexColor}:s=${width}x${height}:d=${durationSeconds}`)
+        .inputFormat('lavfi')
+        .outputOptions(['-pix_fmt yuv420p'])
+        .output(outputPath)
+        .on('end', () => resolve())
+        .on('error', (err: { message: any }) => reject(new Error(`FFmpeg failed to render video: ${err.message}`)))
+        .run()
+    })
+
+    return (await fs.readFile(outputPath)).toString('base64')
+  } finally {
+    await fs.unlink(outputPath).catch(() => {})
+  }
+}
+
+async function completeOperation(operationId: string, operation: MockOperationI) {
+  const { instances, parameters } = operation.reqData
+  const usedRatio = VideoRatioToPixel.find((item) => item.ratio === parameters?.aspectRatio)
+  const { bucketName, folderName } = splitGcsUri(parameters?.storageUri ?? '')
+
+  const videos = []
+  for (let index = 0; index < (parameters?.sampleCount ?? 1); index++) {
+    const video = await renderPlaceholderVideo(
+      `${instances?.[0]?.prompt ?? ''}_${index}`,
+      usedRatio?.width ?? 1280,
+      usedRatio?.height ?? 720,
+      parameters?.durationSeconds ?? 8
+    )
+
+    const objectName = `${folderName}/${operationId}/sample_${index}.mp4`
+    const result = await uploadBase64Image(video, bucketName, objectName, 'video/mp4')
+    if (!result.success) throw new GenerationProviderError(result.error ?? 'Could not upload mock video', 500)
+
+    videos.push({ gcsUri: result.fileUrl ?? '', mimeType: 'video/mp4' })
+  }
+
+  await writeOperation(operationId, { ...operation, videos: videos })
+
+  return videos
+}
+
+export const mockProvider: GenerationProviderI = {
+  generateImages: async (_modelVersion, reqData) => {
+    const usedRatio = RatioToPixel.find((item) => item.ratio === reqData.parameters?.aspectRatio)
+
+    return {
+      predictions: getImagePredictions(
+        reqData.instances?.[0]?.prompt ?? '',
+        reqData.parameters?.sampleCount ?? 1,
+        usedRatio?.width ?? 1024,
+        usedRatio?.height ?? 1024
+      ),
+    }
+  },
+
+  editImages: async (_modelVersion, reqData) => {
+    const inputImage = reqData.instances?.[0]?.referenceImages?.[0]?.referenceImage?.bytesBase64Encoded
+    const { width, height } = getPngSize(inputImage)
+
+    return {
+      predictions: getImagePredictions(
+        reqData.instances?.[0]?.prompt ?? '',
+        reqData.parameters?.sampleCount ?? 1,
+        width,
+        height
+      ),
+    }
+  },
+
+  // Upscaled image is the input image, stored where Vertex would have written it
+  upscaleImage: async (reqData) => {
+    const inputImage = reqData.instances?.[0]?.image?.bytesBase64Encoded ?? ''
+    const { bucketName, folderName } = splitGcsUri(reqData.parameters?.storageUri ?? '')
+
+    const objectName = `${folderName}/${crypto.randomUUID()}/sample_0.png`
+    const result = await uploadBase64Image(inputImage, bucketName, objectName)
+    if (!result.success) throw new GenerationProviderError(result.error ?? 'Could not upload mock image', 500)
+
+    return { predictions: [{ gcsUri: result.fileUrl, mimeType: 'image/png' }] }
+  },
+
+  generateContent: async (_modelVersion, reqData, sampleIndex = 0) => {
+    const contents: { parts?: { text?: string }[] }[] = reqData.contents ?? []
+    const prompt = contents
+      .flatMap((content) => content.parts ?? [])
+      .map((part) => part.text ?? '')
+      .join(' ')
+      .trim()
+
+    // Samples are requested in parallel, each with its own index to get distinct placeholders
+    const seed = `${prompt}_${sampleIndex}`
+
+    return {
+      candidates: [
+        {
+          content: {
+            role: 'model',
+            parts: [
+              { text: `Placeholder image for: ${prompt}` },
+              { inlineData: { mimeType: 'image/png', data: getPlaceholderImage(seed, 1024, 1024) } },
+            ],
+          },
+          finishReason: 'STOP',
+        },
+      ],
+    }
+  },
+
+  // Mask selecting the center of the image
+  segmentImage: async (reqData) => {
+    const { width, height } = getPngSize(reqData.instances?.[0]?.image?.bytesBase64Encoded)
+    const mask = encodePng(width, height, (x, y) =>
+      x > width / 4 && x < (width * 3) / 4 && y > height / 4 && y < (height * 3) / 4 ? [255, 255, 255] : [0, 0, 0]
+    )
+
+    return { predictions: [{ bytesBase64Encoded: mask.toString('base64'), mimeType: 'image/png' }] }
+  },
+
+  startVideoGeneration: async (modelVersion, reqData) => {
+    const operationId = crypto.randomUUID()
+    const name = `projects/mock/locations/local/publishers/google/models/${modelVersion}/operations/${operationId}`
+
+    await writeOperation(operationId, { name: name, createdAt: Date.now(), reqData: reqData })
+
+    return { name: name }
+  },
+
+  getVideoOperation: async (operationName) => {
+    const operationId = operationName.split('/').pop() ?? ''
+
+    let operation: MockOperationI
+    try {
+      operation = JSON.parse(await fs.readFile(getOperationPath(operationId), 'utf-8'))
+    } catch (error) {
+      throw new GenerationProviderError(`Operation ${operationName} not found`, 404)
+    }
+
+    if (Date.now() - operation.createdAt < mockVideoDurationMs) return { name: operationName, done: false }
+
+    const videos = operation.videos ?? (await completeOperation(operationId, operation))
+
+    return {
+      name: operationName,
+      done: true,
+      response: { raiMediaFilteredReasons: false, '@type': 'mock', videos: videos },
+    }
+  },
+}
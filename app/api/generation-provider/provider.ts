@@ -0,0 +1,95 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { GeminiCandidateI } from '../generate-image-utils'
+import { PollingResponse } from '../generate-video-utils'
+
+// Request bodies are the Vertex AI ones, as they are already built by each action
+export interface PredictResponseI {
+  predictions?: any[]
+}
+
+export interface GenerateContentResponseI {
+  candidates?: GeminiCandidateI[]
+  promptFeedback?: { blockReason?: string }
+}
+
+// Models used to generate, edit & segment medias
+export interface GenerationProviderI {
+  generateImages: (modelVersion: string, reqData: any) => Promise<PredictResponseI>
+  editImages: (modelVersion: string, reqData: any) => Promise<PredictResponseI>
+  upscaleImage: (reqData: any) => Promise<PredictResponseI>
+  // Index of the requested sample, when several requests are sent for the same prompt
+  generateContent: (modelVersion: string, reqData: any, sampleIndex?: number) => Promise<GenerateContentResponseI>
+  segmentImage: (reqData: any) => Promise<PredictResponseI>
+  startVideoGeneration: (
+    modelVersion: string,
+    reqData: any
+  ) => Promise<{ name?: string; error?: { code?: number; message?: string } }>
+  getVideoOperation: (operationName: string) => Promise<PollingResponse>
+}
+
+// Error thrown by providers, with the model API's message & HTTP status when available
+export class GenerationProviderError extends Error {
+  status?: number
+  code?: number
+
+  constructor(message: string, status?: number, code?: number) {
+    super(message)
+    this.name = 'GenerationProviderError'
+    this.status = status
+    this.code = code
+  }
+
+  get isRateLimit() {
+    return (
+      this.status === 429 || this.status === 503 || isResourceExhaustedError({ code: this.code, message: this.message })
+    )
+  }
+}
+
+export function isResourceExhaustedError(source: any) {
+  if (!source) return false
+
+  let message = ''
+  let code = null
+
+  if (typeof source === 'string') {
+    message = source.toLowerCase()
+    if (message.includes('code: 8') || message.includes('code === 8')) code = 8
+  } else if (typeof source === 'object' && source !== null) {
+    message = String(source.message || '').toLowerCase()
+    code = source.code
+  } else return false
+
+  if (
+    (code === 8 && message.includes('resource exhausted')) ||
+    message.includes("{ code: 8, message: 'resource exhausted.' }") ||
+    (message.includes('resource exhausted') &&
+      (code === 8 || message.includes('code: 8') || message.includes('code === 8')))
+  )
+    return true
+
+  return false
+}
+
+// Normalizes errors of the underlying HTTP client
+export function toProviderError(error: any) {
+  if (error instanceof GenerationProviderError) return error
+
+  const apiError = error?.response?.data?.error
+  const message = apiError?.message || error?.errors?.[0]?.message || error?.message || 'Unknown model error'
+
+  return new GenerationProviderError(message, error?.response?.status, apiError?.code)
+}
@@ -0,0 +1,85 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { GenerationProviderError, GenerationProviderI, toProviderError } from './provider'
+const { GoogleAuth } = require('google-auth-library')
+
+function getModelUrl(location: string | undefined, modelVersion: string | undefined, method: string) {
+  const projectId = process.env.NEXT_PUBLIC_PROJECT_ID
+
+  return `https://${location}-aiplatform.googleapis.com/v1/projects/${projectId}/locations/${location}/publishers/google/models/${modelVersion}:${method}`
+}
+
+async function request(url: string, data: object) {
+  let client
+  try {
+    const auth = new GoogleAuth({
+      scopes: 'https://www.googleapis.com/auth/cloud-platform',
+    })
+    client = await auth.getClient()
+  } catch (error) {
+    console.error(error)
+    throw new GenerationProviderError('Unable to authenticate your account to access models', 401)
+  }
+
+  try {
+    const res = await client.request({ url: url, method: 'POST', data: data })
+    return res.data
+  } catch (error) {
+    throw toProviderError(error)
+  }
+}
+
+export const vertexProvider: GenerationProviderI = {
+  generateImages: (modelVersion, reqData) => {
+    //TODO temp - update when not in Preview anymore
+    const location = modelVersion.includes('imagen-4.0') ? 'us-central1' : process.env.NEXT_PUBLIC_VERTEX_API_LOCATION
+    return request(getModelUrl(location, modelVersion, 'predict'), reqData)
+  },
+
+  editImages: (modelVersion, reqData) =>
+    request(getModelUrl(process.env.NEXT_PUBLIC_VERTEX_API_LOCATION, modelVersion, 'predict'), reqData),
+
+  upscaleImage: (reqData) =>
+    request(getModelUrl(process.env.NEXT_PUBLIC_VERTEX_API_LOCATION, 'imagegeneration@002', 'predict'), reqData),
+
+  generateContent: (modelVersion, reqData) => {
+    //Nano Banana currently supports only a few regions
+    const location = modelVersion.includes('gemini-2.5-flash-image')
+      ? 'us-central1'
+      : process.env.NEXT_PUBLIC_VERTEX_API_LOCATION
+    return request(getModelUrl(location, modelVersion, 'generateContent'), reqData)
+  },
+
+  segmentImage: (reqData) =>
+    request(
+      getModelUrl(process.env.NEXT_PUBLIC_VERTEX_API_LOCATION, process.env.NEXT_PUBLIC_SEG_MODEL, 'predict'),
+      reqData
+    ),
+
+  //TODO temp - update location when not in Preview anymore
+  startVideoGeneration: (modelVersion, reqData) =>
+    request(getModelUrl('us-central1', modelVersion, 'predictLongRunning'), reqData),
+
+  getVideoOperation: async (operationName) => {
+    // Example operationName: projects/PROJECT_ID/locations/LOCATION_ID/publishers/google/models/MODEL_ID/operations/OPERATION_ID
+    const parts = operationName.split('/')
+    if (parts.length < 8) throw new GenerationProviderError('Invalid operation name format.', 400)
+
+    const [projectId, location, modelId] = [parts[1], parts[3], parts[7]]
+    const pollingAPIUrl = `https://${location}-aiplatform.googleapis.com/v1/projects/${projectId}/locations/${location}/publishers/google/models/${modelId}:fetchPredictOperation`
+
+    return request(pollingAPIUrl, { operationName: operationName })
+  },
+}
@@ -0,0 +1,125 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+'use server'
+
+import {
+  appFeatures,
+  RoleFeaturesT,
+  UserPermissionsI,
+  UserRoleAssignmentI,
+  userRoles,
+  UserRoleT,
+} from '../permissions-utils'
+import { getRoleRepository } from '../role-repository'
+import { getAdminUser, getCurrentUser, getDefaultRole, getRoleFeatures } from './identity'
+
+export async function fetchUserPermissions(): Promise<UserPermissionsI | { error: string }> {
+  try {
+    const user = await getCurrentUser()
+    if (!user) return { error: 'Authentication error' }
+
+    return user
+  } catch (error) {
+    console.error(error)
+    return {
+      error: 'Error while fetching user permissions',
+    }
+  }
+}
+
+export async function fetchRolesSettings(): Promise<
+  { userRoles: UserRoleAssignmentI[]; roleFeatures: RoleFeaturesT; defaultRole: UserRoleT } | { error: string }
+> {
+  try {
+    const admin = await getAdminUser()
+    if ('error' in admin) return admin
+
+    return {
+      userRoles: await getRoleRepository().listUserRoles(),
+      roleFeatures: await getRoleFeatures(),
+      defaultRole: getDefaultRole(),
+    }
+  } catch (error) {
+    console.error(error)
+    return {
+      error: 'Error while fetching roles settings',
+    }
+  }
+}
+
+export async function assignUserRole(email: string, role: UserRoleT): Promise<UserRoleAssignmentI | { error: string }> {
+  const userEmail = email.trim().toLowerCase()
+  if (!/^[^@\s]+@[^@\s]+$/.test(userEmail)) return { error: 'Invalid email address.' }
+  if (!userRoles.some(({ value }) => value === role)) return { error: 'Invalid role.' }
+
+  try {
+    const admin = await getAdminUser()
+    if ('error' in admin) return admin
+
+    const assignment: UserRoleAssignmentI = {
+      email: userEmail,
+      role: role,
+      updatedBy: admin.email,
+      updatedAt: Date.now(),
+    }
+    await getRoleRepository().setUserRole(assignment)
+
+    return assignment
+  } catch (error) {
+    console.error(error)
+    return {
+      error: 'Error while assigning user role',
+    }
+  }
+}
+
+// User gets the default role back
+export async function removeUserRole(email: string): Promise<boolean | { error: string }> {
+  try {
+    const admin = await getAdminUser()
+    if ('error' in admin) return admin
+
+    await getRoleRepository().deleteUserRole(email)
+    return true
+  } catch (error) {
+    console.error(error)
+    return {
+      error: 'Error while removing user role',
+    }
+  }
+}
+
+export async function updateRoleFeatures(roleFeatures: RoleFeaturesT): Promise<RoleFeaturesT | { error: string }> {
+  // Only known roles & features are saved, as booleans
+  const cleanRoleFeatures = Object.fromEntries(
+    userRoles.map(({ value: role }) => [
+      role,
+      Object.fromEntries(appFeatures.map(({ value: feature }) => [feature, roleFeatures?.[role]?.[feature] === true])),
+    ])
+  ) as RoleFeaturesT
+
+  try {
+    const admin = await getAdminUser()
+    if ('error' in admin) return admin
+
+    await getRoleRepository().setRoleFeatures(cleanRoleFeatures)
+    return await getRoleFeatures()
+  } catch (error) {
+    console.error(error)
+    return {
+      error: 'Error while updating role features',
+    }
+  }
+}
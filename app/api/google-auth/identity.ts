@@ -0,0 +1,174 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { headers } from 'next/headers'
+
+import {
+  AppFeatureT,
+  appFeatures,
+  defaultRoleFeatures,
+  RoleFeaturesT,
+  UserPermissionsI,
+  userRoles,
+  UserRoleT,
+} from '../permissions-utils'
+import { getRoleRepository } from '../role-repository'
+const { GoogleAuth } = require('google-auth-library')
+
+// Group memberships are cached to avoid calling Cloud Identity on every action
+const GROUP_MEMBERSHIP_CACHE_MS = 5 * 60 * 1000
+const groupMembershipCache = new Map<string, { isMember: boolean; expiresAt: number }>()
+
+function getListEnv(name: string) {
+  return (process.env[name] ?? '')
+    .split(',')
+    .map((value) => value.trim().toLowerCase())
+    .filter((value) => value !== '')
+}
+
+// Same transformation as the one done client-side, so that user IDs match the authors stored in the Library
+function getUserIdFromPrincipal(principal: string) {
+  return (process.env.NEXT_PUBLIC_PRINCIPAL_TO_USER_FILTERS ?? '')
+    .split(',')
+    .reduce((userID, filter) => userID.replace(filter, ''), principal)
+}
+
+async function isGroupMember(groupEmail: string, email: string) {
+  const cacheKey = `${groupEmail}/${email}`
+  const cached = groupMembershipCache.get(cacheKey)
+  if (cached && cached.expiresAt > Date.now()) return cached.isMember
+
+  let isMember = false
+  try {
+    const auth = new GoogleAuth({ scopes: 'https://www.googleapis.com/auth/cloud-identity.groups.readonly' })
+    const client = await auth.getClient()
+
+    const group = await client.request({
+      url: `https://cloudidentity.googleapis.com/v1/groups:lookup?groupKey.id=${encodeURIComponent(groupEmail)}`,
+    })
+    const membership = await client.request({
+      url: `https://cloudidentity.googleapis.com/v1/${group.data.name}/memberships:checkTransitiveMembership?query=${encodeURIComponent(`member_key_id == '${email}'`)}`,
+    })
+    isMember = membership.data.hasMembership === true
+  } catch (error) {
+    console.error(`Unable to check membership of ${email} to group ${groupEmail}:`, error)
+  }
+
+  groupMembershipCache.set(cacheKey, { isMember: isMember, expiresAt: Date.now() + GROUP_MEMBERSHIP_CACHE_MS })
+  return isMember
+}
+
+// Admins set by email in LIBRARY_ADMIN_EMAILS, or by Google group in LIBRARY_ADMIN_GROUPS, always keep the admin role
+async function isAdminEmail(email: string) {
+  if (getListEnv('LIBRARY_ADMIN_EMAILS').includes(email)) return true
+
+  for (const groupEmail of getListEnv('LIBRARY_ADMIN_GROUPS')) if (await isGroupMember(groupEmail, email)) return true
+
+  return false
+}
+
+// User calling the current server action or route, from the IAP header (ex: 'accounts.google.com:jdupont@company.com')
+export async function getCurrentUser(): Promise<UserPermissionsI | null> {
+  let principal: string | null
+  if (process.env.NODE_ENV === 'development' && process.env.NEXT_PUBLIC_TEST_DEV_USER_ID)
+    // Locally IAP is not enabled
+    principal = process.env.NEXT_PUBLIC_TEST_DEV_USER_ID
+  else principal = headers().get('X-Goog-Authenticated-User-Email')
+
+  if (!principal) return null
+
+  const email = principal.replace(/^.*:/, '').toLowerCase()
+  const role = await getUserRole(email)
+  const roleFeatures = await getRoleFeatures()
+
+  return {
+    userID: getUserIdFromPrincipal(principal),
+    email: email,
+    role: role,
+    isAdmin: role === 'admin',
+    features: roleFeatures[role],
+  }
+}
+
+// Role of users no admin has given one to, set by DEFAULT_USER_ROLE
+export function getDefaultRole(): UserRoleT {
+  const defaultRole = userRoles.find(({ value }) => value === process.env.DEFAULT_USER_ROLE)
+  return defaultRole ? defaultRole.value : 'creator'
+}
+
+async function getUserRole(email: string): Promise<UserRoleT> {
+  if (await isAdminEmail(email)) return 'admin'
+
+  const assignment = await getRoleRepository().getUserRole(email)
+  return assignment?.role ?? getDefaultRole()
+}
+
+// Features enabled for each role, features never saved by admins keeping their default value
+export async function getRoleFeatures(): Promise<RoleFeaturesT> {
+  const savedRoleFeatures = (await getRoleRepository().getRoleFeatures()) ?? {}
+
+  return Object.fromEntries(
+    userRoles.map(({ value: role }) => [
+      role,
+      role === 'admin'
+        ? { ...defaultRoleFeatures.admin }
+        : { ...defaultRoleFeatures[role], ...savedRoleFeatures[role] },
+    ])
+  ) as RoleFeaturesT
+}
+
+// Current user, if its role allows it to use the given feature, or any of them when several are given
+export async function getUserWithFeature(
+  feature: AppFeatureT | AppFeatureT[]
+): Promise<UserPermissionsI | { error: string }> {
+  let user
+  try {
+    user = await getCurrentUser()
+  } catch (error) {
+    console.error(error)
+    return { error: 'Error while checking your permissions' }
+  }
+  if (!user) return { error: 'Authentication error' }
+
+  const { features } = user
+  const allowingFeatures = Array.isArray(feature) ? feature : [feature]
+  if (!allowingFeatures.some((allowingFeature) => features[allowingFeature])) {
+    const featureLabel = allowingFeatures
+      .map((allowingFeature) => appFeatures.find(({ value }) => value === allowingFeature)?.label ?? allowingFeature)
+      .join(' or ')
+    return { error: `Your role does not give you access to ${featureLabel}, please contact your admin.` }
+  }
+
+  return user
+}
+
+export async function getAdminUser(): Promise<UserPermissionsI | { error: string }> {
+  const user = await getCurrentUser()
+  if (!user) return { error: 'Authentication error' }
+  if (!user.isAdmin) return { error: 'Only admins can manage these settings.' }
+
+  return user
+}
+
+// Admins, or the service account of the scheduled purge job set by TRASH_PURGE_SCHEDULER_EMAIL, whose OIDC token is
+// verified by IAP
+export async function getTrashPurgeUser(): Promise<UserPermissionsI | { error: string }> {
+  const user = await getCurrentUser()
+  if (!user) return { error: 'Authentication error' }
+
+  const schedulerEmail = process.env.TRASH_PURGE_SCHEDULER_EMAIL?.trim().toLowerCase()
+  if (!user.isAdmin && user.email !== schedulerEmail) return { error: 'Only admins can purge the trash.' }
+
+  return user
+}
@@ -23,11 +23,13 @@ import {
   ReferenceObjectI,
   imageGenerationUtils,
 } from '../generate-image-utils'
-import { decomposeUri, downloadMediaFromGcs, getSignedURL, uploadBase64Image } from '../cloud-storage/action'
+import { decomposeUri, downloadMediaFromGcs, getSignedURL, uploadBase64Image } from '../cloud-storage/storage'
 import { getFullReferenceDescription } from '../gemini/action'
 import { appContextDataI } from '../../context/app-context'
 import { EditImageFormI } from '../edit-utils'
-const { GoogleAuth } = require('google-auth-library')
+import { getGenerationProvider } from '../generation-provider'
+import { getUserWithFeature } from '../google-auth/identity'
+import { withAuditEvent } from '../audit-log/record'
 
 function cleanResult(inputString: string) {
   return inputString.toString().replaceAll('\n', '').replaceAll(/\//g, '').replaceAll('*', '')
@@ -313,27 +315,32 @@ export async function generateImage(
   isGeminiRewrite: boolean,
   appContext: appContextDataI | null
 ) {
-  // 1 - Atempting to authent to Google Cloud & fetch project informations
-  let client
-  try {
-    const auth = new GoogleAuth({
-      scopes: 'https://www.googleapis.com/auth/cloud-platform',
-    })
-    client = await auth.getClient()
-  } catch (error) {
-    console.error(error)
-    return {
-      error: 'Unable to authenticate your account to access images',
-    }
-  }
+  return withAuditEvent(
+    {
+      action: 'imageGeneration',
+      model: formData.modelVersion,
+      parameters: { ...formData, isGeminiRewrite: isGeminiRewrite },
+    },
+    () => runImageGeneration(formData, areAllRefValid, isGeminiRewrite, appContext),
+    (images) => ({ resultUris: images.map(({ gcsUri }) => gcsUri) })
+  )
+}
 
+async function runImageGeneration(
+  formData: GenerateImageFormI,
+  areAllRefValid: boolean,
+  isGeminiRewrite: boolean,
+  appContext: appContextDataI | null
+) {
+  // 0 - Check the user's role gives access to this feature
+  const user = await getUserWithFeature('imageGeneration')
+  if ('error' in user) return user
+
+  // 1 - Fetching project informations
   let references = formData['referenceObjects']
 
   if (!areAllRefValid) references = []
   const modelVersion = formData['modelVersion']
-  const location = modelVersion.includes('imagen-4.0') ? 'us-central1' : process.env.NEXT_PUBLIC_VERTEX_API_LOCATION //TODO temp - update when not in Preview anymore
-  const projectId = process.env.NEXT_PUBLIC_PROJECT_ID
-  const imagenAPIurl = `https://${location}-aiplatform.googleapis.com/v1/projects/${projectId}/locations/${location}/publishers/google/models/${modelVersion}:predict`
 
   // 2 - Building the prompt and rewrite it if needed with Gemini
   let fullPrompt
@@ -439,25 +446,19 @@ export async function generateImage(
       }
     }
   }
-  const opts = {
-    url: imagenAPIurl,
-    method: 'POST',
-    data: reqData,
-  }
 
   // 4 - Generating images
   try {
-    const res = await client.request(opts)
+    const res = await getGenerationProvider().generateImages(modelVersion, reqData)
 
-    if (res.data.predictions === undefined) throw Error('There were an issue, no images were generated')
+    if (res.predictions === undefined) throw Error('There were an issue, no images were generated')
 
     // NO images at all were generated out of all samples
-    if ('raiFilteredReason' in res.data.predictions[0])
-      throw Error(cleanResult(res.data.predictions[0].raiFilteredReason))
+    if ('raiFilteredReason' in res.predictions[0]) throw Error(cleanResult(res.predictions[0].raiFilteredReason))
 
-    const usedRatio = RatioToPixel.find((item) => item.ratio === opts.data.parameters.aspectRatio)
+    const usedRatio = RatioToPixel.find((item) => item.ratio === reqData.parameters.aspectRatio)
 
-    const resultImages: ImagenModelResultI[] = res.data.predictions
+    const resultImages: ImagenModelResultI[] = res.predictions
 
     const isResultBase64Images: boolean = resultImages.every((image) => image.hasOwnProperty('bytesBase64Encoded'))
 
@@ -466,10 +467,10 @@ export async function generateImage(
       enhancedImageList = await buildImageListFromBase64({
         imagesBase64: resultImages,
         targetGcsURI: generationGcsURI,
-        aspectRatio: opts.data.parameters.aspectRatio,
+        aspectRatio: reqData.parameters.aspectRatio,
         width: usedRatio?.width ?? 0,
         height: usedRatio?.height ?? 0,
-        usedPrompt: opts.data.instances[0].prompt,
+        usedPrompt: reqData.instances[0].prompt,
         userID: appContext?.userID ? appContext?.userID : '',
         modelVersion: modelVersion,
         mode: 'Generated',
@@ -477,10 +478,10 @@ export async function generateImage(
     else
       enhancedImageList = await buildImageListFromURI({
         imagesInGCS: resultImages,
-        aspectRatio: opts.data.parameters.aspectRatio,
+        aspectRatio: reqData.parameters.aspectRatio,
         width: usedRatio?.width ?? 0,
         height: usedRatio?.height ?? 0,
-        usedPrompt: opts.data.instances[0].prompt,
+        usedPrompt: reqData.instances[0].prompt,
         userID: appContext?.userID ? appContext?.userID : '',
         modelVersion: modelVersion,
         mode: 'Generated',
@@ -500,10 +501,7 @@ export async function generateImage(
         error: errorString.replace(/^Error: /i, ''),
       }
 
-    const myError = error as Error & { errors: any[] }
-    let myErrorMsg = ''
-    if (myError.errors && myError.errors[0] && myError.errors[0].message)
-      myErrorMsg = myError.errors[0].message.replace('Image generation failed with the following error: ', '')
+    const myErrorMsg = (error as Error).message.replace('Image generation failed with the following error: ', '')
 
     return {
       error: myErrorMsg || 'An unexpected error occurred.',
@@ -512,24 +510,20 @@ export async function generateImage(
 }
 
 export async function editImage(formData: EditImageFormI, appContext: appContextDataI | null) {
-  // 1 - Atempting to authent to Google Cloud & fetch project informations
-  let client
-  try {
-    const auth = new GoogleAuth({
-      scopes: 'https://www.googleapis.com/auth/cloud-platform',
-    })
-    client = await auth.getClient()
-  } catch (error) {
-    console.error(error)
-    return {
-      error: 'Unable to authenticate your account to access images',
-    }
-  }
+  return withAuditEvent(
+    { action: 'imageEdition', model: formData.modelVersion, parameters: formData },
+    () => runImageEdition(formData, appContext),
+    (images) => ({ resultUris: images.map(({ gcsUri }) => gcsUri) })
+  )
+}
+
+async function runImageEdition(formData: EditImageFormI, appContext: appContextDataI | null) {
+  // 0 - Check the user's role gives access to this feature
+  const user = await getUserWithFeature('imageEdition')
+  if ('error' in user) return user
 
-  const location = process.env.NEXT_PUBLIC_VERTEX_API_LOCATION
-  const projectId = process.env.NEXT_PUBLIC_PROJECT_ID
+  // 1 - Fetching project informations
   const modelVersion = formData['modelVersion']
-  const imagenAPIurl = `https://${location}-aiplatform.googleapis.com/v1/projects/${projectId}/locations/${location}/publishers/google/models/${modelVersion}:predict`
 
   if (appContext === undefined) throw Error('No provided app context')
 
@@ -605,23 +599,17 @@ export async function editImage(formData: EditImageFormI, appContext: appContext
     delete referenceImage.maskImageConfig.dilation
   }
 
-  const opts = {
-    url: imagenAPIurl,
-    method: 'POST',
-    data: reqData,
-  }
-
   // 3 - Editing image
   let res
   try {
-    res = await client.request(opts)
+    res = await getGenerationProvider().editImages(modelVersion, reqData)
 
-    if (res.data.predictions === undefined) {
+    if (res.predictions === undefined) {
       throw Error('There were an issue, no images were generated')
     }
     // NO images at all were generated out of all samples
-    if ('raiFilteredReason' in res.data.predictions[0]) {
-      throw Error(cleanResult(res.data.predictions[0].raiFilteredReason))
+    if ('raiFilteredReason' in res.predictions[0]) {
+      throw Error(cleanResult(res.predictions[0].raiFilteredReason))
     }
   } catch (error) {
     console.error(error)
@@ -636,17 +624,14 @@ export async function editImage(formData: EditImageFormI, appContext: appContext
       }
     }
 
-    const myError = error as Error & { errors: any[] }
-    const myErrorMsg = myError.errors[0].message
-
     return {
-      error: myErrorMsg,
+      error: (error as Error).message,
     }
   }
 
   // 4 - Creating output image list
   try {
-    const resultImages: ImagenModelResultI[] = res.data.predictions
+    const resultImages: ImagenModelResultI[] = res.predictions
 
     const isResultBase64Images: boolean = resultImages.every((image) => image.hasOwnProperty('bytesBase64Encoded'))
 
@@ -658,7 +643,7 @@ export async function editImage(formData: EditImageFormI, appContext: appContext
         aspectRatio: formData['ratio'],
         width: formData['width'],
         height: formData['height'],
-        usedPrompt: opts.data.instances[0].prompt,
+        usedPrompt: reqData.instances[0].prompt,
         userID: appContext?.userID ? appContext?.userID : '',
         modelVersion: modelVersion,
         mode: 'Generated',
@@ -669,7 +654,7 @@ export async function editImage(formData: EditImageFormI, appContext: appContext
         aspectRatio: formData['ratio'],
         width: formData['width'],
         height: formData['height'],
-        usedPrompt: opts.data.instances[0].prompt,
+        usedPrompt: reqData.instances[0].prompt,
         userID: appContext?.userID ? appContext?.userID : '',
         modelVersion: modelVersion,
         mode: 'Edited',
@@ -689,24 +674,27 @@ export async function upscaleImage(
   upscaleFactor: string,
   appContext: appContextDataI | null
 ) {
-  // 1 - Atempting to authent to Google Cloud & fetch project informations
-  let client
-  try {
-    const auth = new GoogleAuth({
-      scopes: 'https://www.googleapis.com/auth/cloud-platform',
-    })
-    client = await auth.getClient()
-  } catch (error) {
-    console.error(error)
-    return {
-      error: 'Unable to authenticate your account to access images',
-    }
-  }
-  const location = process.env.NEXT_PUBLIC_VERTEX_API_LOCATION
-  const projectId = process.env.NEXT_PUBLIC_PROJECT_ID
-  const imagenAPIurl = `https://${location}-aiplatform.googleapis.com/v1/projects/${projectId}/locations/${location}/publishers/google/models/imagegeneration@002:predict`
+  return withAuditEvent(
+    {
+      action: 'imageUpscale',
+      parameters: { upscaleFactor: upscaleFactor },
+      sourceUris: 'uri' in source ? [source.uri] : [],
+    },
+    () => runImageUpscale(source, upscaleFactor, appContext),
+    ({ newGcsUri }) => ({ resultUris: [newGcsUri] })
+  )
+}
 
-  // 2 (Opt) Downloading source image
+async function runImageUpscale(
+  source: { uri: string } | { base64: string },
+  upscaleFactor: string,
+  appContext: appContextDataI | null
+) {
+  // 0 - Check the user's role gives access to this feature, upscaling being offered with generated & edited images
+  const user = await getUserWithFeature(['imageGeneration', 'imageEdition'])
+  if ('error' in user) return { error: user.error }
+
+  // 1 (Opt) Downloading source image
   let base64Image
   if ('uri' in source) {
     let res
@@ -725,7 +713,7 @@ export async function upscaleImage(
     base64Image = source.base64
   }
 
-  // 3 - Building Imagen request body
+  // 2 - Building Imagen request body
   let targetGCSuri = ''
   if (
     appContext === undefined ||
@@ -758,25 +746,20 @@ export async function upscaleImage(
       storageUri: targetGCSuri,
     },
   }
-  const opts = {
-    url: imagenAPIurl,
-    method: 'POST',
-    data: reqData,
-  }
 
-  // 4 - Upscaling images
+  // 3 - Upscaling images
   try {
     const timeout = 60000 // ms, 20s
 
     const res = await Promise.race([
-      client.request(opts),
-      new Promise((_, reject) => setTimeout(() => reject(new Error('Upscaling timed out')), timeout)),
+      getGenerationProvider().upscaleImage(reqData),
+      new Promise<never>((_, reject) => setTimeout(() => reject(new Error('Upscaling timed out')), timeout)),
     ])
-    if (res.data.predictions === undefined) {
+    if (res.predictions === undefined) {
       throw Error('There were an issue, images could not be upscaled')
     }
 
-    return { newGcsUri: res.data.predictions[0].gcsUri, mimeType: res.data.predictions[0].mimeType }
+    return { newGcsUri: res.predictions[0].gcsUri, mimeType: res.predictions[0].mimeType }
   } catch (error) {
     console.error(error)
     if ((error as Error).message.includes('Response size too large.'))
@@ -0,0 +1,68 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { VideoJobI } from '../generate-video-utils'
+import { getFirestore } from '../metadata-repository/firestore'
+import { JobRepositoryI } from './repository'
+const { FieldValue } = require('@google-cloud/firestore')
+
+function toVideoJob(doc: { id: string; data: () => any }): VideoJobI {
+  const data = doc.data()
+  return {
+    ...data,
+    id: doc.id,
+    createdAt: data.createdAt ? data.createdAt.toMillis() : Date.now(),
+    updatedAt: data.updatedAt ? data.updatedAt.toMillis() : Date.now(),
+  }
+}
+
+export const firestoreJobRepository: JobRepositoryI = {
+  add: async (jobID, job) => {
+    await getFirestore()
+      .collection('jobs')
+      .doc(jobID)
+      .set({ ...job, createdAt: FieldValue.serverTimestamp(), updatedAt: FieldValue.serverTimestamp() })
+  },
+
+  update: async (jobID, update) => {
+    await getFirestore()
+      .collection('jobs')
+      .doc(jobID)
+      .update({ ...update, updatedAt: FieldValue.serverTimestamp() })
+  },
+
+  get: async (jobID) => {
+    const doc = await getFirestore().collection('jobs').doc(jobID).get()
+    return doc.exists ? toVideoJob(doc) : null
+  },
+
+  listUserJobs: async (author, maxJobs) => {
+    const snapshot = await getFirestore()
+      .collection('jobs')
+      .where('author', '==', author)
+      .orderBy('createdAt', 'desc')
+      .limit(maxJobs)
+      .get()
+    return snapshot.docs.map(toVideoJob)
+  },
+
+  listPendingJobs: async (author) => {
+    const snapshot = await getFirestore()
+      .collection('jobs')
+      .where('author', '==', author)
+      .where('status', '==', 'pending')
+      .get()
+    return snapshot.docs.map(toVideoJob)
+  },
+}
@@ -0,0 +1,26 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { firestoreJobRepository } from './firestore'
+import { jsonFileJobRepository } from './json-file'
+import { JobRepositoryI } from './repository'
+
+export type { JobRepositoryI, NewVideoJobT, VideoJobUpdateT } from './repository'
+
+// Jobs follow the Library metadata store, so METADATA_STORE=json keeps them in a local JSON file too
+export function getJobRepository(): JobRepositoryI {
+  if (process.env.METADATA_STORE === 'json') return jsonFileJobRepository
+
+  return firestoreJobRepository
+}
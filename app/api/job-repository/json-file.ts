@@ -0,0 +1,58 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import path from 'path'
+import { VideoJobI } from '../generate-video-utils'
+import { createJsonFileStore } from '../json-file-store'
+import { JobRepositoryI } from './repository'
+
+// Jobs are kept next to the local metadata file, meant for local development
+const jobsFile = path.resolve(process.env.LOCAL_JOBS_FILE ?? path.join(process.cwd(), '.local-storage', 'jobs.json'))
+
+type StoredVideoJobT = Omit<VideoJobI, 'id'>
+
+const { read: readJobs, update: updateJobs } = createJsonFileStore<{ [jobID: string]: StoredVideoJobT }>(
+  jobsFile,
+  () => ({})
+)
+
+async function listJobs(isMatching: (job: StoredVideoJobT) => boolean) {
+  return Object.entries(await readJobs())
+    .filter(([_, job]) => isMatching(job))
+    .map(([jobID, job]): VideoJobI => ({ ...job, id: jobID }))
+}
+
+export const jsonFileJobRepository: JobRepositoryI = {
+  add: (jobID, job) =>
+    updateJobs((jobs) => {
+      jobs[jobID] = { ...job, createdAt: Date.now(), updatedAt: Date.now() }
+    }),
+
+  // Like Firestore, updating a job that doesn't exist fails
+  update: (jobID, update) =>
+    updateJobs((jobs) => {
+      if (!jobs[jobID]) throw Error(`No video generation job ${jobID}`)
+      jobs[jobID] = { ...jobs[jobID], ...update, updatedAt: Date.now() }
+    }),
+
+  get: async (jobID) => {
+    const job = (await readJobs())[jobID]
+    return job ? { ...job, id: jobID } : null
+  },
+
+  listUserJobs: async (author, maxJobs) =>
+    (await listJobs((job) => job.author === author)).sort((a, b) => b.createdAt - a.createdAt).slice(0, maxJobs),
+
+  listPendingJobs: (author) => listJobs((job) => job.author === author && job.status === 'pending'),
+}
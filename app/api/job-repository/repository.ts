@@ -0,0 +1,27 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { VideoJobI } from '../generate-video-utils'
+
+export type NewVideoJobT = Omit<VideoJobI, 'id' | 'createdAt' | 'updatedAt'>
+export type VideoJobUpdateT = Pick<VideoJobI, 'status' | 'videos' | 'error'>
+
+// Storage of Veo video generation jobs, stored under the ID of their long-running operation
+export interface JobRepositoryI {
+  add: (jobID: string, job: NewVideoJobT) => Promise<void>
+  update: (jobID: string, update: VideoJobUpdateT) => Promise<void>
+  get: (jobID: string) => Promise<VideoJobI | null>
+  listUserJobs: (author: string, maxJobs: number) => Promise<VideoJobI[]>
+  listPendingJobs: (author: string) => Promise<VideoJobI[]>
+}
@@ -0,0 +1,54 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import fs from 'fs/promises'
+import path from 'path'
+
+// Whole content of a local JSON file, as used by the json-file repositories meant for local development
+export function createJsonFileStore<T>(filePath: string, getEmptyContent: () => T) {
+  async function readFile(): Promise<T> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf-8'))
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return getEmptyContent()
+      throw error
+    }
+  }
+
+  // Writes are queued so concurrent requests don't overwrite each other's changes, and written to a temporary file
+  // first so that the file is never left half written
+  let writeQueue: Promise<unknown> = Promise.resolve()
+
+  return {
+    // Reads wait for queued writes, so that they see their changes
+    read: async () => {
+      await writeQueue
+      return readFile()
+    },
+
+    update: (change: (content: T) => void) => {
+      const write = writeQueue.then(async () => {
+        const content = await readFile()
+        change(content)
+
+        await fs.mkdir(path.dirname(filePath), { recursive: true })
+        await fs.writeFile(`${filePath}.tmp`, JSON.stringify(content, null, 2))
+        await fs.rename(`${filePath}.tmp`, filePath)
+      })
+      writeQueue = write.catch(() => {})
+
+      return write
+    },
+  }
+}
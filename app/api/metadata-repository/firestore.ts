@@ -0,0 +1,266 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { Timestamp } from '@google-cloud/firestore'
+import {
+  defaultMetadataSort,
+  isMatchingQuery,
+  MetadataFiltersT,
+  MetadataPageI,
+  MetadataQueryI,
+  MetadataRepositoryError,
+  MetadataRepositoryI,
+  toMetadata,
+} from './repository'
+const { Firestore, FieldValue, FieldPath } = require('@google-cloud/firestore')
+
+// Client is only created on first use, so the app can run without Firestore when using another repository
+let firestore: any = null
+export function getFirestore() {
+  if (!firestore) {
+    firestore = new Firestore()
+    firestore.settings({ ignoreUndefinedProperties: true })
+  }
+  return firestore
+}
+
+// Maximum number of values of 'in' and 'array-contains-any' filters
+const MAX_DISJUNCTION_VALUES = 30
+
+function toTimestamp(milliseconds: number) {
+  return new Timestamp(Math.floor(milliseconds / 1000), Math.floor((milliseconds % 1000) * 1000000))
+}
+
+// Sets as many filters as Firestore allows on the query: a single array filter, up to 30 disjunctions combining 'in' &
+// 'array-contains-any' values, and no equality on the sorted field, the whole query being checked on fetched documents
+function whereMatching(
+  query: any,
+  { filterGroups, searchKeywords, fieldFilters, rangeFilters, isTrashed }: MetadataFiltersT,
+  sortedField?: string
+) {
+  if (isTrashed !== undefined) query = query.where('isTrashed', '==', isTrashed)
+
+  let disjunctionCount = 1
+  Object.entries(fieldFilters ?? {}).forEach(([field, values]) => {
+    if (field === sortedField || disjunctionCount * values.length > MAX_DISJUNCTION_VALUES) return
+    query = query.where(field, 'in', values)
+    disjunctionCount *= values.length
+  })
+
+  const queriedGroup = (filterGroups ?? []).find((group) => disjunctionCount * group.length <= MAX_DISJUNCTION_VALUES)
+  if (queriedGroup) query = query.where('combinedFilters', 'array-contains-any', queriedGroup)
+  else if (searchKeywords && searchKeywords.length > 0)
+    query = query.where('searchKeywords', 'array-contains', searchKeywords[0])
+
+  Object.entries(rangeFilters ?? {}).forEach(([field, { min, max }]) => {
+    if (min !== undefined) query = query.where(field, '>=', min)
+    if (max !== undefined) query = query.where(field, '<=', max)
+  })
+
+  return query
+}
+
+async function paginateQuery(
+  { cursor, sort = defaultMetadataSort, batchSize, ...filters }: MetadataQueryI,
+  isFullyFiltered: boolean
+): Promise<MetadataPageI> {
+  const collection = getFirestore().collection('metadata')
+  const isTimestampSort = sort.field === 'timestamp'
+
+  // Without filters, the query only relies on automatic indexes
+  let query = isFullyFiltered ? whereMatching(collection, filters, sort.field) : collection
+
+  // Range filtered fields are ordered after the sorted one, as Firestore requires, then documents by ID
+  const rangeFields = isFullyFiltered ? Object.keys(filters.rangeFilters ?? {}).sort() : []
+  const orderedFields = Array.from(new Set([sort.field, ...rangeFields]))
+  orderedFields.forEach((field) => (query = query.orderBy(field, sort.direction)))
+
+  // One more matching document is looked for to know if there's a next page
+  query = query.orderBy(FieldPath.documentId(), sort.direction).limit(batchSize + 1)
+  if (cursor) {
+    const cursorValue = isTimestampSort && typeof cursor.value === 'number' ? toTimestamp(cursor.value) : cursor.value
+
+    // Cursors only keep the sorted value, other ordered values are read from the document itself
+    const cursorDoc = orderedFields.length > 1 ? await collection.doc(cursor.id).get() : null
+    query = cursorDoc?.exists ? query.startAfter(cursorDoc) : query.startAfter(cursorValue, cursor.id)
+  }
+  const isMatching = (data: any) => isMatchingQuery(data, filters)
+
+  let matchingDocs: any[] = []
+  let lastScannedDoc: any = null
+  let isLastBatch = false
+  while (matchingDocs.length <= batchSize && !isLastBatch) {
+    const snapshot = await (lastScannedDoc ? query.startAfter(lastScannedDoc) : query).get()
+    matchingDocs = matchingDocs.concat(snapshot.docs.filter((doc: any) => isMatching(doc.data())))
+    lastScannedDoc = snapshot.docs[snapshot.docs.length - 1]
+    isLastBatch = snapshot.docs.length <= batchSize
+  }
+
+  const docs = matchingDocs.slice(0, batchSize)
+  if (docs.length === 0) return { documents: [], lastVisibleDocument: null, isMorePageToLoad: false }
+
+  const lastDoc = docs[docs.length - 1]
+  const lastValue = lastDoc.data()[sort.field]
+  return {
+    documents: docs.map((doc) => toMetadata(doc.data())),
+    lastVisibleDocument: { id: lastDoc.id, value: isTimestampSort ? lastValue.toMillis() : (lastValue ?? null) },
+    isMorePageToLoad: matchingDocs.length > batchSize,
+  }
+}
+
+export const firestoreRepository: MetadataRepositoryI = {
+  // Created rather than set, so that an existing entry is never overwritten
+  add: async (id, data, index) => {
+    try {
+      const res = await getFirestore()
+        .collection('metadata')
+        .doc(id)
+        .create({ ...data, ...index, isTrashed: false, timestamp: FieldValue.serverTimestamp() })
+
+      return res._writeTime._seconds
+    } catch (error: any) {
+      // Firestore ALREADY_EXISTS error code
+      if (error?.code === 6) throw new MetadataRepositoryError(`Metadata entry ${id} already exists`, 409)
+      throw error
+    }
+  },
+
+  get: async (id) => {
+    const doc = await getFirestore().collection('metadata').doc(id).get()
+    if (!doc.exists) return null
+
+    return toMetadata(doc.data())
+  },
+
+  // Indexes missing for a combination of filters & sort are logged with the link to create them, the query being run
+  // again without filters, which are then checked on fetched documents
+  paginate: async (query) => {
+    try {
+      return await paginateQuery(query, true)
+    } catch (error: any) {
+      // Firestore FAILED_PRECONDITION error code
+      if (error?.code !== 9) throw error
+      console.error(error)
+      return paginateQuery(query, false)
+    }
+  },
+
+  // One aggregation query per combined filter, which is the query's single array filter, so that no other combined filter
+  // nor search keyword can be counted along with it
+  countByFilter: async (combinedFilters, filters) => {
+    const disjunctionCount = Object.values(filters.fieldFilters ?? {}).reduce(
+      (count, values) => count * values.length,
+      1
+    )
+    if (
+      (filters.filterGroups ?? []).length > 0 ||
+      (filters.searchKeywords ?? []).length > 0 ||
+      disjunctionCount > MAX_DISJUNCTION_VALUES
+    )
+      return {}
+
+    const query = whereMatching(getFirestore().collection('metadata'), filters)
+    try {
+      const counts = await Promise.all(
+        combinedFilters.map(async (filter) => {
+          const snapshot = await query.where('combinedFilters', 'array-contains', filter).count().get()
+          return [filter, snapshot.data().count]
+        })
+      )
+      return Object.fromEntries(counts)
+    } catch (error: any) {
+      // Firestore FAILED_PRECONDITION error code, the message links to the creation of the missing index
+      if (error?.code !== 9) throw error
+      console.error(error)
+      return {}
+    }
+  },
+
+  countCreated: async ({ from, to, field, combinedFilter }) => {
+    let query = getFirestore()
+      .collection('metadata')
+      .where('isTrashed', '==', false)
+      .where('creationTimestamp', '>=', from)
+      .where('creationTimestamp', '<', to)
+    if (field) query = query.where(field.name, 'in', field.values)
+    if (combinedFilter) query = query.where('combinedFilters', 'array-contains', combinedFilter)
+
+    const snapshot = await query.count().get()
+    return snapshot.data().count
+  },
+
+  listAuthors: async () => {
+    const doc = await getFirestore().collection('settings').doc('libraryAuthors').get()
+    return doc.exists ? (doc.data().authors ?? []) : []
+  },
+
+  addAuthors: async (authors) => {
+    if (authors.length === 0) return
+
+    await getFirestore()
+      .collection('settings')
+      .doc('libraryAuthors')
+      .set({ authors: FieldValue.arrayUnion(...authors) }, { merge: true })
+  },
+
+  update: async (id, data, index) => {
+    try {
+      await getFirestore()
+        .collection('metadata')
+        .doc(id)
+        .update({ ...data, ...index })
+    } catch (error: any) {
+      // Firestore NOT_FOUND error code
+      if (error?.code === 5) throw new MetadataRepositoryError(`Metadata entry ${id} not found`, 404)
+      throw error
+    }
+  },
+
+  trash: async (ids, deletedBy) => {
+    const collection = getFirestore().collection('metadata')
+    const batch = getFirestore().batch()
+    const deletedAt = Date.now()
+
+    ids.forEach((id) =>
+      batch.update(collection.doc(id), { deletedAt: deletedAt, deletedBy: deletedBy, isTrashed: true })
+    )
+
+    await batch.commit()
+  },
+
+  // Fields are removed rather than set to null, so restored documents aren't scanned when sorting on the deletion date
+  restore: async (ids) => {
+    const collection = getFirestore().collection('metadata')
+    const batch = getFirestore().batch()
+
+    ids.forEach((id) =>
+      batch.update(collection.doc(id), {
+        deletedAt: FieldValue.delete(),
+        deletedBy: FieldValue.delete(),
+        isTrashed: false,
+      })
+    )
+
+    await batch.commit()
+  },
+
+  delete: async (ids) => {
+    const collection = getFirestore().collection('metadata')
+    const batch = getFirestore().batch()
+
+    ids.forEach((id) => batch.delete(collection.doc(id)))
+
+    await batch.commit()
+  },
+}
@@ -0,0 +1,34 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { firestoreRepository } from './firestore'
+import { jsonFileRepository } from './json-file'
+import { MetadataRepositoryI } from './repository'
+
+export { MetadataRepositoryError } from './repository'
+export type {
+  MetadataCountQueryI,
+  MetadataCursorI,
+  MetadataIndexI,
+  MetadataPageI,
+  MetadataRepositoryI,
+  MetadataSortI,
+} from './repository'
+
+// Set METADATA_STORE=json to keep library metadata in a local JSON file instead of Firestore
+export function getMetadataRepository(): MetadataRepositoryI {
+  if (process.env.METADATA_STORE === 'json') return jsonFileRepository
+
+  return firestoreRepository
+}
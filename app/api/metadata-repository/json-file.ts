@@ -0,0 +1,157 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import path from 'path'
+import { MediaMetadataI } from '../export-utils'
+import { createJsonFileStore } from '../json-file-store'
+import {
+  defaultMetadataSort,
+  isMatchingQuery,
+  MetadataCursorI,
+  MetadataIndexI,
+  MetadataRepositoryError,
+  MetadataRepositoryI,
+  MetadataSortI,
+  toMetadata,
+} from './repository'
+
+// Whole collection is kept in a single JSON file, meant for local development & tests
+const metadataFile = path.resolve(
+  process.env.LOCAL_METADATA_FILE ?? path.join(process.cwd(), '.local-storage', 'metadata.json')
+)
+
+type StoredMetadataT = MediaMetadataI & Partial<MetadataIndexI> & { timestamp: number }
+
+const { read: readCollection, update: updateCollection } = createJsonFileStore<{ [id: string]: StoredMetadataT }>(
+  metadataFile,
+  () => ({})
+)
+
+// Same ordering as Firestore: null values first, then numbers, then strings
+function compareValues(a: MetadataCursorI['value'], b: MetadataCursorI['value']) {
+  const typeRank = (value: MetadataCursorI['value']) => (value === null ? 0 : typeof value === 'number' ? 1 : 2)
+  if (typeRank(a) !== typeRank(b)) return typeRank(a) - typeRank(b)
+
+  return a === b ? 0 : (a as string | number) < (b as string | number) ? -1 : 1
+}
+
+// Sorted field first, then ID in the same direction
+function isBefore(a: MetadataCursorI, b: MetadataCursorI, { direction }: MetadataSortI) {
+  const comparison = compareValues(a.value, b.value) || compareValues(a.id, b.id)
+  return direction === 'desc' ? comparison > 0 : comparison < 0
+}
+
+export const jsonFileRepository: MetadataRepositoryI = {
+  add: async (id, data, index) => {
+    const timestamp = Date.now()
+    await updateCollection((collection) => {
+      if (collection[id]) throw new MetadataRepositoryError(`Metadata entry ${id} already exists`, 409)
+
+      collection[id] = { ...data, ...index, isTrashed: false, timestamp: timestamp }
+    })
+
+    return Math.floor(timestamp / 1000)
+  },
+
+  get: async (id) => {
+    const document = (await readCollection())[id]
+    if (!document) return null
+
+    return toMetadata(document)
+  },
+
+  paginate: async ({ cursor, sort = defaultMetadataSort, batchSize, ...filters }) => {
+    const collection = await readCollection()
+
+    const matching = Object.entries(collection)
+      .map(([id, document]) => ({ id: id, value: document[sort.field] ?? null, document: document }))
+      .filter(({ document }) => isMatchingQuery(document, filters))
+      .filter((entry) => !cursor || isBefore(cursor, entry, sort))
+      .sort((a, b) => (isBefore(a, b, sort) ? -1 : 1))
+
+    const page = matching.slice(0, batchSize)
+    if (page.length === 0) return { documents: [], lastVisibleDocument: null, isMorePageToLoad: false }
+
+    const last = page[page.length - 1]
+    return {
+      documents: page.map(({ document }) => toMetadata(document)),
+      lastVisibleDocument: { id: last.id, value: last.value },
+      isMorePageToLoad: matching.length > batchSize,
+    }
+  },
+
+  countByFilter: async (combinedFilters, filters) => {
+    const documents = Object.values(await readCollection()).filter((document) => isMatchingQuery(document, filters))
+
+    return Object.fromEntries(
+      combinedFilters.map((filter) => [
+        filter,
+        documents.filter((document) => (document.combinedFilters ?? []).includes(filter)).length,
+      ])
+    )
+  },
+
+  countCreated: async ({ from, to, field, combinedFilter }) => {
+    const documents = Object.values(await readCollection())
+
+    return documents.filter(
+      (document) =>
+        !document.deletedAt &&
+        typeof document.creationTimestamp === 'number' &&
+        document.creationTimestamp >= from &&
+        document.creationTimestamp < to &&
+        (!field || field.values.includes(document[field.name])) &&
+        (!combinedFilter || (document.combinedFilters ?? []).includes(combinedFilter))
+    ).length
+  },
+
+  // Authors are read from the collection itself, so there's nothing else to keep
+  listAuthors: async () => {
+    const documents = Object.values(await readCollection())
+
+    return Array.from(new Set(documents.map(({ author }) => author).filter(Boolean)))
+  },
+
+  addAuthors: async () => {},
+
+  update: (id, data, index) =>
+    updateCollection((collection) => {
+      if (!collection[id]) throw new MetadataRepositoryError(`Metadata entry ${id} not found`, 404)
+
+      collection[id] = { ...collection[id], ...data, ...index }
+    }),
+
+  trash: (ids, deletedBy) =>
+    updateCollection((collection) => {
+      const deletedAt = Date.now()
+      ids.forEach((id) => {
+        if (collection[id])
+          collection[id] = { ...collection[id], deletedAt: deletedAt, deletedBy: deletedBy, isTrashed: true }
+      })
+    }),
+
+  restore: (ids) =>
+    updateCollection((collection) => {
+      ids.forEach((id) => {
+        if (!collection[id]) return
+        const { deletedAt, deletedBy, ...document } = collection[id]
+        collection[id] = { ...document, isTrashed: false }
+      })
+    }),
+
+  delete: (ids) =>
+    updateCollection((collection) => {
+      ids.forEach((id) => delete collection[id])
+    }),
+}
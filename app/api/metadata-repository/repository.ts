@@ -0,0 +1,126 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { MediaMetadataI } from '../export-utils'
+
+// Position of the last document of a page, with its value of the sorted field (timestamps being in milliseconds)
+export interface MetadataCursorI {
+  id: string
+  value: string | number | null
+}
+
+// Documents are sorted on a stored field, then on their ID in the same direction
+export interface MetadataSortI {
+  field: string
+  direction: 'asc' | 'desc'
+}
+
+export const defaultMetadataSort: MetadataSortI = { field: 'timestamp', direction: 'desc' }
+
+export interface MetadataPageI {
+  documents: MediaMetadataI[]
+  lastVisibleDocument: MetadataCursorI | null
+  isMorePageToLoad: boolean
+}
+
+// Stored alongside the metadata to query documents, but never returned with them,
+// isTrashed being kept by the repository as Firestore can't query documents without a deletion date
+export interface MetadataIndexI {
+  combinedFilters: string[]
+  searchKeywords: string[]
+  creationTimestamp: number
+  pixelCount: number
+  isTrashed: boolean
+}
+
+// A document matches if it contains at least one combined filter (ex: 'contextAuthorTeam_marketing') of every group,
+// all of the search keywords, one of the values of every field filter (ex: { format: ['PNG', 'JPEG'] }),
+// and has every range filtered field within its inclusive bounds (ex: { videoDuration: { min: 4, max: 8 } }),
+// trashed documents only being matched when looking in the trash, and both when isTrashed is not set
+export interface MetadataQueryI {
+  cursor?: MetadataCursorI | null
+  sort?: MetadataSortI
+  filterGroups?: string[][]
+  searchKeywords?: string[]
+  fieldFilters?: { [field: string]: (string | number)[] }
+  rangeFilters?: { [field: string]: { min?: number; max?: number } }
+  isTrashed?: boolean
+  batchSize: number
+}
+
+export type MetadataFiltersT = Omit<MetadataQueryI, 'cursor' | 'sort' | 'batchSize'>
+
+// Documents created within [from, to[ (timestamps in milliseconds), trashed ones excluded,
+// having one of the values of a field (ex: { name: 'format', values: ['PNG', 'JPEG'] }) or a combined filter when set
+export interface MetadataCountQueryI {
+  from: number
+  to: number
+  field?: { name: string; values: (string | number)[] }
+  combinedFilter?: string
+}
+
+// Library metadata storage, creation & deletion timestamps are set by the repository, adding an existing ID fails
+export interface MetadataRepositoryI {
+  add: (id: string, data: MediaMetadataI, index: Omit<MetadataIndexI, 'isTrashed'>) => Promise<number>
+  get: (id: string) => Promise<MediaMetadataI | null>
+  paginate: (query: MetadataQueryI) => Promise<MetadataPageI>
+  // Documents matching the filters & each combined filter, counts a repository can't get without reading documents
+  // being left out
+  countByFilter: (combinedFilters: string[], filters: MetadataFiltersT) => Promise<{ [combinedFilter: string]: number }>
+  countCreated: (query: MetadataCountQueryI) => Promise<number>
+  // Authors are listed apart, as they can't be grouped on without reading every document
+  listAuthors: () => Promise<string[]>
+  addAuthors: (authors: string[]) => Promise<void>
+  update: (id: string, data: Partial<MediaMetadataI>, index?: Partial<MetadataIndexI>) => Promise<void>
+  trash: (ids: string[], deletedBy: string) => Promise<void>
+  restore: (ids: string[]) => Promise<void>
+  delete: (ids: string[]) => Promise<void>
+}
+
+export function isMatchingQuery(
+  document: Partial<MetadataIndexI> & { [field: string]: any },
+  { filterGroups, searchKeywords, fieldFilters, rangeFilters, isTrashed }: MetadataFiltersT
+) {
+  const combinedFilters = document.combinedFilters ?? []
+  const keywords = document.searchKeywords ?? []
+
+  return (
+    (isTrashed === undefined || Boolean(document.deletedAt) === isTrashed) &&
+    (filterGroups ?? []).every((group) => group.some((filter) => combinedFilters.includes(filter))) &&
+    (searchKeywords ?? []).every((keyword) => keywords.includes(keyword)) &&
+    Object.entries(fieldFilters ?? {}).every(([field, values]) => values.includes(document[field])) &&
+    Object.entries(rangeFilters ?? {}).every(
+      ([field, { min, max }]) =>
+        typeof document[field] === 'number' &&
+        (min === undefined || document[field] >= min) &&
+        (max === undefined || document[field] <= max)
+    )
+  )
+}
+
+// Strips the fields only used to query documents
+export function toMetadata(document: any) {
+  const { timestamp, combinedFilters, searchKeywords, creationTimestamp, pixelCount, isTrashed, ...metadata } = document
+  return metadata as MediaMetadataI
+}
+
+export class MetadataRepositoryError extends Error {
+  status?: number
+
+  constructor(message: string, status?: number) {
+    super(message)
+    this.name = 'MetadataRepositoryError'
+    this.status = status
+  }
+}
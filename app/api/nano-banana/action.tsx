@@ -15,24 +15,80 @@
 'use server'
 
 import {
+  GeminiCandidateI,
   GenerateImageFormI,
   ImagenModelResultI,
   ImageI,
+  maxGeminiInputImages,
   RatioToPixel,
   referenceTypeMatching,
   ReferenceObjectI,
   imageGenerationUtils,
 } from '../generate-image-utils'
-import { decomposeUri, downloadMediaFromGcs, getSignedURL, uploadBase64Image } from '../cloud-storage/action'
+import { decomposeUri, downloadMediaFromGcs, getSignedURL, uploadBase64Image } from '../cloud-storage/storage'
 import { getFullReferenceDescription } from '../gemini/action'
 import { appContextDataI } from '../../context/app-context'
-import { EditImageFormI } from '../edit-utils'
-const { GoogleAuth } = require('google-auth-library')
+import { conversationalEditModel, EditChatTurnI, EditImageFormI } from '../edit-utils'
+import { getGenerationProvider } from '../generation-provider'
+import { getUserWithFeature } from '../google-auth/identity'
+import { withAuditEvent } from '../audit-log/record'
 
 function cleanResult(inputString: string) {
   return inputString.toString().replaceAll('\n', '').replaceAll(/\//g, '').replaceAll('*', '')
 }
 
+// Messages for Gemini candidates returned without any image
+const finishReasonMessages: { [key: string]: string } = {
+  SAFETY: 'An image was filtered out for safety reasons',
+  IMAGE_SAFETY: "An image was filtered out because it violated Vertex AI's usage guidelines",
+  PROHIBITED_CONTENT: 'An image was filtered out because it contained prohibited content',
+  BLOCKLIST: 'An image was filtered out because the prompt contained blocked terms',
+  SPII: 'An image was filtered out because it may contain sensitive personal information',
+  RECITATION: 'An image was filtered out because it was too similar to existing content',
+  MAX_TOKENS: 'An image could not be generated because the output limit was reached',
+}
+
+// Turns Gemini candidates into image results, candidates without image become filtered results explaining why
+function buildResultsFromCandidates(candidates: GeminiCandidateI[]): ImagenModelResultI[] {
+  return candidates.flatMap((candidate): ImagenModelResultI[] => {
+    const parts = candidate.content?.parts ?? []
+
+    // Text returned next to the image(s) is kept as their description
+    const description = parts
+      .map((part) => part.text?.trim() ?? '')
+      .filter((text) => text !== '')
+      .join(' ')
+
+    const images = parts
+      .filter((part) => part.inlineData?.data)
+      .map((part) => ({
+        bytesBase64Encoded: part.inlineData?.data,
+        mimeType: part.inlineData?.mimeType ?? 'image/png',
+        description: description !== '' ? description : undefined,
+      }))
+    if (images.length > 0) return images
+
+    const blockedCategories = (candidate.safetyRatings ?? [])
+      .filter((rating) => rating.blocked)
+      .map((rating) => rating.category.replace('HARM_CATEGORY_', '').replaceAll('_', ' ').toLowerCase())
+
+    let reason = finishReasonMessages[candidate.finishReason ?? '']
+    if (!reason) reason = description !== '' ? `No image was generated: ${description}` : 'No image was generated'
+    if (blockedCategories.length > 0) reason = `${reason} (${blockedCategories.join(', ')})`
+
+    return [{ mimeType: '', raiFilteredReason: reason }]
+  })
+}
+
+function toInlineDataPart(image: string) {
+  return {
+    inline_data: {
+      mime_type: image.startsWith('data:') ? image.split(';')[0].replace('data:', '') : 'image/png',
+      data: image.startsWith('data:') ? image.split(',')[1] : image,
+    },
+  }
+}
+
 function generateUniqueFolderId() {
   let number = Math.floor(Math.random() * 9) + 1
   for (let i = 0; i < 12; i++) number = number * 10 + Math.floor(Math.random() * 10)
@@ -207,7 +263,7 @@ export async function buildImageListFromBase64({
   let uniqueFolderId = generateUniqueFolderId()
   const folderName = targetGcsURI.split(bucketName + '/')[1] + '/' + uniqueFolderId
 
-  const promises = imagesBase64.map(async (image) => {
+  const promises = imagesBase64.map(async (image, index) => {
     if ('raiFilteredReason' in image) {
       return {
         warning: `${image['raiFilteredReason']}`,
@@ -215,7 +271,6 @@ export async function buildImageListFromBase64({
     } else {
       const format = image.mimeType.replace('image/', '').toUpperCase()
 
-      const index = imagesBase64.findIndex((obj) => obj.bytesBase64Encoded === image.bytesBase64Encoded)
       const fileName = 'sample_' + index.toString()
 
       const fullOjectName = folderName + '/' + fileName + '.' + format.toLocaleLowerCase()
@@ -258,6 +313,7 @@ export async function buildImageListFromBase64({
             author: userID,
             modelVersion: modelVersion,
             mode: mode,
+            description: image.description,
           }
         }
       } catch (error) {
@@ -276,32 +332,23 @@ export async function buildImageListFromBase64({
   return generatedImagesToDisplay
 }
 
-export async function generateImage(
-  formData: GenerateImageFormI,
-  isGeminiRewrite: boolean,
-  appContext: appContextDataI | null
-) {
-  // 1 - Atempting to authent to Google Cloud & fetch project informations
-  let client
-  try {
-    const auth = new GoogleAuth({
-      scopes: 'https://www.googleapis.com/auth/cloud-platform',
-    })
-    client = await auth.getClient()
-  } catch (error) {
-    console.error(error)
-    return {
-      error: 'Unable to authenticate your account to access images',
-    }
-  }
+export async function generateImage(formData: GenerateImageFormI, appContext: appContextDataI | null) {
+  return withAuditEvent(
+    { action: 'imageGeneration', model: formData.modelVersion, parameters: formData },
+    () => runImageGeneration(formData, appContext),
+    (images) => ({ resultUris: images.map(({ gcsUri }) => gcsUri) })
+  )
+}
+
+async function runImageGeneration(formData: GenerateImageFormI, appContext: appContextDataI | null) {
+  // 0 - Check the user's role gives access to this feature
+  const user = await getUserWithFeature('imageGeneration')
+  if ('error' in user) return user
 
+  // 1 - Fetching project informations
   const modelVersion = formData['modelVersion']
-  const location = modelVersion.includes('gemini-2.5-flash-image') ? 'us-central1' : process.env.NEXT_PUBLIC_VERTEX_API_LOCATION //Nano Banana currently supports only a few regions
-  const projectId = process.env.NEXT_PUBLIC_PROJECT_ID
-  const geminiAPIurl = `https://${location}-aiplatform.googleapis.com/v1/projects/${projectId}/locations/${location}/publishers/google/models/${modelVersion}:generateContent`
-  
 
-  // 2 - Building the prompt and rewrite it if needed with Gemini
+  // 2 - Building the prompt
   let fullPrompt
   try {
     fullPrompt = generatePrompt(formData)
@@ -330,21 +377,30 @@ export async function generateImage(
   else {
     generationGcsURI = `${appContext.gcsURI}/${appContext.userID}/generated-images`
   }
+
+  // Attached images are sent before the prompt, for composition & multi-image fusion
+  const inputImageParts = (formData['geminiInputImages'] ?? [])
+    .filter((image) => image !== '')
+    .slice(0, maxGeminiInputImages)
+    .map((image) => toInlineDataPart(image))
+
   let reqData: any = {
     contents: [
       {
         role: 'user',
         parts: [
+          ...inputImageParts,
           {
-            text: fullPrompt as string
-          }
-        ] ,
+            text: fullPrompt as string,
+          },
+        ],
       },
     ],
     generationConfig: {
+      responseModalities: ['TEXT', 'IMAGE'],
       imageConfig: {
-        aspectRatio: formData['aspectRatio']
-      }
+        aspectRatio: formData['aspectRatio'],
+      },
     },
   }
 
@@ -352,103 +408,77 @@ export async function generateImage(
     reqData.generationConfig.seed = parseInt(formData['seedNumber'])
   }
 
-  const opts = {
-    url: geminiAPIurl,
-    method: 'POST',
-    data: reqData,
-  }
-
-  // 4 - Generating images
+  // 4 - Generating images, Gemini returns one candidate per request so one request is sent per output
+  let resultImages: ImagenModelResultI[]
   try {
-    const res = await client.request(opts)
-
-    if (res.data.candidates[0].content === undefined) throw Error('There were an issue, no images were generated')
-
-    const usedRatio = RatioToPixel.find((item) => item.ratio === opts.data.parameters.aspectRatio)
-
-    const resultImages: ImagenModelResultI[] = res.data.predictions
-
-    const isResultBase64Images: boolean = resultImages.every((image) => image.hasOwnProperty('bytesBase64Encoded'))
+    const sampleCount = parseInt(formData['sampleCount'])
+    const responses = await Promise.all(
+      Array.from({ length: sampleCount }, (_, index) =>
+        getGenerationProvider().generateContent(modelVersion, reqData, index)
+      )
+    )
 
-    // const resultImages: ImagenModelResultI[] = res.data.candidates[0].content.parts.map(part => {
-    //   return {
-    //     bytesBase64Encoded: part.inlineData.data,
-    //     mimeType: part.inlineData.mimeType,
-    //     prompt: part.text
-    //   };
-    // });
-      
-    //   res.data.candidates[0].content.parts
+    const candidates: GeminiCandidateI[] = responses.flatMap((res) => res.candidates ?? [])
+    if (candidates.length === 0) {
+      const blockReason = responses[0]?.promptFeedback?.blockReason
+      throw Error(
+        blockReason
+          ? `Your prompt was blocked (${blockReason.replaceAll('_', ' ').toLowerCase()}), please rephrase it`
+          : 'There were an issue, no images were generated'
+      )
+    }
 
-    let enhancedImageList
-    if (isResultBase64Images)
-      enhancedImageList = await buildImageListFromBase64({
-        imagesBase64: resultImages,
-        targetGcsURI: generationGcsURI,
-        aspectRatio: opts.data.parameters.aspectRatio,
-        width: usedRatio?.width ?? 0,
-        height: usedRatio?.height ?? 0,
-        usedPrompt: opts.data.instances[0].prompt,
-        userID: appContext?.userID ? appContext?.userID : '',
-        modelVersion: modelVersion,
-        mode: 'Generated',
-      })
-    else
-      enhancedImageList = await buildImageListFromURI({
-        imagesInGCS: resultImages,
-        aspectRatio: opts.data.parameters.aspectRatio,
-        width: usedRatio?.width ?? 0,
-        height: usedRatio?.height ?? 0,
-        usedPrompt: opts.data.instances[0].prompt,
-        userID: appContext?.userID ? appContext?.userID : '',
-        modelVersion: modelVersion,
-        mode: 'Generated',
-      })
+    resultImages = buildResultsFromCandidates(candidates)
 
-    return enhancedImageList
+    // NO images at all were generated out of all samples
+    if (resultImages.every((image) => image.raiFilteredReason)) throw Error(resultImages[0].raiFilteredReason)
   } catch (error) {
-    const errorString = error instanceof Error ? error.toString() : String(error)
-    console.error(errorString)
-
-    if (
-      errorString.includes('safety settings for peopleface generation') ||
-      errorString.includes("All images were filtered out because they violated Vertex AI's usage guidelines") ||
-      errorString.includes('Person Generation')
-    )
-      return {
-        error: errorString.replace(/^Error: /i, ''),
-      }
-
-    const myError = error as Error & { errors: any[] }
-    let myErrorMsg = ''
-    if (myError.errors && myError.errors[0] && myError.errors[0].message)
-      myErrorMsg = myError.errors[0].message.replace('Image generation failed with the following error: ', '')
+    console.error(error)
 
+    const myError = error as Error
     return {
-      error: myErrorMsg || 'An unexpected error occurred.',
+      error: myError.message ? myError.message : 'An unexpected error occurred.',
     }
   }
-}
 
-export async function editImage(formData: EditImageFormI, appContext: appContextDataI | null) {
-  // 1 - Atempting to authent to Google Cloud & fetch project informations
-  let client
+  // 5 - Creating output image list
   try {
-    const auth = new GoogleAuth({
-      scopes: 'https://www.googleapis.com/auth/cloud-platform',
+    const usedRatio = RatioToPixel.find((item) => item.ratio === formData['aspectRatio'])
+
+    return await buildImageListFromBase64({
+      imagesBase64: resultImages,
+      targetGcsURI: generationGcsURI,
+      aspectRatio: formData['aspectRatio'],
+      width: usedRatio?.width ?? 0,
+      height: usedRatio?.height ?? 0,
+      usedPrompt: fullPrompt as string,
+      userID: appContext?.userID ? appContext?.userID : '',
+      modelVersion: modelVersion,
+      mode: 'Generated',
     })
-    client = await auth.getClient()
   } catch (error) {
     console.error(error)
     return {
-      error: 'Unable to authenticate your account to access images',
+      error: 'Issue while generating image.',
     }
   }
+}
 
-  const location = process.env.NEXT_PUBLIC_VERTEX_API_LOCATION
-  const projectId = process.env.NEXT_PUBLIC_PROJECT_ID
+export async function editImage(formData: EditImageFormI, appContext: appContextDataI | null) {
+  return withAuditEvent(
+    { action: 'imageEdition', model: formData.modelVersion, parameters: formData },
+    () => runImageEdition(formData, appContext),
+    (images) => ({ resultUris: images.map(({ gcsUri }) => gcsUri) })
+  )
+}
+
+async function runImageEdition(formData: EditImageFormI, appContext: appContextDataI | null) {
+  // 0 - Check the user's role gives access to this feature
+  const user = await getUserWithFeature('imageEdition')
+  if ('error' in user) return user
+
+  // 1 - Fetching project informations
   const modelVersion = formData['modelVersion']
-  const imagenAPIurl = `https://${location}-aiplatform.googleapis.com/v1/projects/${projectId}/locations/${location}/publishers/google/models/${modelVersion}:predict`
 
   if (appContext === undefined) throw Error('No provided app context')
 
@@ -524,23 +554,17 @@ export async function editImage(formData: EditImageFormI, appContext: appContext
     delete referenceImage.maskImageConfig.dilation
   }
 
-  const opts = {
-    url: imagenAPIurl,
-    method: 'POST',
-    data: reqData,
-  }
-
   // 3 - Editing image
   let res
   try {
-    res = await client.request(opts)
+    res = await getGenerationProvider().editImages(modelVersion, reqData)
 
-    if (res.data.predictions === undefined) {
+    if (res.predictions === undefined) {
       throw Error('There were an issue, no images were generated')
     }
     // NO images at all were generated out of all samples
-    if ('raiFilteredReason' in res.data.predictions[0]) {
-      throw Error(cleanResult(res.data.predictions[0].raiFilteredReason))
+    if ('raiFilteredReason' in res.predictions[0]) {
+      throw Error(cleanResult(res.predictions[0].raiFilteredReason))
     }
   } catch (error) {
     console.error(error)
@@ -555,17 +579,14 @@ export async function editImage(formData: EditImageFormI, appContext: appContext
       }
     }
 
-    const myError = error as Error & { errors: any[] }
-    const myErrorMsg = myError.errors[0].message
-
     return {
-      error: myErrorMsg,
+      error: (error as Error).message,
     }
   }
 
   // 4 - Creating output image list
   try {
-    const resultImages: ImagenModelResultI[] = res.data.predictions
+    const resultImages: ImagenModelResultI[] = res.predictions
 
     const isResultBase64Images: boolean = resultImages.every((image) => image.hasOwnProperty('bytesBase64Encoded'))
 
@@ -577,7 +598,7 @@ export async function editImage(formData: EditImageFormI, appContext: appContext
         aspectRatio: formData['ratio'],
         width: formData['width'],
         height: formData['height'],
-        usedPrompt: opts.data.instances[0].prompt,
+        usedPrompt: reqData.instances[0].prompt,
         userID: appContext?.userID ? appContext?.userID : '',
         modelVersion: modelVersion,
         mode: 'Generated',
@@ -588,7 +609,7 @@ export async function editImage(formData: EditImageFormI, appContext: appContext
         aspectRatio: formData['ratio'],
         width: formData['width'],
         height: formData['height'],
-        usedPrompt: opts.data.instances[0].prompt,
+        usedPrompt: reqData.instances[0].prompt,
         userID: appContext?.userID ? appContext?.userID : '',
         modelVersion: modelVersion,
         mode: 'Edited',
@@ -603,29 +624,168 @@ export async function editImage(formData: EditImageFormI, appContext: appContext
   }
 }
 
-export async function upscaleImage(
-  source: { uri: string } | { base64: string },
-  upscaleFactor: string,
+export async function editImageConversational(
+  formData: EditImageFormI,
+  history: EditChatTurnI[],
   appContext: appContextDataI | null
-) {
-  // 1 - Atempting to authent to Google Cloud & fetch project informations
-  let client
+): Promise<ImageI | { error: string }> {
+  return withAuditEvent(
+    {
+      action: 'imageEdition',
+      model: formData.modelVersion.includes('gemini') ? formData.modelVersion : conversationalEditModel,
+      parameters: { ...formData, previousTurns: history.length },
+      sourceUris: history.map(({ image }) => image.gcsUri),
+    },
+    () => runConversationalImageEdition(formData, history, appContext),
+    (image) => ({ resultUris: [image.gcsUri] })
+  )
+}
+
+async function runConversationalImageEdition(
+  formData: EditImageFormI,
+  history: EditChatTurnI[],
+  appContext: appContextDataI | null
+): Promise<ImageI | { error: string }> {
+  // 0 - Check the user's role gives access to this feature
+  const user = await getUserWithFeature('imageEdition')
+  if ('error' in user) return user
+
+  // 1 - Fetching project informations
+  const modelVersion = formData['modelVersion'].includes('gemini') ? formData['modelVersion'] : conversationalEditModel
+
+  let editGcsURI = ''
+  if (
+    appContext === undefined ||
+    appContext === null ||
+    appContext.gcsURI === undefined ||
+    appContext.userID === undefined
+  )
+    throw Error('No provided app context')
+  else {
+    editGcsURI = `${appContext.gcsURI}/${appContext.userID}/edited-images`
+  }
+
+  // 2 - Rebuilding the running conversation, with the original image in the first turn
+  // Only the previous output image is sent back inline, earlier versions are referred to by their text
+  const contents: { role: string; parts: any[] }[] = []
+  try {
+    for (const [index, turn] of history.entries()) {
+      contents.push({
+        role: 'user',
+        parts: [...(index === 0 ? [toInlineDataPart(formData['inputImage'])] : []), { text: turn.instruction }],
+      })
+
+      const modelParts: any[] = [{ text: turn.image.description ?? `Here is the edited image, version ${index + 1}.` }]
+      if (index === history.length - 1) {
+        const res = await downloadMediaFromGcs(turn.image.gcsUri)
+        if (typeof res === 'object' && res['error']) throw Error(res['error'].replaceAll('Error: ', ''))
+
+        modelParts.unshift({
+          inline_data: { mime_type: `image/${turn.image.format.toLowerCase()}`, data: res.data },
+        })
+      }
+      contents.push({ role: 'model', parts: modelParts })
+    }
+
+    contents.push({
+      role: 'user',
+      parts: [
+        ...(history.length === 0 ? [toInlineDataPart(formData['inputImage'])] : []),
+        { text: formData['prompt'] },
+      ],
+    })
+  } catch (error) {
+    console.error(error)
+    return {
+      error: 'Unable to retrieve the previous version of your image.',
+    }
+  }
+
+  const reqData = {
+    contents: contents,
+    generationConfig: {
+      responseModalities: ['TEXT', 'IMAGE'],
+    },
+  }
+
+  // 3 - Editing image
+  let resultImages: ImagenModelResultI[]
   try {
-    const auth = new GoogleAuth({
-      scopes: 'https://www.googleapis.com/auth/cloud-platform',
+    const res = await getGenerationProvider().generateContent(modelVersion, reqData)
+
+    const candidates: GeminiCandidateI[] = res.candidates ?? []
+    if (candidates.length === 0) {
+      const blockReason = res.promptFeedback?.blockReason
+      throw Error(
+        blockReason
+          ? `Your instruction was blocked (${blockReason.replaceAll('_', ' ').toLowerCase()}), please rephrase it`
+          : 'There were an issue, no images were generated'
+      )
+    }
+
+    // A single version is kept per turn
+    resultImages = buildResultsFromCandidates(candidates.slice(0, 1))
+    if (resultImages.every((image) => image.raiFilteredReason)) throw Error(resultImages[0].raiFilteredReason)
+  } catch (error) {
+    console.error(error)
+
+    const myError = error as Error
+    return {
+      error: myError.message ? myError.message : 'An unexpected error occurred.',
+    }
+  }
+
+  // 4 - Creating the new image version
+  try {
+    const [newImage] = await buildImageListFromBase64({
+      imagesBase64: resultImages.filter((image) => !image.raiFilteredReason).slice(0, 1),
+      targetGcsURI: editGcsURI,
+      aspectRatio: formData['ratio'],
+      width: formData['width'],
+      height: formData['height'],
+      usedPrompt: formData['prompt'],
+      userID: appContext?.userID ? appContext?.userID : '',
+      modelVersion: modelVersion,
+      mode: 'Edited',
     })
-    client = await auth.getClient()
+
+    if (!newImage || 'error' in newImage) throw Error('Could not store edited image')
+
+    return newImage
   } catch (error) {
     console.error(error)
     return {
-      error: 'Unable to authenticate your account to access images',
+      error: 'Issue while editing image.',
     }
   }
-  const location = process.env.NEXT_PUBLIC_VERTEX_API_LOCATION
-  const projectId = process.env.NEXT_PUBLIC_PROJECT_ID
-  const imagenAPIurl = `https://${location}-aiplatform.googleapis.com/v1/projects/${projectId}/locations/${location}/publishers/google/models/imagegeneration@002:predict`
+}
+
+export async function upscaleImage(
+  source: { uri: string } | { base64: string },
+  upscaleFactor: string,
+  appContext: appContextDataI | null
+) {
+  return withAuditEvent(
+    {
+      action: 'imageUpscale',
+      parameters: { upscaleFactor: upscaleFactor },
+      sourceUris: 'uri' in source ? [source.uri] : [],
+    },
+    () => runImageUpscale(source, upscaleFactor, appContext),
+    ({ newGcsUri }) => ({ resultUris: [newGcsUri] })
+  )
+}
 
-  // 2 (Opt) Downloading source image
+async function runImageUpscale(
+  source: { uri: string } | { base64: string },
+  upscaleFactor: string,
+  appContext: appContextDataI | null
+) {
+  // 0 - Check the user's role gives access to this feature, upscaling being offered with generated & edited images
+  const user = await getUserWithFeature(['imageGeneration', 'imageEdition'])
+  if ('error' in user) return { error: user.error }
+
+  // 1 (Opt) Downloading source image
   let base64Image
   if ('uri' in source) {
     let res
@@ -644,7 +804,7 @@ export async function upscaleImage(
     base64Image = source.base64
   }
 
-  // 3 - Building Imagen request body
+  // 2 - Building Imagen request body
   let targetGCSuri = ''
   if (
     appContext === undefined ||
@@ -677,25 +837,20 @@ export async function upscaleImage(
       storageUri: targetGCSuri,
     },
   }
-  const opts = {
-    url: imagenAPIurl,
-    method: 'POST',
-    data: reqData,
-  }
 
-  // 4 - Upscaling images
+  // 3 - Upscaling images
   try {
     const timeout = 60000 // ms, 20s
 
     const res = await Promise.race([
-      client.request(opts),
-      new Promise((_, reject) => setTimeout(() => reject(new Error('Upscaling timed out')), timeout)),
+      getGenerationProvider().upscaleImage(reqData),
+      new Promise<never>((_, reject) => setTimeout(() => reject(new Error('Upscaling timed out')), timeout)),
     ])
-    if (res.data.predictions === undefined) {
+    if (res.predictions === undefined) {
       throw Error('There were an issue, images could not be upscaled')
     }
 
-    return { newGcsUri: res.data.predictions[0].gcsUri, mimeType: res.data.predictions[0].mimeType }
+    return { newGcsUri: res.predictions[0].gcsUri, mimeType: res.predictions[0].mimeType }
   } catch (error) {
     console.error(error)
     if ((error as Error).message.includes('Response size too large.'))
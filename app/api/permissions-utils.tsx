@@ -0,0 +1,106 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+export type UserRoleT = 'viewer' | 'creator' | 'reviewer' | 'admin'
+
+export const userRoles: { value: UserRoleT; label: string; description: string }[] = [
+  { value: 'viewer', label: 'Viewer', description: 'Browses the Library' },
+  { value: 'creator', label: 'Creator', description: 'Creates content & shares it in the Library' },
+  {
+    value: 'reviewer',
+    label: 'Reviewer',
+    description: 'Creates content, curates the whole Library & sees its analytics',
+  },
+  { value: 'admin', label: 'Admin', description: 'Has access to every feature & manages user roles' },
+]
+
+export type AppFeatureT =
+  'imageGeneration' | 'videoGeneration' | 'imageEdition' | 'libraryExport' | 'libraryModeration' | 'libraryAnalytics'
+
+export const appFeatures: { value: AppFeatureT; label: string; description: string }[] = [
+  { value: 'imageGeneration', label: 'Image generation', description: 'Generate images with Imagen & Gemini' },
+  { value: 'videoGeneration', label: 'Veo', description: 'Generate videos with Veo' },
+  { value: 'imageEdition', label: 'Edit', description: 'Edit & transform existing images' },
+  { value: 'libraryExport', label: 'Library export', description: 'Export generated content to the Library' },
+  { value: 'libraryModeration', label: 'Library curation', description: 'Edit & delete any Library media' },
+  { value: 'libraryAnalytics', label: 'Analytics', description: 'See what the team generates & exports' },
+]
+
+export type RoleFeaturesT = { [role in UserRoleT]: { [feature in AppFeatureT]: boolean } }
+
+// Used until admins change them, admins always having every feature
+export const defaultRoleFeatures: RoleFeaturesT = {
+  viewer: {
+    imageGeneration: false,
+    videoGeneration: false,
+    imageEdition: false,
+    libraryExport: false,
+    libraryModeration: false,
+    libraryAnalytics: false,
+  },
+  creator: {
+    imageGeneration: true,
+    videoGeneration: true,
+    imageEdition: true,
+    libraryExport: true,
+    libraryModeration: false,
+    libraryAnalytics: false,
+  },
+  reviewer: {
+    imageGeneration: true,
+    videoGeneration: true,
+    imageEdition: true,
+    libraryExport: true,
+    libraryModeration: true,
+    libraryAnalytics: true,
+  },
+  admin: {
+    imageGeneration: true,
+    videoGeneration: true,
+    imageEdition: true,
+    libraryExport: true,
+    libraryModeration: true,
+    libraryAnalytics: true,
+  },
+}
+
+// Role given by an admin to a user, identified by its email address
+export interface UserRoleAssignmentI {
+  email: string
+  role: UserRoleT
+  updatedBy?: string
+  updatedAt?: number
+}
+
+// Identity of the user calling the app, as resolved server-side from IAP
+export interface UserPermissionsI {
+  userID: string
+  email: string
+  role: UserRoleT
+  isAdmin: boolean
+  features: { [feature in AppFeatureT]: boolean }
+}
+
+export const isFeatureEnabled = (
+  user: { features?: Partial<UserPermissionsI['features']> } | null | undefined,
+  feature: AppFeatureT
+) => !!user?.features?.[feature]
+
+// Authors can edit & delete their own Library medias, admins & users allowed to curate the Library can act on any of them
+export const canManageMedia = (
+  user: Partial<Pick<UserPermissionsI, 'userID' | 'isAdmin' | 'features'>> | null | undefined,
+  media: { author?: string }
+) =>
+  !!user &&
+  (user.isAdmin || isFeatureEnabled(user, 'libraryModeration') || (!!user.userID && media.author === user.userID))
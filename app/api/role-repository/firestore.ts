@@ -0,0 +1,50 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { getFirestore } from '../metadata-repository/firestore'
+import { RoleRepositoryI } from './repository'
+
+// One document per user, keyed by email address, features being kept in a single settings document
+export const firestoreRoleRepository: RoleRepositoryI = {
+  getUserRole: async (email) => {
+    const doc = await getFirestore().collection('roles').doc(email).get()
+    if (!doc.exists) return null
+
+    return doc.data()
+  },
+
+  listUserRoles: async () => {
+    const snapshot = await getFirestore().collection('roles').orderBy('email').get()
+    return snapshot.docs.map((doc: any) => doc.data())
+  },
+
+  setUserRole: async (assignment) => {
+    await getFirestore().collection('roles').doc(assignment.email).set(assignment)
+  },
+
+  deleteUserRole: async (email) => {
+    await getFirestore().collection('roles').doc(email).delete()
+  },
+
+  getRoleFeatures: async () => {
+    const doc = await getFirestore().collection('settings').doc('roleFeatures').get()
+    if (!doc.exists) return null
+
+    return doc.data()
+  },
+
+  setRoleFeatures: async (roleFeatures) => {
+    await getFirestore().collection('settings').doc('roleFeatures').set(roleFeatures)
+  },
+}
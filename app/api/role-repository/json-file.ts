@@ -0,0 +1,51 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import path from 'path'
+import { RoleFeaturesT, UserRoleAssignmentI } from '../permissions-utils'
+import { createJsonFileStore } from '../json-file-store'
+import { RoleRepositoryI } from './repository'
+
+// Roles are kept next to the local metadata file, meant for local development
+const rolesFile = path.resolve(process.env.LOCAL_ROLES_FILE ?? path.join(process.cwd(), '.local-storage', 'roles.json'))
+
+interface StoredRolesI {
+  users: { [email: string]: UserRoleAssignmentI }
+  roleFeatures?: RoleFeaturesT
+}
+
+const { read: readRoles, update: updateRoles } = createJsonFileStore<StoredRolesI>(rolesFile, () => ({ users: {} }))
+
+export const jsonFileRoleRepository: RoleRepositoryI = {
+  getUserRole: async (email) => (await readRoles()).users[email] ?? null,
+
+  listUserRoles: async () => Object.values((await readRoles()).users).sort((a, b) => a.email.localeCompare(b.email)),
+
+  setUserRole: (assignment) =>
+    updateRoles((roles) => {
+      roles.users[assignment.email] = assignment
+    }),
+
+  deleteUserRole: (email) =>
+    updateRoles((roles) => {
+      delete roles.users[email]
+    }),
+
+  getRoleFeatures: async () => (await readRoles()).roleFeatures ?? null,
+
+  setRoleFeatures: (roleFeatures) =>
+    updateRoles((roles) => {
+      roles.roleFeatures = roleFeatures
+    }),
+}
@@ -0,0 +1,25 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { RoleFeaturesT, UserRoleAssignmentI } from '../permissions-utils'
+
+// Storage of the roles given to users, and of the features enabled for each role
+export interface RoleRepositoryI {
+  getUserRole: (email: string) => Promise<UserRoleAssignmentI | null>
+  listUserRoles: () => Promise<UserRoleAssignmentI[]>
+  setUserRole: (assignment: UserRoleAssignmentI) => Promise<void>
+  deleteUserRole: (email: string) => Promise<void>
+  getRoleFeatures: () => Promise<Partial<RoleFeaturesT> | null>
+  setRoleFeatures: (roleFeatures: RoleFeaturesT) => Promise<void>
+}
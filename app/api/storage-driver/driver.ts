@@ -0,0 +1,44 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { Readable } from 'stream'
+
+// Medias are always referred to by gs://BUCKET/OBJECT URIs, drivers decide where these objects really live
+export interface StorageDriverI {
+  getSignedUrl: (bucketName: string, objectName: string, expires: number) => Promise<string>
+  exists: (bucketName: string, objectName: string) => Promise<boolean>
+  copy: (
+    sourceBucket: string,
+    sourceObject: string,
+    destinationBucket: string,
+    destinationObject: string
+  ) => Promise<void>
+  download: (bucketName: string, objectName: string) => Promise<Buffer>
+  // Read piece by piece, for files too large to be kept in memory (ex: videos of a ZIP archive)
+  createReadStream: (bucketName: string, objectName: string) => Readable
+  downloadToFile: (bucketName: string, objectName: string, destination: string) => Promise<void>
+  save: (bucketName: string, objectName: string, base64Data: string, contentType: string) => Promise<void>
+  delete: (bucketName: string, objectName: string) => Promise<void>
+}
+
+// Error thrown by drivers, with an HTTP like status when available
+export class StorageDriverError extends Error {
+  status?: number
+
+  constructor(message: string, status?: number) {
+    super(message)
+    this.name = 'StorageDriverError'
+    this.status = status
+  }
+}
@@ -0,0 +1,87 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { StorageDriverError, StorageDriverI } from './driver'
+const { Storage } = require('@google-cloud/storage')
+
+const projectId = process.env.NEXT_PUBLIC_PROJECT_ID
+
+function getFile(bucketName: string, objectName: string) {
+  const storage = new Storage({ projectId })
+  return storage.bucket(bucketName).file(objectName)
+}
+
+function toDriverError(error: any) {
+  return new StorageDriverError(error?.message ?? 'Unknown storage error', error?.code === 404 ? 404 : undefined)
+}
+
+export const gcsDriver: StorageDriverI = {
+  getSignedUrl: async (bucketName, objectName, expires) => {
+    const [url] = await getFile(bucketName, objectName).getSignedUrl({
+      version: 'v4',
+      action: 'read',
+      expires: expires,
+    })
+    return url
+  },
+
+  exists: async (bucketName, objectName) => {
+    const [exists] = await getFile(bucketName, objectName).exists()
+    return exists
+  },
+
+  copy: async (sourceBucket, sourceObject, destinationBucket, destinationObject) => {
+    try {
+      await getFile(sourceBucket, sourceObject).copy(getFile(destinationBucket, destinationObject))
+    } catch (error) {
+      throw toDriverError(error)
+    }
+  },
+
+  download: async (bucketName, objectName) => {
+    try {
+      const [fileBuffer] = await getFile(bucketName, objectName).download()
+      return fileBuffer
+    } catch (error) {
+      throw toDriverError(error)
+    }
+  },
+
+  createReadStream: (bucketName, objectName) => getFile(bucketName, objectName).createReadStream(),
+
+  downloadToFile: async (bucketName, objectName, destination) => {
+    try {
+      await getFile(bucketName, objectName).download({ destination: destination })
+    } catch (error) {
+      throw toDriverError(error)
+    }
+  },
+
+  save: async (bucketName, objectName, base64Data, contentType) => {
+    await getFile(bucketName, objectName).save(Buffer.from(base64Data, 'base64'), {
+      destination: objectName,
+      metadata: {
+        contentType: contentType,
+      },
+    })
+  },
+
+  delete: async (bucketName, objectName) => {
+    try {
+      await getFile(bucketName, objectName).delete()
+    } catch (error) {
+      throw toDriverError(error)
+    }
+  },
+}
@@ -0,0 +1,27 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { StorageDriverI } from './driver'
+import { gcsDriver } from './gcs'
+import { localDriver } from './local'
+
+export { StorageDriverError } from './driver'
+export type { StorageDriverI } from './driver'
+
+// Set STORAGE_DRIVER=local to store medias on local disk instead of Cloud Storage buckets
+export function getStorageDriver(): StorageDriverI {
+  if (process.env.STORAGE_DRIVER === 'local') return localDriver
+
+  return gcsDriver
+}
@@ -0,0 +1,119 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import crypto from 'crypto'
+import { createReadStream } from 'fs'
+import fs from 'fs/promises'
+import path from 'path'
+import { StorageDriverError, StorageDriverI } from './driver'
+
+// Objects are stored as LOCAL_STORAGE_DIR/BUCKET/OBJECT, and served by the signed file route
+const localStorageDir = path.resolve(process.env.LOCAL_STORAGE_DIR ?? path.join(process.cwd(), '.local-storage'))
+const localStorageSecret = process.env.LOCAL_STORAGE_SECRET ?? 'img-studio-local-storage'
+const localFileRoute = '/api/cloud-storage/file'
+
+const contentTypes: { [key: string]: string } = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.mp4': 'video/mp4',
+  '.json': 'application/json',
+}
+
+export function getLocalFilePath(bucketName: string, objectName: string) {
+  const filePath = path.resolve(localStorageDir, bucketName, objectName)
+
+  // Prevents URIs from escaping the storage folder
+  if (!bucketName || !objectName || !filePath.startsWith(localStorageDir + path.sep))
+    throw new StorageDriverError(`Invalid object path gs://${bucketName}/${objectName}`, 400)
+
+  return filePath
+}
+
+export function getLocalContentType(objectName: string) {
+  return contentTypes[path.extname(objectName).toLowerCase()] ?? 'application/octet-stream'
+}
+
+function signLocalUri(uri: string, expires: number) {
+  return crypto.createHmac('sha256', localStorageSecret).update(`${uri}:${expires}`).digest('hex')
+}
+
+export function isLocalTokenValid(uri: string, expires: number, token: string) {
+  if (!expires || expires < Date.now()) return false
+
+  const expected = new TextEncoder().encode(signLocalUri(uri, expires))
+  const received = new TextEncoder().encode(token)
+
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received)
+}
+
+async function handleNotFound<T>(operation: () => Promise<T>, uri: string) {
+  try {
+    return await operation()
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') throw new StorageDriverError(`File ${uri} not found`, 404)
+    throw error
+  }
+}
+
+export const localDriver: StorageDriverI = {
+  getSignedUrl: async (bucketName, objectName, expires) => {
+    const uri = `gs://${bucketName}/${objectName}`
+    const params = new URLSearchParams({
+      uri: uri,
+      expires: expires.toString(),
+      token: signLocalUri(uri, expires),
+    })
+
+    return `${localFileRoute}?${params.toString()}`
+  },
+
+  exists: async (bucketName, objectName) => {
+    try {
+      await fs.access(getLocalFilePath(bucketName, objectName))
+      return true
+    } catch (error) {
+      return false
+    }
+  },
+
+  copy: (sourceBucket, sourceObject, destinationBucket, destinationObject) =>
+    handleNotFound(async () => {
+      const destination = getLocalFilePath(destinationBucket, destinationObject)
+      await fs.mkdir(path.dirname(destination), { recursive: true })
+      await fs.copyFile(getLocalFilePath(sourceBucket, sourceObject), destination)
+    }, `gs://${sourceBucket}/${sourceObject}`),
+
+  download: (bucketName, objectName) =>
+    handleNotFound(() => fs.readFile(getLocalFilePath(bucketName, objectName)), `gs://${bucketName}/${objectName}`),
+
+  createReadStream: (bucketName, objectName) => createReadStream(getLocalFilePath(bucketName, objectName)),
+
+  downloadToFile: (bucketName, objectName, destination) =>
+    handleNotFound(
+      () => fs.copyFile(getLocalFilePath(bucketName, objectName), destination),
+      `gs://${bucketName}/${objectName}`
+    ),
+
+  save: async (bucketName, objectName, base64Data) => {
+    const filePath = getLocalFilePath(bucketName, objectName)
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, base64Data, 'base64')
+  },
+
+  delete: (bucketName, objectName) =>
+    handleNotFound(() => fs.unlink(getLocalFilePath(bucketName, objectName)), `gs://${bucketName}/${objectName}`),
+}
@@ -14,7 +14,8 @@
 
 'use server'
 
-import { decomposeUri, getSignedURL, uploadBase64Image } from '../cloud-storage/action'
+import { decomposeUri, getSignedURL, uploadBase64Image } from '../cloud-storage/storage'
+import { addNewVideoJob, getVideoJob, updateVideoJob } from './jobs'
 import { appContextDataI } from '../../context/app-context'
 import {
   GenerateVideoFormI,
@@ -29,8 +30,12 @@ import {
   BuildVideoListParams,
   ProcessedVideoResult,
   cameraPresetsOptions,
+  getJobIdFromOperationName,
 } from '../generate-video-utils'
-const { GoogleAuth } = require('google-auth-library')
+import { getGenerationProvider, GenerationProviderError } from '../generation-provider'
+import { getUserWithFeature } from '../google-auth/identity'
+import { isResourceExhaustedError } from '../generation-provider/provider'
+import { recordAuditEvent, withAuditEvent } from '../audit-log/record'
 
 function normalizeSentence(sentence: string) {
   // Split the sentence into individual words
@@ -69,29 +74,29 @@ function cleanResult(inputString: string) {
 
 const customRateLimitMessage = 'Oops, too many incoming access right now, please try again later!'
 
-function isResourceExhaustedError(source: any) {
-  if (!source) return false
-
-  let message = ''
-  let code = null
-
-  if (typeof source === 'string') {
-    message = source.toLowerCase()
-    if (message.includes('code: 8') || message.includes('code === 8')) code = 8
-  } else if (typeof source === 'object' && source !== null) {
-    message = String(source.message || '').toLowerCase()
-    code = source.code
-  } else return false
-
-  if (
-    (code === 8 && message.includes('resource exhausted')) ||
-    message.includes("{ code: 8, message: 'resource exhausted.' }") ||
-    (message.includes('resource exhausted') &&
-      (code === 8 || message.includes('code: 8') || message.includes('code === 8')))
+// Keeps the persisted job & the audit log in sync with the final state of its operation
+async function recordJobResult(
+  operationName: string,
+  formData: GenerateVideoFormI,
+  result: VideoGenerationStatusResult
+) {
+  const res = await updateVideoJob(
+    getJobIdFromOperationName(operationName),
+    result.error ? { status: 'failed', error: result.error } : { status: 'done', videos: result.videos ?? [] }
   )
-    return true
+  if (typeof res === 'object' && 'error' in res) console.error(`Could not update job of ${operationName}:`, res.error)
+
+  await recordAuditEvent({
+    action: 'videoGenerationResult',
+    model: formData.modelVersion,
+    parameters: { operationName: operationName },
+    resultUris: (result.videos ?? [])
+      .flatMap(({ gcsUri, thumbnailGcsUri }) => [gcsUri, thumbnailGcsUri])
+      .filter(Boolean),
+    error: result.error,
+  })
 
-  return false
+  return result
 }
 
 function generatePrompt(formData: any) {
@@ -230,7 +235,22 @@ export async function generateVideo(
   formData: GenerateVideoFormI,
   appContext: appContextDataI | null
 ): Promise<GenerateVideoInitiationResult | ErrorResult> {
-  // 0 - Check requested features
+  return withAuditEvent(
+    { action: 'videoGeneration', model: formData.modelVersion, parameters: formData },
+    () => runVideoGeneration(formData, appContext),
+    ({ operationName }) => ({ parameters: { operationName: operationName } })
+  )
+}
+
+async function runVideoGeneration(
+  formData: GenerateVideoFormI,
+  appContext: appContextDataI | null
+): Promise<GenerateVideoInitiationResult | ErrorResult> {
+  // 0 - Check the user's role gives access to Veo
+  const user = await getUserWithFeature('videoGeneration')
+  if ('error' in user) return user
+
+  // 0b - Check requested features
   const hasInterpolImageFirst =
     formData.interpolImageFirst &&
     formData.interpolImageFirst.base64Image !== '' &&
@@ -244,26 +264,10 @@ export async function generateVideo(
   const isInterpolation = hasInterpolImageFirst && hasInterpolImageLast
   const isCameraPreset = formData.cameraPreset !== ''
 
-  // 1 - Authenticate to Google Cloud
-  let client
-  try {
-    const auth = new GoogleAuth({
-      scopes: 'https://www.googleapis.com/auth/cloud-platform',
-    })
-    client = await auth.getClient()
-  } catch (error) {
-    console.error('Authentication Error:', error)
-    return { error: 'Unable to authenticate your account to access video generation.' }
-  }
-
-  const location = 'us-central1' //TODO temp - update when not in Preview anymore
-  const projectId = process.env.NEXT_PUBLIC_PROJECT_ID
+  // 1 - Select the model
   let modelVersion = formData.modelVersion || GenerateVideoFormFields.modelVersion.default
   if (isInterpolation || isCameraPreset) modelVersion = 'veo-2.0-generate-exp' //TODO temp - update when not in Preview anymore
 
-  // Construct the API URL for initiating long-running video generation
-  const videoAPIUrl = `https://${location}-aiplatform.googleapis.com/v1/projects/${projectId}/locations/${location}/publishers/google/models/${modelVersion}:predictLongRunning`
-
   // 2 - Build the prompt
   let fullPrompt: string | ErrorResult
   if (formData.prompt !== '') fullPrompt = generatePrompt(formData)
@@ -376,22 +380,21 @@ export async function generateVideo(
     }
   }
 
-  // 6 - Prepare HTTP request options
-  const opts = {
-    url: videoAPIUrl,
-    method: 'POST',
-    data: reqData,
-  }
-
-  // 7 - Initiate video generation request
+  // 6 - Initiate video generation request
   try {
-    const res = await client.request(opts)
+    const res = await getGenerationProvider().startVideoGeneration(modelVersion, reqData)
 
-    // a. Handle successful response
-    if (res.data?.name) return { operationName: res.data.name, prompt: fullPrompt as string }
+    // a. Handle successful response, and persist the job so polling can be resumed if the user leaves the page
+    if (res?.name) {
+      const jobRes = await addNewVideoJob(res.name, { formData: formData, prompt: fullPrompt as string }, user.userID)
+      // An untracked job can't be polled, its result would never reach the user
+      if (typeof jobRes === 'object' && 'error' in jobRes) return { error: jobRes.error }
+
+      return { operationName: res.name, prompt: fullPrompt as string }
+    }
 
     // b. Handle API-returned error (non-exception, structured error in response body)
-    const apiError = res.data?.error
+    const apiError = res?.error
     if (apiError) {
       if (isResourceExhaustedError(apiError)) return { error: customRateLimitMessage }
 
@@ -402,27 +405,14 @@ export async function generateVideo(
 
     // c. Fallback for other unexpected response structures from the API call (not an exception)
     return { error: 'Video initiation failed: Unknown error structure in response data.' }
-  } catch (error: any) {
-    // Log the raw error for debugging
-    console.error('Video Generation Request Error:', error.response?.data || error.message || error)
-    const nestedError = error.response?.data?.error
+  } catch (error) {
+    console.error('Video Generation Request Error:', error)
 
     // Handle specific HTTP status codes that often mean rate limiting or server overload
-    if (
-      error.response?.status === 429 ||
-      error.response?.status === 503 ||
-      isResourceExhaustedError(error) ||
-      isResourceExhaustedError(nestedError) ||
-      isResourceExhaustedError(error.response?.data) ||
-      (error.errors &&
-        Array.isArray(error.errors) &&
-        error.errors.length > 0 &&
-        isResourceExhaustedError(error.errors[0]))
-    )
-      return { error: customRateLimitMessage }
+    if (error instanceof GenerationProviderError && error.isRateLimit) return { error: customRateLimitMessage }
 
     // Handle HTTP 400 (Bad Request) specifically, if not a resource exhaustion error
-    if (error.response?.status === 400)
+    if (error instanceof GenerationProviderError && error.status === 400)
       return { error: 'Bad request: There was an issue with the request parameters for video generation.' }
 
     // Generic error message if none of the above specific conditions were met
@@ -431,52 +421,20 @@ export async function generateVideo(
 }
 
 // Polls the status of a long-running video generation operation.
-export async function getVideoGenerationStatus(
-  operationName: string,
-  appContext: appContextDataI | null,
-  formData: GenerateVideoFormI,
-  passedPrompt: string
-): Promise<VideoGenerationStatusResult> {
-  // 1 - Authenticate to Google Cloud
-  let client
-  try {
-    const auth = new GoogleAuth({ scopes: 'https://www.googleapis.com/auth/cloud-platform' })
-    client = await auth.getClient()
-  } catch (error) {
-    console.error('Polling Authentication Error:', error)
-    return { done: true, error: 'Unable to authenticate for polling status.' }
-  }
+export async function getVideoGenerationStatus(operationName: string): Promise<VideoGenerationStatusResult> {
+  // 0 - Only the user who started the job can follow it, while still given access to this feature
+  const user = await getUserWithFeature('videoGeneration')
+  if ('error' in user) return { done: true, error: user.error }
 
-  // 2 - Build polling request
-  // Extract project ID, location, model ID from operationName
-  // Example operationName: projects/PROJECT_ID/locations/LOCATION_ID/publishers/google/models/MODEL_ID/operations/OPERATION_ID
-  const parts = operationName.split('/')
-  if (parts.length < 8) {
-    console.error(`Invalid operationName format: ${operationName}`)
-    return { done: true, error: 'Invalid operation name format.' }
-  }
-  const projectId = parts[1]
-  const location = parts[3]
-  const modelId = parts[7]
-
-  const pollingAPIUrl = `https://${location}-aiplatform.googleapis.com/v1/projects/${projectId}/locations/${location}/publishers/google/models/${modelId}:fetchPredictOperation`
-
-  const opts = {
-    url: pollingAPIUrl,
-    method: 'POST',
-    data: {
-      operationName: operationName,
-    },
-    headers: {
-      'Content-Type': 'application/json',
-    },
-  }
+  const job = await getVideoJob(getJobIdFromOperationName(operationName))
+  if (!job || job.author !== user.userID) return { done: true, error: `Operation ${operationName} not found.` }
 
-  // 3 - Poll for status of video generation operation
-  try {
-    const res = await client.request(opts)
+  // Generation parameters are the ones stored with the job when it was started
+  const { formData, prompt } = job.metadata
 
-    const pollingData: PollingResponse = res.data // Assuming PollingResponse matches LRO Get response
+  // 1 - Poll for status of video generation operation
+  try {
+    const pollingData: PollingResponse = await getGenerationProvider().getVideoOperation(operationName)
 
     if (!pollingData.done) return { done: false, name: operationName }
     else {
@@ -487,15 +445,18 @@ export async function getVideoGenerationStatus(
           typeof pollingData.error.message === 'string' &&
           pollingData.error.message.toLowerCase().includes('resource exhausted')
         )
-          return { done: true, error: customRateLimitMessage }
+          return recordJobResult(operationName, formData, { done: true, error: customRateLimitMessage })
 
         if (
           typeof pollingData.error.message === 'string' &&
           pollingData.error.message.includes("{ code: 8, message: 'Resource exhausted.' }")
         )
-          return { done: true, error: customRateLimitMessage }
+          return recordJobResult(operationName, formData, { done: true, error: customRateLimitMessage })
 
-        return { done: true, error: pollingData.error.message || 'Video generation failed.' }
+        return recordJobResult(operationName, formData, {
+          done: true,
+          error: pollingData.error.message || 'Video generation failed.',
+        })
       } else if (pollingData.response && pollingData.response.videos) {
         const rawVideoResults = pollingData.response.videos.map((video: any) => ({
           gcsUri: video.gcsUri,
@@ -511,51 +472,37 @@ export async function getVideoGenerationStatus(
           duration: parseInt(formData.durationSeconds, 10),
           width: usedRatio?.width ?? 1280,
           height: usedRatio?.height ?? 720,
-          usedPrompt: passedPrompt,
-          userID: appContext?.userID || '',
+          usedPrompt: prompt,
+          userID: user.userID,
           modelVersion: formData.modelVersion,
           mode: 'Generated',
         })
-        return { done: true, videos: enhancedVideoList }
+        return recordJobResult(operationName, formData, { done: true, videos: enhancedVideoList })
       } else {
         console.error(`Operation ${operationName} finished, but response format is unexpected.`, pollingData)
-        return { done: true, error: 'Operation finished, but the response was not in the expected format.' }
+        return recordJobResult(operationName, formData, {
+          done: true,
+          error: 'Operation finished, but the response was not in the expected format.',
+        })
       }
     }
-  } catch (error: any) {
-    if (error.response?.status === 404) {
-      console.error(`Polling Error 404 for ${operationName}: Operation not found at ${pollingAPIUrl}`)
-      return { done: true, error: `Operation ${operationName} not found. It might have expired or never existed.` }
+  } catch (error) {
+    if (error instanceof GenerationProviderError && error.status === 404) {
+      console.error(`Polling Error 404 for ${operationName}: Operation not found`)
+      return recordJobResult(operationName, formData, {
+        done: true,
+        error: `Operation ${operationName} not found. It might have expired or never existed.`,
+      })
     }
-    if (error.response?.status === 429 || error.response?.status === 503)
-      return { done: true, error: customRateLimitMessage }
-
-    console.error(`Polling Error for ${operationName}:`, error.response?.data || error.message)
-    let errorMessage = 'An error occurred while polling the video generation status.'
-    const nestedError = error.response?.data?.error
-    if (nestedError) {
-      if (
-        nestedError.code === 8 &&
-        typeof nestedError.message === 'string' &&
-        nestedError.message.toLowerCase().includes('resource exhausted')
-      )
-        return { done: true, error: customRateLimitMessage }
+    // Being rate limited while polling doesn't mean the generation failed, the job is polled again later
+    if (error instanceof GenerationProviderError && error.isRateLimit) return { done: false, name: operationName }
 
-      if (
-        typeof nestedError.message === 'string' &&
-        nestedError.message.includes("{ code: 8, message: 'Resource exhausted.' }")
-      )
-        return { done: true, error: customRateLimitMessage }
-
-      if (nestedError.message) errorMessage = nestedError.message
-    } else if (error instanceof Error && error.message) {
-      // Check error.message directly
-      errorMessage = error.message
-      // More robust check for resource exhausted in generic error message
-      if (errorMessage.toLowerCase().includes('resource exhausted') && errorMessage.includes('code: 8')) {
-        return { done: true, error: customRateLimitMessage }
-      }
-    }
-    return { done: true, error: errorMessage }
+    console.error(`Polling Error for ${operationName}:`, error)
+    const errorMessage =
+      error instanceof Error && error.message
+        ? error.message
+        : 'An error occurred while polling the video generation status.'
+
+    return recordJobResult(operationName, formData, { done: true, error: errorMessage })
   }
 }
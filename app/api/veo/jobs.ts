@@ -0,0 +1,108 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { getSignedURL } from '../cloud-storage/storage'
+import {
+  getJobIdFromOperationName,
+  OperationMetadataI,
+  VideoI,
+  VideoJobI,
+  VideoJobStatusT,
+} from '../generate-video-utils'
+import { getJobRepository } from '../job-repository'
+
+// Not a server actions module, so that jobs can only be written by the server itself, and read for the authenticated user
+
+export async function addNewVideoJob(operationName: string, metadata: OperationMetadataI, author: string) {
+  const jobID = getJobIdFromOperationName(operationName)
+
+  // Input images are not needed to process the polling result and could exceed Firestore document size limit
+  const { formData } = metadata
+  const lightFormData = {
+    ...formData,
+    interpolImageFirst: { ...formData.interpolImageFirst, base64Image: '' },
+    interpolImageLast: { ...formData.interpolImageLast, base64Image: '' },
+  }
+
+  try {
+    await getJobRepository().add(jobID, {
+      operationName: operationName,
+      metadata: { ...metadata, formData: lightFormData },
+      status: 'pending',
+      author: author,
+    })
+    return jobID
+  } catch (error) {
+    console.error(error)
+    return {
+      error: 'Error while saving video generation job to database.',
+    }
+  }
+}
+
+export async function updateVideoJob(
+  jobID: string,
+  update: { status: VideoJobStatusT; videos?: VideoI[]; error?: string }
+): Promise<boolean | { error: string }> {
+  try {
+    await getJobRepository().update(jobID, update)
+    return true
+  } catch (error) {
+    console.error(error)
+    return {
+      error: 'Error while updating video generation job in database.',
+    }
+  }
+}
+
+export async function listUserVideoJobs(userID: string, maxJobs = 20): Promise<VideoJobI[] | { error: string }> {
+  try {
+    const jobs = await getJobRepository().listUserJobs(userID, maxJobs)
+
+    return await Promise.all(
+      jobs.map(async (job) => {
+        if (!job.videos) return job
+
+        // Signed URLs stored with the job have expired, they are renewed for each fetch
+        const videos = await Promise.all(
+          job.videos.map(async (video) => {
+            const signedURL = await getSignedURL(video.gcsUri)
+            return { ...video, src: typeof signedURL === 'string' ? signedURL : '' }
+          })
+        )
+        return { ...job, videos: videos }
+      })
+    )
+  } catch (error) {
+    console.error(error)
+    return {
+      error: 'Error while fetching video generation jobs',
+    }
+  }
+}
+
+export async function getVideoJob(jobID: string): Promise<VideoJobI | null> {
+  return getJobRepository().get(jobID)
+}
+
+export async function listPendingVideoJobs(userID: string): Promise<VideoJobI[] | { error: string }> {
+  try {
+    return await getJobRepository().listPendingJobs(userID)
+  } catch (error) {
+    console.error(error)
+    return {
+      error: 'Error while fetching pending video generation jobs',
+    }
+  }
+}
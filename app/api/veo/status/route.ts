@@ -0,0 +1,152 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { NextRequest, NextResponse } from 'next/server'
+
+import { getVideoGenerationStatus } from '../action'
+import { listPendingVideoJobs } from '../jobs'
+import { getCurrentUser } from '../../google-auth/identity'
+import {
+  getNextPollingDelay,
+  INITIAL_POLLING_INTERVAL_MS,
+  VideoJobDoneEventI,
+  VideoJobI,
+  VideoJobProgressEventI,
+} from '../../generate-video-utils'
+
+export const dynamic = 'force-dynamic'
+
+const JOBS_REFRESH_INTERVAL_MS = 5000
+const HEARTBEAT_INTERVAL_MS = 15000
+const LOOP_INTERVAL_MS = 1000
+const CLIENT_RETRY_MS = 5000
+// Kept under Cloud Run request timeout, the browser's EventSource reconnects by itself once the stream is closed
+const MAX_STREAM_DURATION_MS = 4 * 60 * 1000
+
+interface PolledJobI {
+  job: VideoJobI
+  attempts: number
+  interval: number
+  nextPollAt: number
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Streams progress and completion events of all the current user's pending video jobs over a single SSE connection
+export async function GET(req: NextRequest) {
+  const user = await getCurrentUser()
+  if (!user) return NextResponse.json({ error: 'Authentication error' }, { status: 401 })
+  const { userID } = user
+
+  const encoder = new TextEncoder()
+  let isClosed = false
+  req.signal.addEventListener('abort', () => (isClosed = true))
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const write = (chunk: string) => !isClosed && controller.enqueue(encoder.encode(chunk))
+      const send = (event: string, data: VideoJobProgressEventI | VideoJobDoneEventI | { error?: string }) =>
+        write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+
+      const polledJobs = new Map<string, PolledJobI>()
+      const reportedJobIDs = new Set<string>()
+      const startedAt = Date.now()
+      let lastRefreshAt = 0
+      let lastMessageAt = startedAt
+
+      write(`retry: ${CLIENT_RETRY_MS}\n\n`)
+
+      try {
+        while (!isClosed && Date.now() - startedAt < MAX_STREAM_DURATION_MS) {
+          // 1 - Pick up jobs started since last refresh
+          if (Date.now() - lastRefreshAt >= JOBS_REFRESH_INTERVAL_MS) {
+            lastRefreshAt = Date.now()
+
+            const pendingJobs = await listPendingVideoJobs(userID)
+            if (!Array.isArray(pendingJobs)) throw Error(pendingJobs.error)
+
+            pendingJobs
+              .filter((job) => !polledJobs.has(job.id) && !reportedJobIDs.has(job.id))
+              .forEach((job) =>
+                polledJobs.set(job.id, {
+                  job: job,
+                  attempts: 0,
+                  interval: INITIAL_POLLING_INTERVAL_MS,
+                  nextPollAt: Math.max(lastRefreshAt, job.createdAt + INITIAL_POLLING_INTERVAL_MS),
+                })
+              )
+
+            // Nothing left to track, the client closes the connection
+            if (polledJobs.size === 0) {
+              send('idle', {})
+              break
+            }
+          }
+
+          // 2 - Poll the status of due jobs
+          for (const [id, polledJob] of Array.from(polledJobs)) {
+            if (isClosed || polledJob.nextPollAt > Date.now()) continue
+
+            const { job } = polledJob
+            polledJob.attempts++
+
+            const statusResult = await getVideoGenerationStatus(job.operationName)
+
+            if (statusResult.done) {
+              polledJobs.delete(id)
+              reportedJobIDs.add(id)
+              send('done', {
+                id: id,
+                operationName: job.operationName,
+                videos: statusResult.videos,
+                error: statusResult.error,
+              })
+            } else {
+              const { delay, nextInterval } = getNextPollingDelay(polledJob.interval)
+              polledJob.interval = nextInterval
+              polledJob.nextPollAt = Date.now() + delay
+              send('progress', { id: id, attempts: polledJob.attempts, elapsedMs: Date.now() - job.createdAt })
+            }
+            lastMessageAt = Date.now()
+          }
+
+          // 3 - Keep the connection open through proxies
+          if (Date.now() - lastMessageAt >= HEARTBEAT_INTERVAL_MS) {
+            write(': heartbeat\n\n')
+            lastMessageAt = Date.now()
+          }
+
+          await sleep(LOOP_INTERVAL_MS)
+        }
+      } catch (error) {
+        console.error(error)
+        send('stream-error', { error: 'Error while tracking video generation status' })
+      } finally {
+        if (!isClosed) controller.close()
+        isClosed = true
+      }
+    },
+    cancel() {
+      isClosed = true
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  })
+}
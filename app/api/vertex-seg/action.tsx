@@ -14,7 +14,8 @@
 
 'use server'
 
-const { GoogleAuth } = require('google-auth-library')
+import { getGenerationProvider } from '../generation-provider'
+import { getUserWithFeature } from '../google-auth/identity'
 
 export async function segmentImage(
   imageBase64: string,
@@ -23,25 +24,11 @@ export async function segmentImage(
   promptSelection: string,
   maskImage: string
 ) {
-  // 1 - Atempting to authent to Google Cloud & fetch project informations
-  let client
-  try {
-    const auth = new GoogleAuth({
-      scopes: 'https://www.googleapis.com/auth/cloud-platform',
-    })
-    client = await auth.getClient()
-  } catch (error) {
-    console.error(error)
-    return {
-      error: 'Unable to authenticate your account to access model',
-    }
-  }
-  const location = process.env.NEXT_PUBLIC_VERTEX_API_LOCATION
-  const projectId = process.env.NEXT_PUBLIC_PROJECT_ID
-  const modelVersion = process.env.NEXT_PUBLIC_SEG_MODEL
-  const segAPIurl = `https://${location}-aiplatform.googleapis.com/v1/projects/${projectId}/locations/${location}/publishers/google/models/${modelVersion}:predict`
+  // 0 - Check the user's role gives access to this feature
+  const user = await getUserWithFeature('imageEdition')
+  if ('error' in user) return user
 
-  // 2 - Building Imagen request body
+  // 1 - Building Imagen request body
   const reqData = {
     instances: [
       {
@@ -68,22 +55,16 @@ export async function segmentImage(
     }
   }
 
-  const opts = {
-    url: segAPIurl,
-    method: 'POST',
-    data: reqData,
-  }
-
-  // 3 - Segment image
+  // 2 - Segment image
   try {
-    const res = await client.request(opts)
+    const res = await getGenerationProvider().segmentImage(reqData)
 
-    if (res.data.predictions === undefined) {
+    if (res.predictions === undefined) {
       throw Error('There were an issue, no segmentation were done')
     }
 
     console.log('Image segmented with success')
-    let segmentation = res.data.predictions[0].bytesBase64Encoded
+    let segmentation = res.predictions[0].bytesBase64Encoded
 
     if (!segmentation.startsWith('data:')) segmentation = `data:image/png;base64,${segmentation}`
 
@@ -15,12 +15,22 @@
 'use client'
 
 import { createContext, useState, useEffect, useContext } from 'react'
-import { exportStandardFields, ExportMediaFormFieldsI } from '../api/export-utils'
+import {
+  exportStandardFields,
+  ExportMediaFormFieldsI,
+  formatExportFieldError,
+  parseExportFields,
+} from '../api/export-utils'
 import { fetchJsonFromStorage } from '../api/cloud-storage/action'
+import { fetchUserPermissions } from '../api/google-auth/action'
+import { UserPermissionsI, UserRoleT } from '../api/permissions-utils'
 
 export interface appContextDataI {
   gcsURI?: string
   userID?: string
+  role?: UserRoleT
+  isAdmin?: boolean
+  features?: UserPermissionsI['features']
   exportMetaOptions?: ExportMediaFormFieldsI
   isLoading: boolean
   imageToEdit?: string
@@ -39,6 +49,7 @@ interface AppContextType {
 export const appContextDataDefault = {
   gcsURI: '',
   userID: '',
+  isAdmin: false,
   exportMetaOptions: undefined,
   isLoading: true,
   imageToEdit: '',
@@ -111,23 +122,36 @@ export function ContextProvider({ children }: { children: React.ReactNode }) {
           fetchedUserID = targetPrincipal
         }
 
+        // 1b. Fetch user's role & the features it gives access to, from its IAP identity
+        const permissions = await fetchUserPermissions()
+        if ('error' in permissions) throw Error(permissions.error)
+
         // 2. Set GCS URI for all edited/ generated images
         let gcsURI = `gs://${process.env.NEXT_PUBLIC_OUTPUT_BUCKET}`
 
         // 3. Check if export metadata options file exists
-        let exportMetaOptions: any = {}
+        let exportMetaOptionsFile: unknown
         const exportMetaOptionsURI = process.env.NEXT_PUBLIC_EXPORT_FIELDS_OPTIONS_URI
         try {
-          exportMetaOptions = await fetchJsonFromStorage(exportMetaOptionsURI)
-          if (!exportMetaOptions) throw Error('Not found')
+          exportMetaOptionsFile = await fetchJsonFromStorage(exportMetaOptionsURI)
+          if (!exportMetaOptionsFile) throw Error('Not found')
         } catch (error) {
           throw Error('Could not fetch export metadata options')
         }
+
+        // 3b. Only keep fields matching the schema, broken ones are reported without preventing the app from loading
+        const { fields: exportMetaOptions, errors: exportMetaOptionsErrors } = parseExportFields(exportMetaOptionsFile)
+        exportMetaOptionsErrors.forEach((error) =>
+          console.error(`Ignored invalid export metadata field ${formatExportFieldError(error)}`)
+        )
         const ExportImageFormFields: ExportMediaFormFieldsI = { ...exportStandardFields, ...exportMetaOptions }
 
         // 4. Update Context with all fetched data
         setAppContext({
           userID: fetchedUserID,
+          role: permissions.role,
+          isAdmin: permissions.isAdmin,
+          features: permissions.features,
           gcsURI: gcsURI?.toString(),
           exportMetaOptions: ExportImageFormFields,
           isLoading: false,
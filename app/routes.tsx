@@ -12,23 +12,61 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-export const pages = {
+import { AppFeatureT } from './api/permissions-utils'
+
+// Pages are only accessible to users whose role gives access to one of their features
+export const pages: {
+  [page: string]: {
+    name: string
+    description: string
+    href: string
+    status: string | undefined
+    features: AppFeatureT[]
+    isAdminOnly?: boolean
+  }
+} = {
   Generate: {
     name: 'Generate',
     description: 'Create new content from scratch or with references',
     href: '/generate',
     status: 'true',
+    features: ['imageGeneration', 'videoGeneration'],
   },
   Edit: {
     name: 'Edit',
     description: 'Import, edit and transform existing content',
     href: '/edit',
     status: process.env.NEXT_PUBLIC_EDIT_ENABLED,
+    features: ['imageEdition'],
   },
   Library: {
     name: 'Browse',
     description: "Explore shared creations from your team's Library",
     href: '/library',
     status: 'true',
+    features: [],
+  },
+  Analytics: {
+    name: 'Analytics',
+    description: 'See what the team generates & exports to the Library',
+    href: '/analytics',
+    status: 'true',
+    features: ['libraryAnalytics'],
+  },
+  Admin: {
+    name: 'Admin',
+    description: 'Manage user roles, the features they give access to & export fields',
+    href: '/admin',
+    status: 'true',
+    features: [],
+    isAdminOnly: true,
+  },
+  Audit: {
+    name: 'Audit log',
+    description: 'Search who generated, edited, exported & deleted which medias',
+    href: '/audit',
+    status: 'true',
+    features: [],
+    isAdminOnly: true,
   },
 }
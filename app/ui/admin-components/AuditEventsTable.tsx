@@ -0,0 +1,108 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+'use client'
+
+import * as React from 'react'
+import { Link, Stack, Table, TableBody, TableCell, TableHead, TableRow, Typography } from '@mui/material'
+
+import theme from '../../theme'
+import { auditActions, AuditEventI } from '../../api/audit-utils'
+const { palette } = theme
+
+const AssetLinks = ({
+  label,
+  assets,
+  onAssetSelect,
+}: {
+  label: string
+  assets: string[]
+  onAssetSelect: (asset: string) => void
+}) =>
+  assets.length === 0 ? null : (
+    <Typography variant="body2" sx={{ fontSize: '0.8rem', wordBreak: 'break-all' }}>
+      <span style={{ color: palette.text.secondary }}>{`${label}: `}</span>
+      {assets.map((asset, index) => (
+        <React.Fragment key={asset}>
+          {index > 0 && ', '}
+          <Link component="button" type="button" onClick={() => onAssetSelect(asset)} sx={{ textAlign: 'left' }}>
+            {asset}
+          </Link>
+        </React.Fragment>
+      ))}
+    </Typography>
+  )
+
+// Medias can be clicked to look for every event about them, ex: who generated a media exported to the Library
+export default function AuditEventsTable({
+  events,
+  onAssetSelect,
+}: {
+  events: AuditEventI[]
+  onAssetSelect: (asset: string) => void
+}) {
+  return (
+    <Table size="small">
+      <TableHead>
+        <TableRow>
+          <TableCell sx={{ fontWeight: 500 }}>{'Date'}</TableCell>
+          <TableCell sx={{ fontWeight: 500 }}>{'User'}</TableCell>
+          <TableCell sx={{ fontWeight: 500 }}>{'Action'}</TableCell>
+          <TableCell sx={{ fontWeight: 500 }}>{'Outcome'}</TableCell>
+          <TableCell sx={{ fontWeight: 500 }}>{'Medias'}</TableCell>
+          <TableCell sx={{ fontWeight: 500 }}>{'Parameters'}</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {events.map((event) => (
+          <TableRow key={event.id} sx={{ verticalAlign: 'top' }}>
+            <TableCell sx={{ whiteSpace: 'nowrap' }}>{new Date(event.timestamp).toLocaleString('en-US')}</TableCell>
+            <TableCell>{event.email}</TableCell>
+            <TableCell>
+              {auditActions.find(({ value }) => value === event.action)?.label ?? event.action}
+              {event.model && (
+                <Typography variant="body2" color={palette.text.secondary} sx={{ fontSize: '0.8rem' }}>
+                  {event.model}
+                </Typography>
+              )}
+            </TableCell>
+            <TableCell sx={{ color: event.outcome === 'failure' ? palette.error.main : palette.success.main }}>
+              {event.outcome === 'failure' ? 'Failure' : 'Success'}
+              {event.error && (
+                <Typography variant="body2" color={palette.text.secondary} sx={{ fontSize: '0.8rem' }}>
+                  {event.error}
+                </Typography>
+              )}
+            </TableCell>
+            <TableCell sx={{ maxWidth: 420 }}>
+              <Stack direction="column" gap={0.5}>
+                <AssetLinks label="Library IDs" assets={event.mediaIds} onAssetSelect={onAssetSelect} />
+                <AssetLinks label="From" assets={event.sourceUris} onAssetSelect={onAssetSelect} />
+                <AssetLinks label="Result" assets={event.resultUris} onAssetSelect={onAssetSelect} />
+              </Stack>
+            </TableCell>
+            <TableCell
+              sx={{ maxWidth: 360, fontSize: '0.8rem', color: palette.text.secondary, wordBreak: 'break-word' }}
+            >
+              {Object.entries(event.parameters)
+                .filter(([, value]) => value !== '' && value !== null)
+                .map(([name, value]) => `${name}: ${value}`)
+                .join(', ')}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
@@ -0,0 +1,157 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+'use client'
+
+import * as React from 'react'
+import { useState } from 'react'
+import { Button, MenuItem, Stack, TextField } from '@mui/material'
+import { Search } from '@mui/icons-material'
+
+import { auditActions, AuditActionT, AuditOutcomeT, AuditSearchI } from '../../api/audit-utils'
+import { CustomizedSendButton } from '../ux-components/Button-SX'
+
+interface AuditSearchFormValuesI {
+  email: string
+  action: AuditActionT | ''
+  outcome: AuditOutcomeT | ''
+  asset: string
+  from: string
+  to: string
+}
+
+// Dates are whole days in the admin's time zone, the end date being included
+const toAuditSearch = ({ email, action, outcome, asset, from, to }: AuditSearchFormValuesI): AuditSearchI => {
+  const getDayStart = (date: string, addedDays = 0) => {
+    const day = new Date(`${date}T00:00:00`)
+    day.setDate(day.getDate() + addedDays)
+    return day.getTime()
+  }
+
+  return {
+    email: email || undefined,
+    action: action || undefined,
+    outcome: outcome || undefined,
+    asset: asset || undefined,
+    from: from ? getDayStart(from) : undefined,
+    to: to ? getDayStart(to, 1) : undefined,
+  }
+}
+
+export default function AuditSearchForm({
+  initialAsset,
+  isSearching,
+  onSearch,
+}: {
+  initialAsset: string
+  isSearching: boolean
+  onSearch: (search: AuditSearchI) => void
+}) {
+  const [values, setValues] = useState<AuditSearchFormValuesI>({
+    email: '',
+    action: '',
+    outcome: '',
+    asset: initialAsset,
+    from: '',
+    to: '',
+  })
+
+  const setValue = (name: keyof AuditSearchFormValuesI, value: string) =>
+    setValues((prevValues) => ({ ...prevValues, [name]: value }))
+
+  return (
+    <Stack
+      component="form"
+      direction="row"
+      gap={2}
+      alignItems="flex-end"
+      flexWrap="wrap"
+      onSubmit={(event: React.FormEvent) => {
+        event.preventDefault()
+        onSearch(toAuditSearch(values))
+      }}
+    >
+      <TextField
+        value={values.asset}
+        onChange={(event) => setValue('asset', event.target.value)}
+        placeholder="gs://bucket/media.png"
+        label="Media URI or Library ID"
+        variant="standard"
+        size="small"
+        sx={{ width: 340 }}
+      />
+      <TextField
+        value={values.email}
+        onChange={(event) => setValue('email', event.target.value)}
+        placeholder="user@company.com"
+        label="User email address"
+        variant="standard"
+        size="small"
+        sx={{ width: 240 }}
+      />
+      <TextField
+        select
+        value={values.action}
+        onChange={(event) => setValue('action', event.target.value)}
+        label="Action"
+        variant="standard"
+        size="small"
+        sx={{ width: 200 }}
+      >
+        <MenuItem value="">{'All actions'}</MenuItem>
+        {auditActions.map(({ value, label }) => (
+          <MenuItem key={value} value={value}>
+            {label}
+          </MenuItem>
+        ))}
+      </TextField>
+      <TextField
+        select
+        value={values.outcome}
+        onChange={(event) => setValue('outcome', event.target.value)}
+        label="Outcome"
+        variant="standard"
+        size="small"
+        sx={{ width: 120 }}
+      >
+        <MenuItem value="">{'All'}</MenuItem>
+        <MenuItem value="success">{'Success'}</MenuItem>
+        <MenuItem value="failure">{'Failure'}</MenuItem>
+      </TextField>
+      <TextField
+        type="date"
+        value={values.from}
+        onChange={(event) => setValue('from', event.target.value)}
+        label="From"
+        variant="standard"
+        size="small"
+        InputLabelProps={{ shrink: true }}
+        sx={{ width: 140 }}
+      />
+      <TextField
+        type="date"
+        value={values.to}
+        onChange={(event) => setValue('to', event.target.value)}
+        label="To"
+        variant="standard"
+        size="small"
+        InputLabelProps={{ shrink: true }}
+        sx={{ width: 140 }}
+      />
+      <Button type="submit" variant="contained" disabled={isSearching} endIcon={<Search />} sx={CustomizedSendButton}>
+        {'Search'}
+      </Button>
+    </Stack>
+  )
+}
@@ -0,0 +1,461 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+'use client'
+
+import * as React from 'react'
+import { useEffect, useState } from 'react'
+import {
+  Box,
+  Button,
+  FormControlLabel,
+  IconButton,
+  MenuItem,
+  Stack,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material'
+import {
+  AddCircleOutline,
+  ArrowDownward,
+  ArrowUpward,
+  RemoveCircleOutline,
+  Restore,
+  Save,
+  Visibility,
+} from '@mui/icons-material'
+
+import theme from '../../theme'
+import {
+  exportCustomFieldTypes,
+  ExportCustomFieldsI,
+  ExportFieldErrorI,
+  ExportFieldsVersionI,
+  ExportMediaFieldI,
+  exportSelectFieldTypes,
+  exportStandardFields,
+  formatExportFieldError,
+  getExportFieldsErrors,
+} from '../../api/export-utils'
+import { ImageI } from '../../api/generate-image-utils'
+import { CustomizedSendButton } from '../ux-components/Button-SX'
+import ExportStepper from '../transverse-components/ExportDialog'
+const { palette } = theme
+
+// Fields are edited as a list so they can be reordered and their key changed
+interface EditedFieldI {
+  key: string
+  field: ExportMediaFieldI
+}
+
+type ExportFieldOptionT = { value: string; label: string }
+
+const toEditedFields = (fields: ExportCustomFieldsI): EditedFieldI[] =>
+  Object.entries(fields).map(([key, field]) => ({ key: key, field: field }))
+
+const toFields = (editedFields: EditedFieldI[]): ExportCustomFieldsI =>
+  Object.fromEntries(editedFields.map(({ key, field }) => [key, field]))
+
+const moveItem = <T,>(items: T[], index: number, offset: number) => {
+  const newIndex = index + offset
+  if (newIndex < 0 || newIndex >= items.length) return items
+
+  const movedItems = [...items]
+  const [movedItem] = movedItems.splice(index, 1)
+  movedItems.splice(newIndex, 0, movedItem)
+  return movedItems
+}
+
+const newField: ExportMediaFieldI = {
+  label: '',
+  type: 'multiple-select',
+  isUpdatable: true,
+  isMandatory: false,
+  isExportVisible: true,
+  isExploreVisible: true,
+  options: [{ value: '', label: '' }],
+}
+
+const editableFlags: { flag: 'isMandatory' | 'isUpdatable' | 'isExploreVisible'; label: string }[] = [
+  { flag: 'isMandatory', label: 'Mandatory' },
+  { flag: 'isUpdatable', label: 'Updatable' },
+  { flag: 'isExploreVisible', label: 'Visible in Library' },
+]
+
+// Fake media the export dialog preview is displayed for
+const previewMedia: ImageI = {
+  src: '',
+  gcsUri: '',
+  ratio: '1:1',
+  width: 1024,
+  height: 1024,
+  altText: 'Preview',
+  key: 'preview',
+  format: 'PNG',
+  prompt: 'Preview of the export dialog',
+  date: '',
+  author: '',
+  modelVersion: '',
+  mode: '',
+}
+
+const MoveButtons = ({
+  index,
+  count,
+  disabled,
+  onMove,
+  onRemove,
+}: {
+  index: number
+  count: number
+  disabled: boolean
+  onMove: (offset: number) => void
+  onRemove: () => void
+}) => (
+  <Stack direction="row">
+    <IconButton size="small" onClick={() => onMove(-1)} disabled={disabled || index === 0}>
+      <ArrowUpward sx={{ fontSize: '1.1rem' }} />
+    </IconButton>
+    <IconButton size="small" onClick={() => onMove(1)} disabled={disabled || index === count - 1}>
+      <ArrowDownward sx={{ fontSize: '1.1rem' }} />
+    </IconButton>
+    <IconButton size="small" onClick={onRemove} disabled={disabled}>
+      <RemoveCircleOutline sx={{ fontSize: '1.1rem', '&:hover': { color: palette.error.main } }} />
+    </IconButton>
+  </Stack>
+)
+
+export default function ExportFieldsEditor({
+  fields,
+  versions,
+  fileErrors,
+  isSaving,
+  onSave,
+  onRollback,
+}: {
+  fields: ExportCustomFieldsI
+  versions: ExportFieldsVersionI[]
+  fileErrors: ExportFieldErrorI[]
+  isSaving: boolean
+  onSave: (fields: ExportCustomFieldsI) => void
+  onRollback: (version: number) => void
+}) {
+  const [editedFields, setEditedFields] = useState<EditedFieldI[]>(toEditedFields(fields))
+  useEffect(() => setEditedFields(toEditedFields(fields)), [fields])
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false)
+
+  const isChanged = JSON.stringify(toFields(editedFields)) !== JSON.stringify(fields)
+
+  const errors: ExportFieldErrorI[] = editedFields
+    .filter(({ key }, index) => editedFields.findIndex((editedField) => editedField.key === key) !== index)
+    .map(({ key }) => ({ field: key, message: 'Key is used by more than one field' }))
+    .concat(getExportFieldsErrors(toFields(editedFields)))
+
+  const updateField = (index: number, change: Partial<ExportMediaFieldI>) =>
+    setEditedFields((prevFields) =>
+      prevFields.map((editedField, i) =>
+        i === index ? { ...editedField, field: { ...editedField.field, ...change } } : editedField
+      )
+    )
+
+  const updateOptions = (index: number, change: (options: ExportFieldOptionT[]) => ExportFieldOptionT[]) =>
+    setEditedFields((prevFields) =>
+      prevFields.map((editedField, i) =>
+        i === index
+          ? { ...editedField, field: { ...editedField.field, options: change(editedField.field.options ?? []) } }
+          : editedField
+      )
+    )
+
+  // Only select fields have options, kept when switching between select types
+  const handleTypeChange = (index: number, type: string) =>
+    updateField(index, {
+      type: type,
+      options: exportSelectFieldTypes.includes(type)
+        ? (editedFields[index].field.options ?? [{ value: '', label: '' }])
+        : undefined,
+    })
+
+  return (
+    <Stack direction="column" gap={2}>
+      <Typography variant="h2" color={palette.text.secondary} sx={{ fontSize: '1.3rem' }}>
+        {'Export fields'}
+      </Typography>
+      <Typography variant="body2" color={palette.text.secondary}>
+        {
+          "Metadata users set when exporting medias to the Library. Changing a key or an option value doesn't update medias already in the Library."
+        }
+      </Typography>
+
+      {fileErrors.length > 0 && (
+        <Box sx={{ maxWidth: 900 }}>
+          <Typography variant="body2" color={palette.warning.main}>
+            {'Invalid fields of the saved file were left out, they will be removed on next save:'}
+          </Typography>
+          {fileErrors.map((error, index) => (
+            <Typography key={index} variant="body2" color={palette.warning.main} sx={{ pl: 2 }}>
+              {formatExportFieldError(error)}
+            </Typography>
+          ))}
+        </Box>
+      )}
+
+      {editedFields.map(({ key, field }, index) => (
+        <Box key={index} sx={{ p: 2, maxWidth: 900, border: 1, borderColor: palette.secondary.light, borderRadius: 1 }}>
+          <Stack direction="row" gap={2} alignItems="center">
+            <TextField
+              label="Key"
+              value={key}
+              onChange={(event) =>
+                setEditedFields((prevFields) =>
+                  prevFields.map((editedField, i) =>
+                    i === index ? { ...editedField, key: event.target.value } : editedField
+                  )
+                )
+              }
+              disabled={isSaving}
+              variant="standard"
+              size="small"
+              sx={{ width: 180 }}
+            />
+            <TextField
+              select
+              label="Type"
+              value={field.type}
+              onChange={(event) => handleTypeChange(index, event.target.value)}
+              disabled={isSaving}
+              variant="standard"
+              size="small"
+              sx={{ width: 160 }}
+            >
+              {exportCustomFieldTypes.map(({ value, label }) => (
+                <MenuItem key={value} value={value}>
+                  {label}
+                </MenuItem>
+              ))}
+            </TextField>
+            <Box sx={{ flexGrow: 1 }} />
+            <MoveButtons
+              index={index}
+              count={editedFields.length}
+              disabled={isSaving}
+              onMove={(offset) => setEditedFields((prevFields) => moveItem(prevFields, index, offset))}
+              onRemove={() => setEditedFields((prevFields) => prevFields.filter((_, i) => i !== index))}
+            />
+          </Stack>
+
+          <Stack direction="row" gap={2} sx={{ pt: 1 }}>
+            <TextField
+              label="Label in export dialog"
+              value={field.label}
+              onChange={(event) => updateField(index, { label: event.target.value })}
+              disabled={isSaving}
+              variant="standard"
+              size="small"
+              sx={{ flexGrow: 1 }}
+            />
+            <TextField
+              label="Name in Library"
+              value={field.name ?? ''}
+              onChange={(event) => updateField(index, { name: event.target.value || undefined })}
+              disabled={isSaving}
+              variant="standard"
+              size="small"
+              sx={{ flexGrow: 1 }}
+            />
+          </Stack>
+
+          <Stack direction="row" gap={2} sx={{ pt: 1 }}>
+            {editableFlags.map(({ flag, label }) => (
+              <FormControlLabel
+                key={flag}
+                label={label}
+                control={
+                  <Switch
+                    checked={field[flag] === true}
+                    onChange={() => updateField(index, { [flag]: !field[flag] })}
+                    disabled={isSaving}
+                    size="small"
+                  />
+                }
+              />
+            ))}
+          </Stack>
+
+          {exportSelectFieldTypes.includes(field.type) && (
+            <Stack direction="column" sx={{ pt: 1, pl: 2 }}>
+              {(field.options ?? []).map((option, optionIndex) => (
+                <Stack key={optionIndex} direction="row" gap={2} alignItems="flex-end">
+                  <TextField
+                    placeholder="Option value"
+                    value={option.value}
+                    onChange={(event) =>
+                      updateOptions(index, (options) =>
+                        options.map((prevOption, i) =>
+                          i === optionIndex ? { ...prevOption, value: event.target.value } : prevOption
+                        )
+                      )
+                    }
+                    disabled={isSaving}
+                    variant="standard"
+                    size="small"
+                    sx={{ width: 180 }}
+                  />
+                  <TextField
+                    placeholder="Option label"
+                    value={option.label}
+                    onChange={(event) =>
+                      updateOptions(index, (options) =>
+                        options.map((prevOption, i) =>
+                          i === optionIndex ? { ...prevOption, label: event.target.value } : prevOption
+                        )
+                      )
+                    }
+                    disabled={isSaving}
+                    variant="standard"
+                    size="small"
+                    sx={{ flexGrow: 1 }}
+                  />
+                  <MoveButtons
+                    index={optionIndex}
+                    count={(field.options ?? []).length}
+                    disabled={isSaving}
+                    onMove={(offset) => updateOptions(index, (options) => moveItem(options, optionIndex, offset))}
+                    onRemove={() => updateOptions(index, (options) => options.filter((_, i) => i !== optionIndex))}
+                  />
+                </Stack>
+              ))}
+              <Box>
+                <Button
+                  onClick={() => updateOptions(index, (options) => [...options, { value: '', label: '' }])}
+                  disabled={isSaving}
+                  startIcon={<AddCircleOutline />}
+                  sx={{ ...CustomizedSendButton, ml: 0, fontSize: '0.8rem' }}
+                >
+                  {'Add option'}
+                </Button>
+              </Box>
+            </Stack>
+          )}
+        </Box>
+      ))}
+
+      <Box>
+        <Button
+          onClick={() => setEditedFields((prevFields) => [...prevFields, { key: '', field: newField }])}
+          disabled={isSaving}
+          startIcon={<AddCircleOutline />}
+          sx={{ ...CustomizedSendButton, ml: 0 }}
+        >
+          {'Add field'}
+        </Button>
+      </Box>
+
+      {errors.length > 0 && (
+        <Box sx={{ maxWidth: 900 }}>
+          {errors.map((error, index) => (
+            <Typography key={index} variant="body2" color={palette.error.main}>
+              {formatExportFieldError(error)}
+            </Typography>
+          ))}
+        </Box>
+      )}
+
+      <Stack direction="row" justifyContent="flex-start">
+        <Button
+          onClick={() => setEditedFields(toEditedFields(fields))}
+          disabled={isSaving || !isChanged}
+          sx={{ ...CustomizedSendButton, ml: 0 }}
+        >
+          {'Cancel'}
+        </Button>
+        <Button onClick={() => setIsPreviewOpen(true)} endIcon={<Visibility />} sx={CustomizedSendButton}>
+          {'Preview export dialog'}
+        </Button>
+        <Button
+          onClick={() => onSave(toFields(editedFields))}
+          variant="contained"
+          disabled={isSaving || !isChanged || errors.length > 0}
+          endIcon={<Save />}
+          sx={CustomizedSendButton}
+        >
+          {isSaving ? 'Saving...' : 'Save fields'}
+        </Button>
+      </Stack>
+
+      <Typography variant="h2" color={palette.text.secondary} sx={{ fontSize: '1.3rem', pt: 2 }}>
+        {'Saved versions'}
+      </Typography>
+      {versions.length === 0 ? (
+        <Typography variant="body2" color={palette.text.secondary}>
+          {'Export fields have not been edited yet.'}
+        </Typography>
+      ) : (
+        <Table size="small" sx={{ maxWidth: 900 }}>
+          <TableHead>
+            <TableRow>
+              <TableCell sx={{ fontWeight: 500 }}>{'Version'}</TableCell>
+              <TableCell sx={{ fontWeight: 500 }}>{'Saved'}</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {versions.map(({ version, savedAt, savedBy, restoredFrom }, index) => (
+              <TableRow key={version}>
+                <TableCell>{index === 0 ? `v${version} (current)` : `v${version}`}</TableCell>
+                <TableCell>
+                  <Typography variant="caption" color={palette.text.secondary}>
+                    {[
+                      savedBy ? `by ${savedBy}` : 'Initial file',
+                      new Date(savedAt).toLocaleString(),
+                      restoredFrom ? `restored from v${restoredFrom}` : '',
+                    ]
+                      .filter(Boolean)
+                      .join(', ')}
+                  </Typography>
+                </TableCell>
+                <TableCell align="right">
+                  {index > 0 && (
+                    <Button
+                      onClick={() => onRollback(version)}
+                      disabled={isSaving}
+                      startIcon={<Restore />}
+                      sx={{ ...CustomizedSendButton, fontSize: '0.8rem' }}
+                    >
+                      {'Restore'}
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <ExportStepper
+        open={isPreviewOpen}
+        upscaleAvailable={false}
+        mediaToExport={previewMedia}
+        handleMediaExportClose={() => setIsPreviewOpen(false)}
+        previewFields={{ ...exportStandardFields, ...toFields(editedFields) }}
+      />
+    </Stack>
+  )
+}
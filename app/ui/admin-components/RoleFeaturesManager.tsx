@@ -0,0 +1,111 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+'use client'
+
+import * as React from 'react'
+import { useEffect, useState } from 'react'
+import { Button, Stack, Switch, Table, TableBody, TableCell, TableHead, TableRow, Typography } from '@mui/material'
+import { Save } from '@mui/icons-material'
+
+import theme from '../../theme'
+import { AppFeatureT, appFeatures, RoleFeaturesT, userRoles, UserRoleT } from '../../api/permissions-utils'
+import { CustomizedSendButton } from '../ux-components/Button-SX'
+const { palette } = theme
+
+export default function RoleFeaturesManager({
+  roleFeatures,
+  isSaving,
+  onSave,
+}: {
+  roleFeatures: RoleFeaturesT
+  isSaving: boolean
+  onSave: (roleFeatures: RoleFeaturesT) => void
+}) {
+  const [editedRoleFeatures, setEditedRoleFeatures] = useState<RoleFeaturesT>(roleFeatures)
+  useEffect(() => setEditedRoleFeatures(roleFeatures), [roleFeatures])
+
+  const isChanged = JSON.stringify(editedRoleFeatures) !== JSON.stringify(roleFeatures)
+
+  const handleToggle = (role: UserRoleT, feature: AppFeatureT) =>
+    setEditedRoleFeatures((prevRoleFeatures) => ({
+      ...prevRoleFeatures,
+      [role]: { ...prevRoleFeatures[role], [feature]: !prevRoleFeatures[role][feature] },
+    }))
+
+  return (
+    <Stack direction="column" gap={2}>
+      <Typography variant="h2" color={palette.text.secondary} sx={{ fontSize: '1.3rem' }}>
+        {'Features by role'}
+      </Typography>
+      <Typography variant="body2" color={palette.text.secondary}>
+        {'Admins always have access to every feature. Features disabled in the app environment stay unavailable.'}
+      </Typography>
+
+      <Table size="small" sx={{ maxWidth: 900 }}>
+        <TableHead>
+          <TableRow>
+            <TableCell sx={{ fontWeight: 500 }}>{'Feature'}</TableCell>
+            {userRoles.map(({ value, label }) => (
+              <TableCell key={value} align="center" sx={{ fontWeight: 500 }}>
+                {label}
+              </TableCell>
+            ))}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {appFeatures.map(({ value: feature, label, description }) => (
+            <TableRow key={feature}>
+              <TableCell>
+                <Typography variant="body1">{label}</Typography>
+                <Typography variant="caption" color={palette.text.secondary}>
+                  {description}
+                </Typography>
+              </TableCell>
+              {userRoles.map(({ value: role }) => (
+                <TableCell key={role} align="center">
+                  <Switch
+                    checked={editedRoleFeatures[role][feature]}
+                    onChange={() => handleToggle(role, feature)}
+                    disabled={isSaving || role === 'admin'}
+                    size="small"
+                  />
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <Stack direction="row" justifyContent="flex-start">
+        <Button
+          onClick={() => setEditedRoleFeatures(roleFeatures)}
+          disabled={isSaving || !isChanged}
+          sx={{ ...CustomizedSendButton, ml: 0 }}
+        >
+          {'Cancel'}
+        </Button>
+        <Button
+          onClick={() => onSave(editedRoleFeatures)}
+          variant="contained"
+          disabled={isSaving || !isChanged}
+          endIcon={<Save />}
+          sx={CustomizedSendButton}
+        >
+          {isSaving ? 'Saving...' : 'Save features'}
+        </Button>
+      </Stack>
+    </Stack>
+  )
+}
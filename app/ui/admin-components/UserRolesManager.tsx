@@ -0,0 +1,152 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+'use client'
+
+import * as React from 'react'
+import { useState } from 'react'
+import {
+  Button,
+  IconButton,
+  MenuItem,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material'
+import { PersonAdd, RemoveCircleOutline } from '@mui/icons-material'
+
+import theme from '../../theme'
+import { UserRoleAssignmentI, userRoles, UserRoleT } from '../../api/permissions-utils'
+import { CustomizedSendButton } from '../ux-components/Button-SX'
+import { CustomWhiteTooltip } from '../ux-components/Tooltip'
+const { palette } = theme
+
+const RoleSelect = ({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: UserRoleT
+  onChange: (role: UserRoleT) => void
+  disabled: boolean
+}) => (
+  <TextField
+    select
+    value={value}
+    onChange={(event) => onChange(event.target.value as UserRoleT)}
+    disabled={disabled}
+    variant="standard"
+    size="small"
+    sx={{ width: 140 }}
+  >
+    {userRoles.map(({ value, label }) => (
+      <MenuItem key={value} value={value}>
+        {label}
+      </MenuItem>
+    ))}
+  </TextField>
+)
+
+export default function UserRolesManager({
+  assignments,
+  defaultRole,
+  isSaving,
+  onAssign,
+  onRemove,
+}: {
+  assignments: UserRoleAssignmentI[]
+  defaultRole: UserRoleT
+  isSaving: boolean
+  onAssign: (email: string, role: UserRoleT) => void
+  onRemove: (email: string) => void
+}) {
+  const [newEmail, setNewEmail] = useState('')
+  const [newRole, setNewRole] = useState<UserRoleT>('creator')
+
+  const defaultRoleLabel = userRoles.find(({ value }) => value === defaultRole)?.label
+
+  return (
+    <Stack direction="column" gap={2}>
+      <Typography variant="h2" color={palette.text.secondary} sx={{ fontSize: '1.3rem' }}>
+        {'User roles'}
+      </Typography>
+      <Typography variant="body2" color={palette.text.secondary}>
+        {`Users without an assigned role are ${defaultRoleLabel}s. Admins set in the app's environment always keep their role.`}
+      </Typography>
+
+      <Stack direction="row" gap={2} alignItems="flex-end">
+        <TextField
+          value={newEmail}
+          onChange={(event) => setNewEmail(event.target.value)}
+          placeholder="user@company.com"
+          label="Email address"
+          variant="standard"
+          size="small"
+          sx={{ width: 300 }}
+        />
+        <RoleSelect value={newRole} onChange={setNewRole} disabled={isSaving} />
+        <Button
+          onClick={() => {
+            onAssign(newEmail, newRole)
+            setNewEmail('')
+          }}
+          variant="contained"
+          disabled={isSaving || newEmail.trim() === ''}
+          endIcon={<PersonAdd />}
+          sx={CustomizedSendButton}
+        >
+          {'Assign role'}
+        </Button>
+      </Stack>
+
+      {assignments.length > 0 && (
+        <Table size="small" sx={{ maxWidth: 900 }}>
+          <TableHead>
+            <TableRow>
+              <TableCell sx={{ fontWeight: 500 }}>{'Email address'}</TableCell>
+              <TableCell sx={{ fontWeight: 500 }}>{'Role'}</TableCell>
+              <TableCell sx={{ fontWeight: 500 }}>{'Last updated by'}</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {assignments.map(({ email, role, updatedBy, updatedAt }) => (
+              <TableRow key={email}>
+                <TableCell>{email}</TableCell>
+                <TableCell>
+                  <RoleSelect value={role} onChange={(newRole) => onAssign(email, newRole)} disabled={isSaving} />
+                </TableCell>
+                <TableCell sx={{ color: palette.text.secondary }}>
+                  {[updatedBy, updatedAt && new Date(updatedAt).toLocaleDateString('en-US')].filter(Boolean).join(', ')}
+                </TableCell>
+                <TableCell align="right">
+                  <CustomWhiteTooltip title="Back to the default role" size="small">
+                    <IconButton onClick={() => onRemove(email)} disabled={isSaving} aria-label="Remove role">
+                      <RemoveCircleOutline sx={{ fontSize: '1.2rem', color: palette.error.main }} />
+                    </IconButton>
+                  </CustomWhiteTooltip>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Stack>
+  )
+}
@@ -0,0 +1,77 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+'use client'
+
+import * as React from 'react'
+import { Box, Typography } from '@mui/material'
+
+import theme from '../../theme'
+import { AnalyticsPeriodI } from '../../api/analytics-utils'
+import { CustomWhiteTooltip } from '../ux-components/Tooltip'
+const { palette } = theme
+
+// Counts of each period as vertical bars, scaled on the highest one
+export default function AnalyticsBars({
+  counts,
+  periods,
+  height,
+  isLabeled = false,
+}: {
+  counts: number[]
+  periods: AnalyticsPeriodI[]
+  height: number
+  isLabeled?: boolean
+}) {
+  const maxCount = Math.max(...counts, 1)
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', width: '100%' }}>
+      <Box sx={{ display: 'flex', alignItems: 'flex-end', gap: 0.3, height: height }}>
+        {counts.map((count, index) => (
+          <CustomWhiteTooltip key={periods[index].from} title={`${periods[index].label}: ${count}`} size="small">
+            <Box
+              sx={{
+                flex: 1,
+                height: `${(count / maxCount) * 100}%`,
+                minHeight: 2,
+                borderRadius: 0.5,
+                bgcolor: count > 0 ? palette.primary.main : palette.primary.light,
+                '&:hover': { bgcolor: palette.primary.dark },
+              }}
+            />
+          </CustomWhiteTooltip>
+        ))}
+      </Box>
+      {isLabeled && (
+        <Box sx={{ display: 'flex', gap: 0.3, pt: 0.5 }}>
+          {periods.map(({ label, from }) => (
+            <Typography
+              key={from}
+              sx={{
+                flex: 1,
+                fontSize: '0.65rem',
+                color: palette.text.secondary,
+                textAlign: 'center',
+                overflow: 'hidden',
+              }}
+            >
+              {label}
+            </Typography>
+          ))}
+        </Box>
+      )}
+    </Box>
+  )
+}
@@ -0,0 +1,62 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+'use client'
+
+import * as React from 'react'
+import { Box, Typography } from '@mui/material'
+
+import theme from '../../theme'
+import { AnalyticsBreakdownI, AnalyticsPeriodI } from '../../api/analytics-utils'
+import AnalyticsBars from './AnalyticsBars'
+const { palette } = theme
+
+// One row per value, with its total over the whole range & its counts over time
+export default function AnalyticsBreakdown({
+  breakdown,
+  periods,
+}: {
+  breakdown: AnalyticsBreakdownI
+  periods: AnalyticsPeriodI[]
+}) {
+  return (
+    <Box sx={{ p: 2, border: 1, borderColor: palette.secondary.light, borderRadius: 2 }}>
+      <Typography sx={{ fontSize: '1.1rem', fontWeight: 500, color: palette.text.primary, pb: 1.5 }}>
+        {breakdown.label}
+      </Typography>
+      {breakdown.rows.length === 0 && (
+        <Typography sx={{ fontSize: '0.9rem', fontStyle: 'italic', color: palette.text.secondary }}>
+          {breakdown.error ?? 'No media over this period'}
+        </Typography>
+      )}
+      {breakdown.rows.map((row) => (
+        <Box key={row.value} sx={{ display: 'flex', alignItems: 'flex-end', gap: 2, py: 0.75 }}>
+          <Typography
+            noWrap
+            title={row.label}
+            sx={{ width: '40%', fontSize: '0.9rem', color: palette.text.secondary, textOverflow: 'ellipsis' }}
+          >
+            {row.label}
+          </Typography>
+          <Typography sx={{ width: 50, fontSize: '0.9rem', fontWeight: 500, color: palette.primary.main }}>
+            {row.total}
+          </Typography>
+          <Box sx={{ flex: 1 }}>
+            <AnalyticsBars counts={row.counts} periods={periods} height={24} />
+          </Box>
+        </Box>
+      ))}
+    </Box>
+  )
+}
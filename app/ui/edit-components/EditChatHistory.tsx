@@ -0,0 +1,111 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as React from 'react'
+import Image from 'next/image'
+import { Box, Stack, Typography } from '@mui/material'
+
+import { EditChatTurnI } from '../../api/edit-utils'
+
+import theme from '../../theme'
+const { palette } = theme
+
+const VersionItem = ({
+  src,
+  label,
+  text,
+  isSelected,
+  onClick,
+}: {
+  src: string
+  label: string
+  text: string
+  isSelected: boolean
+  onClick: () => void
+}) => (
+  <Stack
+    direction="row"
+    spacing={1.5}
+    alignItems="center"
+    onClick={onClick}
+    sx={{
+      p: 0.75,
+      cursor: 'pointer',
+      borderRadius: 1,
+      border: '1px solid',
+      borderColor: isSelected ? palette.primary.main : 'transparent',
+      bgcolor: isSelected ? palette.primary.light : 'transparent',
+      '&:hover': { borderColor: palette.primary.main },
+    }}
+  >
+    <Box sx={{ width: 50, height: 50, flexShrink: 0, overflow: 'hidden' }}>
+      <Image
+        src={src}
+        alt={label}
+        width={0}
+        height={0}
+        quality={50}
+        style={{ width: '100%', height: '100%', objectFit: 'cover' }}
+      />
+    </Box>
+    <Box sx={{ overflow: 'hidden' }}>
+      <Typography sx={{ fontSize: '0.8rem', fontWeight: 500, color: palette.secondary.main }}>{label}</Typography>
+      <Typography noWrap sx={{ fontSize: '0.9rem', color: palette.text.primary }}>
+        {text}
+      </Typography>
+    </Box>
+  </Stack>
+)
+
+export default function EditChatHistory({
+  originalImage,
+  turns,
+  selectedVersion,
+  onVersionSelect,
+}: {
+  originalImage: string
+  turns: EditChatTurnI[]
+  selectedVersion: number
+  onVersionSelect: (version: number) => void
+}) {
+  return (
+    <Box sx={{ pb: 3 }}>
+      <Typography sx={{ fontSize: '0.9rem', fontWeight: 500, color: palette.text.primary, pb: 0.5 }}>
+        {'Versions'}
+      </Typography>
+      <Typography sx={{ fontSize: '0.8rem', fontStyle: 'italic', color: palette.text.secondary, pb: 1 }}>
+        {'Select a version to keep editing from it, later versions will be replaced by your next instruction'}
+      </Typography>
+      <Stack direction="column" spacing={0.5} sx={{ maxHeight: 280, overflowY: 'auto' }}>
+        <VersionItem
+          src={originalImage}
+          label="Original"
+          text="Uploaded image"
+          isSelected={selectedVersion === 0}
+          onClick={() => onVersionSelect(0)}
+        />
+        {turns.map((turn, index) => (
+          <VersionItem
+            key={turn.image.key}
+            src={turn.image.src}
+            label={`Version ${index + 1}`}
+            text={turn.instruction}
+            isSelected={selectedVersion === index + 1}
+            onClick={() => onVersionSelect(index + 1)}
+          />
+        ))}
+      </Stack>
+    </Box>
+  )
+}
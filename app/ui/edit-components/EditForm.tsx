@@ -27,11 +27,14 @@ import { ImageI } from '../../api/generate-image-utils'
 
 import theme from '../../theme'
 import { buildImageListFromURI, editImage, upscaleImage } from '../../api/imagen/action'
+import { editImageConversational } from '../../api/nano-banana/action'
 import { CustomizedAvatarButton, CustomizedIconButton, CustomizedSendButton } from '../ux-components/Button-SX'
 import CustomTooltip from '../ux-components/Tooltip'
 import { appContextDataDefault, useAppContext } from '../../context/app-context'
 import EditImageDropzone, { getAspectRatio } from './EditImageDropzone'
 import {
+  conversationalEditModel,
+  EditChatTurnI,
   EditImageFormFields,
   EditImageFormI,
   editSettingsFields,
@@ -43,6 +46,7 @@ import EditModeMenu from './EditModeMenu'
 import SetMaskDialog from './SetMaskDialog'
 import { downloadMediaFromGcs } from '../../api/cloud-storage/action'
 import UpscaleDialog from './UpscaleDialog'
+import EditChatHistory from './EditChatHistory'
 const { palette } = theme
 
 const editModeField = EditImageFormFields.editMode
@@ -100,6 +104,11 @@ export default function EditForm({
   const [upscaleFactor, setUpscaleFactor] = useState<string>('')
   const [openUpscaleDialog, setOpenUpscaleDialog] = useState(false)
 
+  // Conversational case, version 0 is the original image and version n the output of turn n
+  const isChatMode = selectedEditMode?.value === 'CONVERSATIONAL'
+  const [chatTurns, setChatTurns] = useState<EditChatTurnI[]>([])
+  const [selectedVersion, setSelectedVersion] = useState(0)
+
   const handleNewEditMode = (value: string) => {
     resetStates()
     setValue('editMode', value)
@@ -111,6 +120,8 @@ export default function EditForm({
     const defaultBaseSteps = newEditMode?.defaultBaseSteps.toString()
     defaultMaskDilation && setValue('maskDilation', defaultMaskDilation)
     defaultBaseSteps && setValue('baseSteps', defaultBaseSteps)
+
+    if (value === 'CONVERSATIONAL') setValue('modelVersion', conversationalEditModel)
   }
 
   useEffect(() => {
@@ -167,6 +178,12 @@ export default function EditForm({
     setOpenMaskDialog(false)
   }
 
+  // A new image to edit starts a new conversation
+  useEffect(() => {
+    setChatTurns([])
+    setSelectedVersion(0)
+  }, [imageToEdit])
+
   useEffect(() => {
     if (imageToEdit) {
       setValue('inputImage', imageToEdit)
@@ -203,6 +220,33 @@ export default function EditForm({
     }
   }
 
+  const onChatSubmit: SubmitHandler<EditImageFormI> = async (formData: EditImageFormI) => {
+    onRequestSent(true, 1, true)
+
+    try {
+      if (formData['inputImage'] === '' || formData['prompt'] === '') throw Error('Missing either image or instruction')
+
+      // Editing from an earlier version drops the versions after it
+      const history = chatTurns.slice(0, selectedVersion)
+
+      const newImage = await editImageConversational(formData, history, appContext)
+      if ('error' in newImage) throw Error(newImage['error'].replaceAll('Error: ', ''))
+
+      setChatTurns([...history, { instruction: formData['prompt'], image: newImage }])
+      setSelectedVersion(history.length + 1)
+      setValue('prompt', '')
+
+      onImageGeneration([newImage])
+    } catch (error: any) {
+      onNewErrorMsg(error.toString())
+    }
+  }
+
+  const handleVersionSelect = (version: number) => {
+    setSelectedVersion(version)
+    onImageGeneration(version === 0 ? [] : [chatTurns[version - 1].image])
+  }
+
   const onUpscaleSubmit: SubmitHandler<EditImageFormI> = async (formData: EditImageFormI) => {
     setOpenUpscaleDialog(false)
     onRequestSent(true, 1, false)
@@ -242,12 +286,14 @@ export default function EditForm({
     setMaskPreview(null)
     setOutpaintedImage(null)
     setMaskSize({ width: 0, height: 0 })
+    setChatTurns([])
+    setSelectedVersion(0)
     onNewErrorMsg('')
   }
 
   return (
     <>
-      <form onSubmit={handleSubmit(onSubmit)}>
+      <form onSubmit={handleSubmit(isChatMode ? onChatSubmit : onSubmit)}>
         <Box sx={{ pb: 5 }}>
           <Stack direction="row" spacing={2} justifyContent="flex-start" alignItems="center">
             <Typography variant="h1" color={palette.text.secondary} sx={{ fontSize: '1.8rem' }}>
@@ -306,6 +352,15 @@ export default function EditForm({
           />
         </Box>
 
+        {isChatMode && imageToEdit && chatTurns.length > 0 && (
+          <EditChatHistory
+            originalImage={imageToEdit}
+            turns={chatTurns}
+            selectedVersion={selectedVersion}
+            onVersionSelect={handleVersionSelect}
+          />
+        )}
+
         {selectedEditMode?.promptIndication && (
           <FormInputText
             name="prompt"
@@ -335,7 +390,7 @@ export default function EditForm({
               </Avatar>
             </IconButton>
           </CustomTooltip>
-          {!isUpscaleMode && (
+          {!isUpscaleMode && !isChatMode && (
             <FormInputEditSettings control={control} setValue={setValue} editSettingsFields={editSettingsFields} />
           )}
           {selectedEditMode?.mandatoryMask && selectedEditMode?.maskType && (
@@ -358,7 +413,7 @@ export default function EditForm({
             endIcon={isLoading ? <WatchLaterIcon /> : <SendIcon />}
             sx={CustomizedSendButton}
           >
-            {isUpscaleMode ? 'Upscale' : 'Edit'}
+            {isUpscaleMode ? 'Upscale' : isChatMode ? 'Send' : 'Edit'}
           </Button>
         </Stack>
       </form>
@@ -0,0 +1,92 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import React from 'react'
+import { Box, IconButton, Stack, Typography } from '@mui/material'
+import { Clear } from '@mui/icons-material'
+
+import ImageDropzone from './ImageDropzone'
+import { maxGeminiInputImages } from '@/app/api/generate-image-utils'
+
+import theme from '../../theme'
+const { palette } = theme
+
+export const GeminiInputImages = ({
+  images,
+  setValue,
+  onNewErrorMsg,
+}: {
+  images: string[]
+  setValue: any
+  onNewErrorMsg: (msg: string) => void
+}) => {
+  const inputImages = images ?? []
+
+  const addImage = (base64Image: string) => {
+    if (inputImages.length >= maxGeminiInputImages) return
+    setValue('geminiInputImages', [...inputImages, base64Image])
+  }
+
+  const removeImage = (index: number) =>
+    setValue(
+      'geminiInputImages',
+      inputImages.filter((_, i) => i !== index)
+    )
+
+  return (
+    <Box sx={{ pt: 1, pb: 2 }}>
+      <Typography sx={{ fontSize: '0.9rem', fontStyle: 'italic', color: palette.text.secondary, pb: 1.5 }}>
+        {`Add up to ${maxGeminiInputImages} images to combine with your prompt, ex: "put this product on this background"`}
+      </Typography>
+      <Stack direction="row" spacing={2} alignItems="flex-start">
+        {inputImages.map((image, index) => (
+          <Stack key={index + '_gemini_input'} direction="row" spacing={0.5} alignItems="flex-start">
+            <ImageDropzone
+              setImage={(base64Image: string) =>
+                setValue(
+                  'geminiInputImages',
+                  inputImages.map((prevImage, i) => (i === index ? base64Image : prevImage))
+                )
+              }
+              image={image}
+              onNewErrorMsg={onNewErrorMsg}
+              size={{ width: '5vw', height: '5vw' }}
+              maxSize={{ width: 70, height: 70 }}
+              object={`geminiInputImages.${index}`}
+            />
+            <IconButton
+              onClick={() => removeImage(index)}
+              aria-label="Remove input image"
+              disableRipple
+              sx={{ p: 0, '&:hover': { color: palette.primary.main, backgroundColor: 'transparent' } }}
+            >
+              <Clear sx={{ fontSize: '1.1rem' }} />
+            </IconButton>
+          </Stack>
+        ))}
+        {inputImages.length < maxGeminiInputImages && (
+          <ImageDropzone
+            key={inputImages.length + '_gemini_input_new'}
+            setImage={addImage}
+            image={null}
+            onNewErrorMsg={onNewErrorMsg}
+            size={{ width: '5vw', height: '5vw' }}
+            maxSize={{ width: 70, height: 70 }}
+            object="geminiInputImages"
+          />
+        )}
+      </Stack>
+    </Box>
+  )
+}
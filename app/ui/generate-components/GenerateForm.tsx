@@ -53,12 +53,14 @@ import CustomTooltip from '../ux-components/Tooltip'
 import GenerateSettings from './GenerateSettings'
 import ImageToPromptModal from './ImageToPromptModal'
 import { ReferenceBox } from './ReferenceBox'
+import { GeminiInputImages } from './GeminiInputImages'
 
 import theme from '../../theme'
 const { palette } = theme
 
 import { useAppContext } from '../../context/app-context'
 import { generateImage } from '../../api/imagen/action'
+import { generateImage as generateGeminiImage } from '../../api/nano-banana/action'
 import {
   chipGroupFieldsI,
   GenerateImageFormFields,
@@ -145,6 +147,7 @@ export default function GenerateForm({
   const firstImageRatio = watch('interpolImageFirst.ratio')
   const lastImageRatio = watch('interpolImageLast.ratio')
   const currentModel = watch('modelVersion')
+  const geminiInputImages = watch('geminiInputImages')
   const currentPrimaryStyle = watch('style')
   const currentSecondaryStyle = watch('secondary_style')
 
@@ -163,6 +166,9 @@ export default function GenerateForm({
     return hasReferences ? EditImageFormFields.modelVersion : GenerateImageFormFields.modelVersion
   }, [generationType, hasReferences])
 
+  // Gemini image models take input images instead of Imagen's subject & style references
+  const isGeminiImageModel = generationType === 'Image' && currentModel.includes('gemini')
+
   // Determines if the prompt is optional for video generation (e.g., for image-to-video).
   const optionalVeoPrompt =
     (interpolImageFirst && interpolImageFirst.base64Image !== '') ||
@@ -370,6 +376,8 @@ export default function GenerateForm({
       resetField(field as keyof GenerateImageFormI | keyof GenerateVideoFormI)
     )
 
+    if (generationType === 'Image') setValue('geminiInputImages', [])
+
     if (generationType === 'Video') {
       setValue('interpolImageFirst', generationFields.defaultValues.interpolImageFirst)
       setValue('interpolImageLast', generationFields.defaultValues.interpolImageLast)
@@ -397,7 +405,10 @@ export default function GenerateForm({
 
       if (hasReferences && areAllRefValid) setIsGeminiRewrite(false)
 
-      const newGeneratedImages = await generateImage(formData, areAllRefValid, isGeminiRewrite, appContext)
+      // Gemini image models go through generateContent instead of Imagen's predict endpoint
+      const newGeneratedImages = isGeminiImageModel
+        ? await generateGeminiImage(formData, appContext)
+        : await generateImage(formData, areAllRefValid, isGeminiRewrite, appContext)
 
       if (newGeneratedImages !== undefined && typeof newGeneratedImages === 'object' && 'error' in newGeneratedImages) {
         let errorMsg = newGeneratedImages['error'].replaceAll('Error: ', '')
@@ -569,7 +580,29 @@ export default function GenerateForm({
               {'Generate'}
             </Button>
           </Stack>
-          {generationType === 'Image' && process.env.NEXT_PUBLIC_EDIT_ENABLED === 'true' && (
+          {isGeminiImageModel && (
+            <Accordion
+              disableGutters
+              expanded={expanded === 'geminiInputs'}
+              onChange={handleChange('geminiInputs')}
+              sx={CustomizedAccordion}
+            >
+              <AccordionSummary
+                expandIcon={<ArrowDownwardIcon sx={{ color: palette.primary.main }} />}
+                aria-controls="panel1-content"
+                id="panel1-header"
+                sx={CustomizedAccordionSummary}
+              >
+                <Typography display="inline" variant="body1" sx={{ fontWeight: 500 }}>
+                  {'Input image(s)'}
+                </Typography>
+              </AccordionSummary>
+              <AccordionDetails sx={{ pt: 0, pb: 1, height: 'auto' }}>
+                <GeminiInputImages images={geminiInputImages} setValue={setValue} onNewErrorMsg={onNewErrorMsg} />
+              </AccordionDetails>
+            </Accordion>
+          )}
+          {generationType === 'Image' && !isGeminiImageModel && process.env.NEXT_PUBLIC_EDIT_ENABLED === 'true' && (
             <Accordion
               disableGutters
               expanded={expanded === 'references'}
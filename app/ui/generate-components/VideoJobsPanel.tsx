@@ -0,0 +1,146 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+'use client'
+
+import * as React from 'react'
+import { useState } from 'react'
+
+import {
+  Accordion,
+  AccordionDetails,
+  AccordionSummary,
+  Avatar,
+  Box,
+  IconButton,
+  List,
+  ListItemButton,
+  Stack,
+  Typography,
+} from '@mui/material'
+import {
+  ArrowDownward as ArrowDownwardIcon,
+  Autorenew,
+  CheckCircle,
+  Error as ErrorIcon,
+  WatchLater,
+} from '@mui/icons-material'
+
+import { CustomizedAccordion, CustomizedAccordionSummary } from '../ux-components/Accordion-SX'
+import { CustomizedAvatarButton, CustomizedIconButton } from '../ux-components/Button-SX'
+import CustomTooltip from '../ux-components/Tooltip'
+import { VideoJobI, VideoJobProgressEventI, VideoJobStatusT } from '../../api/generate-video-utils'
+
+import theme from '../../theme'
+const { palette } = theme
+
+const statusIcons: { [key in VideoJobStatusT]: React.ReactNode } = {
+  pending: <WatchLater sx={{ fontSize: '1.1rem', color: palette.warning.main }} />,
+  done: <CheckCircle sx={{ fontSize: '1.1rem', color: palette.primary.main }} />,
+  failed: <ErrorIcon sx={{ fontSize: '1.1rem', color: palette.error.main }} />,
+}
+
+const getJobIndication = (job: VideoJobI, progress?: VideoJobProgressEventI) => {
+  if (job.status === 'failed' && job.error) return job.error
+  if (job.status === 'pending' && progress)
+    return `In progress for ${Math.max(1, Math.round(progress.elapsedMs / 60000))} min (status check #${progress.attempts})`
+
+  return new Date(job.createdAt).toLocaleString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+export default function VideoJobsPanel({
+  jobs,
+  jobsProgress,
+  isRefreshing,
+  onRefresh,
+  onJobSelect,
+}: {
+  jobs: VideoJobI[]
+  jobsProgress: { [jobID: string]: VideoJobProgressEventI }
+  isRefreshing: boolean
+  onRefresh: () => void
+  onJobSelect: (job: VideoJobI) => void
+}) {
+  const [expanded, setExpanded] = useState(false)
+
+  const pendingCount = jobs.filter((job) => job.status === 'pending').length
+
+  return (
+    <Accordion disableGutters expanded={expanded} onChange={() => setExpanded(!expanded)} sx={CustomizedAccordion}>
+      <AccordionSummary
+        expandIcon={<ArrowDownwardIcon sx={{ color: palette.primary.main }} />}
+        aria-controls="jobs-content"
+        id="jobs-header"
+        sx={CustomizedAccordionSummary}
+      >
+        <Typography display="inline" variant="body1" sx={{ fontWeight: 500 }}>
+          {`Video jobs${pendingCount > 0 ? ` (${pendingCount} in progress)` : ''}`}
+        </Typography>
+      </AccordionSummary>
+      <AccordionDetails sx={{ pt: 0, pb: 1 }}>
+        <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ pt: 1 }}>
+          <Typography sx={{ fontSize: '0.9rem', fontStyle: 'italic', color: palette.text.secondary }}>
+            {jobs.length > 0 ? 'Select a finished job to display its videos' : 'No video generation job yet'}
+          </Typography>
+          <CustomTooltip title="Refresh jobs" size="small">
+            <IconButton
+              disabled={isRefreshing}
+              onClick={onRefresh}
+              aria-label="Refresh jobs"
+              disableRipple
+              sx={{ px: 0.5 }}
+            >
+              <Avatar sx={CustomizedAvatarButton}>
+                <Autorenew sx={CustomizedIconButton} />
+              </Avatar>
+            </IconButton>
+          </CustomTooltip>
+        </Stack>
+        <List dense sx={{ maxHeight: 300, overflowY: 'auto' }}>
+          {jobs.map((job) => (
+            <ListItemButton
+              key={job.id}
+              disabled={job.status !== 'done'}
+              onClick={() => onJobSelect(job)}
+              sx={{ px: 1, borderRadius: 1, '&.Mui-disabled': { opacity: 1 } }}
+            >
+              <Stack direction="row" gap={1.5} alignItems="center" sx={{ width: '100%' }}>
+                {statusIcons[job.status]}
+                <Box sx={{ overflow: 'hidden', flexGrow: 1 }}>
+                  <Typography noWrap sx={{ fontSize: '0.9rem', fontWeight: 500, color: palette.text.primary }}>
+                    {job.metadata.prompt !== '' ? job.metadata.prompt : 'Video without prompt'}
+                  </Typography>
+                  <Typography
+                    noWrap
+                    sx={{
+                      fontSize: '0.8rem',
+                      color: job.status === 'failed' ? palette.error.main : palette.text.secondary,
+                    }}
+                  >
+                    {getJobIndication(job, jobsProgress[job.id])}
+                  </Typography>
+                </Box>
+              </Stack>
+            </ListItemButton>
+          ))}
+        </List>
+      </AccordionDetails>
+    </Accordion>
+  )
+}
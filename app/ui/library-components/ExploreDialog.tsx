@@ -19,15 +19,35 @@ import { useState } from 'react'
 
 import { Dialog, DialogContent, DialogTitle, IconButton, Slide, Box, Button, Typography, Stack } from '@mui/material'
 import { TransitionProps } from '@mui/material/transitions'
-import { ArrowRight, AutoAwesome, Close, Download, Edit, VideocamRounded } from '@mui/icons-material'
+import {
+  ArrowRight,
+  AutoAwesome,
+  Close,
+  Download,
+  Edit,
+  EditNote,
+  Save,
+  VideocamRounded,
+  WatchLater,
+} from '@mui/icons-material'
+import { SubmitHandler, useForm } from 'react-hook-form'
 import { useAppContext, appContextDataDefault } from '../../context/app-context'
 
 import theme from '../../theme'
-import { MediaMetadataI } from '../../api/export-utils'
+import {
+  FilterMediaFormI,
+  formatExportFieldValue,
+  MediaMetadataI,
+  toExportFieldFormValue,
+} from '../../api/export-utils'
+import { canManageMedia, isFeatureEnabled } from '../../api/permissions-utils'
 import { CustomizedSendButton } from '../ux-components/Button-SX'
 import { downloadMediaFromGcs } from '../../api/cloud-storage/action'
+import { updateFirestoreEntry } from '../../api/firestore/action'
 import { useRouter } from 'next/navigation'
 import { downloadBase64Media } from '../transverse-components/ExportDialog'
+import { ExportAlerts } from '../transverse-components/ExportAlerts'
+import FormInputExportField from '../ux-components/InputExportField'
 const { palette } = theme
 
 const Transition = React.forwardRef(function Transition(
@@ -43,12 +63,18 @@ export default function ExploreDialog({
   open,
   documentToExplore,
   handleMediaExploreClose,
+  handleMediaMetadataUpdate,
 }: {
   open: boolean
   documentToExplore: MediaMetadataI | undefined
   handleMediaExploreClose: () => void
+  handleMediaMetadataUpdate: (updatedDocument: MediaMetadataI) => void
 }) {
   const [downloadStatus, setDownloadStatus] = useState('Download')
+  const [isEditingMetadata, setIsEditingMetadata] = useState(false)
+  const [isSavingMetadata, setIsSavingMetadata] = useState(false)
+  const [errorMsg, setErrorMsg] = useState('')
+  const { handleSubmit, control, setValue, reset } = useForm<FilterMediaFormI>()
 
   const { setAppContext } = useAppContext()
   const router = useRouter()
@@ -104,11 +130,50 @@ export default function ExploreDialog({
   const { appContext } = useAppContext()
   const exportMetaOptions = appContext ? appContext.exportMetaOptions : appContextDataDefault.exportMetaOptions
 
+  const updatableFields = exportMetaOptions
+    ? Object.entries(exportMetaOptions).filter(([, field]) => field.isUpdatable)
+    : []
+
+  const handleEditMetadataClick = (documentToExplore: MediaMetadataI) => {
+    // Stored values (ex: { marketing: true }) are turned back into the inputs' values (ex: ['marketing'])
+    const currentValues: FilterMediaFormI = {}
+    updatableFields.forEach(([name, field]) => {
+      currentValues[name] = toExportFieldFormValue(field, documentToExplore[name])
+    })
+
+    reset(currentValues)
+    setIsEditingMetadata(true)
+  }
+
+  const handleMetadataSubmit: SubmitHandler<FilterMediaFormI> = async (formData: FilterMediaFormI) => {
+    if (!documentToExplore || !exportMetaOptions) return
+    setIsSavingMetadata(true)
+
+    try {
+      const res = await updateFirestoreEntry(documentToExplore.id, formData)
+      if (typeof res === 'object' && 'error' in res) throw Error(res.error.replaceAll('Error: ', ''))
+
+      handleMediaMetadataUpdate(res)
+      setIsEditingMetadata(false)
+    } catch (error: any) {
+      console.error(error)
+      setErrorMsg(error.message || 'Error while updating metadata')
+    } finally {
+      setIsSavingMetadata(false)
+    }
+  }
+
+  const onClose = () => {
+    setIsEditingMetadata(false)
+    setErrorMsg('')
+    handleMediaExploreClose()
+  }
+
   if (exportMetaOptions)
     return (
       <Dialog
         open={open}
-        onClose={handleMediaExploreClose}
+        onClose={onClose}
         aria-describedby="explore media metadata"
         TransitionComponent={Transition}
         PaperProps={{
@@ -128,7 +193,7 @@ export default function ExploreDialog({
       >
         <IconButton
           aria-label="close"
-          onClick={handleMediaExploreClose}
+          onClick={onClose}
           sx={{
             position: 'absolute',
             right: 8,
@@ -149,26 +214,49 @@ export default function ExploreDialog({
                 alignContent: 'center',
               }}
             >
-              {'Explore media metadata'}
+              {isEditingMetadata ? 'Edit media metadata' : 'Explore media metadata'}
             </Typography>
           </DialogTitle>
-          <Box sx={{ pt: 1, pb: 2, width: '90%' }}>
+          {isEditingMetadata && documentToExplore && (
+            <form onSubmit={handleSubmit(handleMetadataSubmit)}>
+              <Box sx={{ py: 2, width: '90%', flexWrap: 'wrap', justifyContent: 'flex-start' }}>
+                {updatableFields.map(([name, field]) => (
+                  <Box key={name} py={1} width="100%">
+                    <FormInputExportField
+                      name={name}
+                      field={field}
+                      key={name}
+                      control={control}
+                      setValue={setValue}
+                      width="400"
+                    />
+                  </Box>
+                ))}
+              </Box>
+              <Box sx={{ mb: 2, display: 'flex', justifyContent: 'flex-start' }}>
+                <Button
+                  type="submit"
+                  variant="contained"
+                  disabled={isSavingMetadata}
+                  endIcon={isSavingMetadata ? <WatchLater /> : <Save />}
+                  sx={{ ...CustomizedSendButton, ...{ fontSize: '0.8rem' } }}
+                >
+                  {isSavingMetadata ? 'Saving...' : 'Save metadata'}
+                </Button>
+                <Button
+                  disabled={isSavingMetadata}
+                  onClick={() => setIsEditingMetadata(false)}
+                  sx={{ ...CustomizedSendButton, ...{ fontSize: '0.8rem' } }}
+                >
+                  {'Cancel'}
+                </Button>
+              </Box>
+            </form>
+          )}
+          <Box sx={{ pt: 1, pb: 2, width: '90%', display: isEditingMetadata ? 'none' : 'block' }}>
             {documentToExplore &&
               Object.entries(exportMetaOptions).map(([key, fieldConfig]) => {
-                const value = documentToExplore[key]
-                let displayValue = value ? `${value}` : null
-
-                if (displayValue && typeof value === 'object') {
-                  displayValue = Object.keys(value)
-                    .filter((val) => value[val])
-                    .map((val) => {
-                      const matchingOption = fieldConfig.options?.find(
-                        (option: { value: string }) => option.value === val
-                      )
-                      return matchingOption ? matchingOption.label : val
-                    })
-                    .join(', ')
-                }
+                const displayValue = formatExportFieldValue(fieldConfig, documentToExplore[key])
 
                 const displayLabel = fieldConfig.name || fieldConfig.label
 
@@ -191,7 +279,7 @@ export default function ExploreDialog({
                 }
               })}
           </Box>
-          <Stack direction="row" gap={0} pb={3}>
+          <Stack direction="row" gap={0} pb={3} sx={{ display: isEditingMetadata ? 'none' : 'flex' }}>
             {documentToExplore && (
               <>
                 <Box sx={{ mb: 2, display: 'flex', justifyContent: 'flex-start' }}>
@@ -217,20 +305,35 @@ export default function ExploreDialog({
                     {'Replay prompt'}
                   </Button>
                 </Box>
-                {process.env.NEXT_PUBLIC_EDIT_ENABLED === 'true' && documentToExplore.format !== 'MP4' && (
+                {updatableFields.length > 0 && canManageMedia(appContext, documentToExplore) && (
                   <Box sx={{ mb: 2, display: 'flex', justifyContent: 'flex-start' }}>
                     <Button
                       variant="contained"
-                      onClick={() => handleEditClick(documentToExplore ? documentToExplore.gcsURI : '')}
-                      endIcon={<Edit />}
+                      onClick={() => handleEditMetadataClick(documentToExplore)}
+                      endIcon={<EditNote />}
                       sx={{ ...CustomizedSendButton, ...{ fontSize: '0.8rem' } }}
                     >
-                      {'Edit'}
+                      {'Edit metadata'}
                     </Button>
                   </Box>
                 )}
+                {process.env.NEXT_PUBLIC_EDIT_ENABLED === 'true' &&
+                  isFeatureEnabled(appContext, 'imageEdition') &&
+                  documentToExplore.format !== 'MP4' && (
+                    <Box sx={{ mb: 2, display: 'flex', justifyContent: 'flex-start' }}>
+                      <Button
+                        variant="contained"
+                        onClick={() => handleEditClick(documentToExplore ? documentToExplore.gcsURI : '')}
+                        endIcon={<Edit />}
+                        sx={{ ...CustomizedSendButton, ...{ fontSize: '0.8rem' } }}
+                      >
+                        {'Edit'}
+                      </Button>
+                    </Box>
+                  )}
                 {process.env.NEXT_PUBLIC_VEO_ENABLED === 'true' &&
                   process.env.NEXT_PUBLIC_VEO_ITV_ENABLED === 'true' &&
+                  isFeatureEnabled(appContext, 'videoGeneration') &&
                   documentToExplore.format !== 'MP4' && (
                     <Box sx={{ mb: 2, display: 'flex', justifyContent: 'flex-start' }}>
                       <Button
@@ -247,6 +350,8 @@ export default function ExploreDialog({
             )}
           </Stack>
         </DialogContent>
+
+        {errorMsg !== '' && <ExportAlerts message={errorMsg} style="error" onClose={() => setErrorMsg('')} />}
       </Dialog>
     )
 }
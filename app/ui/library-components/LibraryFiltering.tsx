@@ -15,7 +15,7 @@
 'use client'
 
 import * as React from 'react'
-import { useForm, SubmitHandler, useWatch } from 'react-hook-form'
+import { useForm, SubmitHandler, Controller } from 'react-hook-form'
 import {
   Typography,
   Accordion,
@@ -26,25 +26,83 @@ import {
   IconButton,
   Stack,
   Avatar,
+  TextField,
+  InputAdornment,
 } from '@mui/material'
 import {
   Send as SendIcon,
   WatchLater as WatchLaterIcon,
   ArrowDownward as ArrowDownwardIcon,
   Autorenew,
+  Search,
 } from '@mui/icons-material'
 
 import theme from '../../theme'
 import { CustomizedAvatarButton, CustomizedIconButton, CustomizedSendButton } from '../ux-components/Button-SX'
-import { useEffect, useRef } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import CustomTooltip from '../ux-components/Tooltip'
 import { CustomizedAccordion, CustomizedAccordionSummary } from '../ux-components/Accordion-SX'
-import { FilterMediaFormI } from '../../api/export-utils'
+import {
+  exportRangeFieldTypes,
+  filterModeField,
+  FilterMediaFormI,
+  getExportFieldFilterOptions,
+  libraryFieldFilters,
+  toStoredExportFieldValue,
+} from '../../api/export-utils'
+import { countDocumentsByFilter } from '../../api/firestore/action'
 import FormInputChipGroupMultiple from '../ux-components/InputChipGroupMultiple'
+import FormInputChipGroup from '../ux-components/InputChipGroup'
 import { useAppContext, appContextDataDefault } from '../../context/app-context'
 
 const { palette } = theme
 
+const CustomizedFilterTextField = {
+  '& .MuiInputBase-root': { fontSize: '0.9rem', color: palette.primary.main },
+}
+
+const propertyTextFilters: { name: string; label: string; type: 'text' | 'date' | 'number'; width: string }[] = [
+  { name: 'author', label: libraryFieldFilters.author.label, type: 'text', width: '25%' },
+  { name: 'creationDateFrom', label: 'Generated from', type: 'date', width: '15%' },
+  { name: 'creationDateTo', label: 'Generated until', type: 'date', width: '15%' },
+  { name: 'videoDurationMin', label: 'Min. duration (sec)', type: 'number', width: '12%' },
+  { name: 'videoDurationMax', label: 'Max. duration (sec)', type: 'number', width: '12%' },
+]
+
+function FilterTextField({
+  name,
+  label,
+  control,
+  type,
+  width,
+}: {
+  name: string
+  label: string
+  control: any
+  type: 'text' | 'date' | 'number'
+  width: string
+}) {
+  return (
+    <Controller
+      name={name}
+      control={control}
+      render={({ field: { onChange, value } }) => (
+        <TextField
+          onChange={onChange}
+          value={value ?? ''}
+          type={type}
+          label={label}
+          variant="standard"
+          size="small"
+          InputLabelProps={{ shrink: true, sx: { color: palette.text.primary, fontWeight: 500, fontSize: '1rem' } }}
+          inputProps={type === 'number' ? { min: 0 } : {}}
+          sx={{ ...CustomizedFilterTextField, width: width }}
+        />
+      )}
+    />
+  )
+}
+
 export default function LibraryFiltering({
   isMediasLoading,
   setIsMediasLoading,
@@ -60,53 +118,88 @@ export default function LibraryFiltering({
   openFilters: boolean
   setOpenFilters: any
 }) {
-  const { handleSubmit, reset, control, setValue } = useForm<FilterMediaFormI>()
+  const { handleSubmit, reset, control, setValue } = useForm<FilterMediaFormI>({
+    defaultValues: {
+      filterMode: filterModeField.default,
+      searchQuery: '',
+      author: '',
+      creationDateFrom: '',
+      creationDateTo: '',
+      videoDurationMin: '',
+      videoDurationMax: '',
+    },
+  })
 
   const { appContext } = useAppContext()
   const ExportImageFormFields = appContext ? appContext.exportMetaOptions : appContextDataDefault.exportMetaOptions
   let temp2: any = []
+  let rangeFilterFields: { key: string; label: string; type: 'date' | 'number'; field: any }[] = []
   if (ExportImageFormFields) {
     Object.entries(ExportImageFormFields).forEach(([name, field]) => {
-      if (field.isExportVisible && field.options !== undefined) {
-        temp2.push({ key: name, field: field })
+      const options = getExportFieldFilterOptions(field)
+      if (field.isExportVisible && options !== undefined) {
+        temp2.push({ key: name, field: { ...field, options: options } })
+      }
+      if (field.isExportVisible && exportRangeFieldTypes.includes(field.type)) {
+        rangeFilterFields.push({
+          key: name,
+          label: field.name || field.label,
+          type: field.type as 'date' | 'number',
+          field: field,
+        })
       }
     })
   }
 
   const MetadataFilterFields = temp2
 
-  const watchedFields = useWatch({ control })
-  const watchedFieldValues = useWatch({
-    control,
-    name: MetadataFilterFields.map((field: { key: any }) => field.key),
-  })
-
-  const prevSelectedFields = useRef<Set<string>>(new Set())
-
+  // Number of medias each filter option would return along with the applied filters,
+  // only fetched again when filters are opened after being applied
+  const [appliedFilters, setAppliedFilters] = useState<any>(null)
+  const [filterCounts, setFilterCounts] = useState<{ [combinedFilter: string]: number }>({})
+  const countedRequest = useRef('')
   useEffect(() => {
-    const activeFieldKeys = MetadataFilterFields.filter(
-      (field: { key: string | number }) => watchedFields[field.key]?.length > 0
-    ).map((field: { key: any }) => field.key)
+    if (!openFilters || MetadataFilterFields.length === 0) return
 
-    // Check if any new fields have been selected
-    const newSelections = activeFieldKeys.filter((key: any) => !prevSelectedFields.current.has(key))
+    const filterOptions = Object.fromEntries(
+      MetadataFilterFields.map(({ key, field }: any) => [key, field.options.map(({ value }: any) => value)])
+    )
+    const request = JSON.stringify({ filterOptions, appliedFilters })
+    if (request === countedRequest.current) return
+    countedRequest.current = request
 
-    if (newSelections.length > 0)
-      // If there are new selections, reset other fields
-      MetadataFilterFields.forEach((field: { key: any }) => {
-        if (!newSelections.includes(field.key)) setValue(field.key, [])
-      })
+    countDocumentsByFilter(filterOptions, appliedFilters ?? undefined).then((res) => {
+      if ('error' in res) console.error(res.error)
+      else setFilterCounts(res)
+    })
+  }, [openFilters, appliedFilters, ExportImageFormFields])
 
-    // Update the set of previously selected fields
-    prevSelectedFields.current = new Set(activeFieldKeys)
-  }, [watchedFieldValues, setValue])
+  const withCount = (key: string, options: { value: string; label: string }[]) =>
+    options.map((option) => {
+      const count = filterCounts[`${key}_${option.value}`]
+      return count !== undefined ? { ...option, label: `${option.label} (${count})` } : option
+    })
 
   const onSubmit: SubmitHandler<FilterMediaFormI> = async (formData: FilterMediaFormI) => {
     setIsMediasLoading(true)
     setOpenFilters(false)
 
+    // Number & date fields ranges are sent as stored values (ex: dates as timestamps)
+    const fieldRanges = Object.fromEntries(
+      rangeFilterFields
+        .map(({ key, field }) => [
+          key,
+          {
+            min: toStoredExportFieldValue(field, formData[`${key}Min`]) ?? undefined,
+            max: toStoredExportFieldValue(field, formData[`${key}Max`]) ?? undefined,
+          },
+        ])
+        .filter(([, range]: any) => range.min !== undefined || range.max !== undefined)
+    )
+
     try {
-      submitFilters(formData)
+      submitFilters({ ...formData, fieldRanges: fieldRanges })
+      setAppliedFilters({ ...formData, fieldRanges: fieldRanges })
     } catch (error: any) {
       setErrorMsg(error.toString())
     }
@@ -131,30 +224,114 @@ export default function LibraryFiltering({
           </Typography>
         </AccordionSummary>
         <AccordionDetails sx={{ pt: 1, pl: 3 }}>
+          <Controller
+            name="searchQuery"
+            control={control}
+            render={({ field: { onChange, value } }) => (
+              <TextField
+                onChange={onChange}
+                value={value}
+                variant="standard"
+                placeholder="Search in prompts, authors, media IDs & text metadata"
+                size="small"
+                InputProps={{
+                  startAdornment: (
+                    <InputAdornment position="start">
+                      <Search sx={{ color: palette.secondary.main, fontSize: '1.3rem' }} />
+                    </InputAdornment>
+                  ),
+                }}
+                sx={{ width: '60%', mb: 2, '& .MuiInputBase-root': { fontSize: '1rem', color: palette.primary.main } }}
+              />
+            )}
+          />
           <Typography
             display="inline"
             sx={{ fontSize: '0.9rem', fontStyle: 'italic', color: palette.text.secondary, my: 2 }}
           >
-            {'Filters can have multiple values, but only one filter can be used at once'}
+            {'Medias match a filter if they have any of its selected values, and can be required to match all filters'}
           </Typography>
+          <Box sx={{ pt: 2 }}>
+            <FormInputChipGroup
+              name="filterMode"
+              label={filterModeField.label}
+              key="filterMode"
+              control={control}
+              setValue={setValue}
+              width="400"
+              field={filterModeField}
+              required={true}
+            />
+          </Box>
           <Stack direction="row" spacing={5} sx={{ pr: 4, pt: 2 }}>
             {MetadataFilterFields.map(function ({ key, field }: any) {
               return (
                 <Box key={key} width="100%" sx={{ px: 0 }}>
                   <FormInputChipGroupMultiple
                     name={key}
-                    label={field.name}
+                    label={field.name || field.label}
                     key={key}
                     control={control}
                     setValue={setValue}
                     width="400"
-                    options={field.options}
+                    options={withCount(key, field.options)}
                     required={false}
                   />
                 </Box>
               )
             })}
           </Stack>
+          <Typography
+            display="block"
+            sx={{ fontSize: '0.9rem', fontStyle: 'italic', color: palette.text.secondary, pt: 3 }}
+          >
+            {'Media properties filters always have to match'}
+          </Typography>
+          <Stack direction="row" spacing={5} sx={{ pr: 4, pt: 2 }}>
+            {Object.entries(libraryFieldFilters)
+              .filter(([, filter]) => filter.options !== undefined)
+              .map(([key, filter]) => (
+                <Box key={key} width="100%" sx={{ px: 0 }}>
+                  <FormInputChipGroupMultiple
+                    name={key}
+                    label={filter.label}
+                    key={key}
+                    control={control}
+                    setValue={setValue}
+                    width="400"
+                    options={filter.options}
+                    required={false}
+                  />
+                </Box>
+              ))}
+          </Stack>
+          <Stack direction="row" spacing={3} sx={{ pr: 4, pt: 2 }}>
+            {propertyTextFilters.map(({ name, label, type, width }) => (
+              <FilterTextField key={name} name={name} label={label} control={control} type={type} width={width} />
+            ))}
+          </Stack>
+          {rangeFilterFields.length > 0 && (
+            <Stack direction="row" spacing={3} sx={{ pr: 4, pt: 2, flexWrap: 'wrap' }}>
+              {rangeFilterFields.flatMap(({ key, label, type }) => [
+                <FilterTextField
+                  key={`${key}Min`}
+                  name={`${key}Min`}
+                  label={type === 'date' ? `${label} from` : `Min. ${label}`}
+                  control={control}
+                  type={type}
+                  width="15%"
+                />,
+                <FilterTextField
+                  key={`${key}Max`}
+                  name={`${key}Max`}
+                  label={type === 'date' ? `${label} until` : `Max. ${label}`}
+                  control={control}
+                  type={type}
+                  width="15%"
+                />,
+              ])}
+            </Stack>
+          )}
           <Stack direction="row" gap={1} sx={{ pt: 2, pl: 0 }}>
             <Button
               type="submit"
@@ -36,6 +36,7 @@ import { blurDataURL } from '@/app/ui/ux-components/BlurImage'
 import {
   ArrowBackIos,
   ArrowForwardIos,
+  CheckCircle,
   Info,
   PlayArrowRounded,
   RadioButtonUnchecked,
@@ -59,21 +60,26 @@ export default function LibraryMediasDisplay({
   fetchedMediasByPage,
   handleLoadMore,
   isMorePageToLoad,
-  isDeleteSelectActive,
-  selectedDocIdsForDelete,
-  onToggleDeleteSelect,
+  selectionMode,
+  selectedDocIds,
+  onToggleSelect,
+  isSelectable,
+  onMediaMetadataUpdate,
 }: {
   isMediasLoading: boolean
   fetchedMediasByPage: MediaMetadataWithSignedUrl[][]
   handleLoadMore: () => void
   isMorePageToLoad: boolean
-  isDeleteSelectActive: boolean
-  selectedDocIdsForDelete: string[]
-  onToggleDeleteSelect: (docId: string) => void
+  selectionMode: 'delete' | 'download' | null
+  selectedDocIds: string[]
+  onToggleSelect: (docId: string) => void
+  isSelectable: (doc: MediaMetadataI) => boolean
+  onMediaMetadataUpdate: (updatedDocument: MediaMetadataI) => void
 }) {
   const [page, setPage] = useState(1)
   const [maxPage, setMaxPage] = useState(0)
   const [currentPageImages, setCurrentPageImages] = useState<MediaMetadataWithSignedUrl[]>([])
+  const isSelectActive = selectionMode !== null
 
   useEffect(() => {
     if (fetchedMediasByPage[page - 1]) setCurrentPageImages(fetchedMediasByPage[page - 1])
@@ -94,7 +100,7 @@ export default function LibraryMediasDisplay({
   function ImageDisplay({ doc }: { doc: MediaMetadataWithSignedUrl }) {
     return (
       <>
-        {!isDeleteSelectActive && (
+        {!isSelectActive && (
           <Box
             sx={{
               position: 'absolute',
@@ -140,7 +146,7 @@ export default function LibraryMediasDisplay({
             pointerEvents: 'none',
           }}
         />
-        {!isDeleteSelectActive && (
+        {!isSelectActive && (
           <Box
             sx={{
               position: 'absolute',
@@ -209,9 +215,9 @@ export default function LibraryMediasDisplay({
           }}
           position="top"
           actionIcon={
-            isDeleteSelectActive ? (
+            isSelectActive && isSelectable(doc) ? (
               <IconButton
-                onClick={() => onToggleDeleteSelect(doc.id)}
+                onClick={() => onToggleSelect(doc.id)}
                 aria-label="Explore media"
                 sx={{
                   px: 0.5,
@@ -222,7 +228,16 @@ export default function LibraryMediasDisplay({
                   },
                 }}
               >
-                {selectedDocIdsForDelete.includes(doc.id) ? (
+                {selectedDocIds.includes(doc.id) && selectionMode === 'download' ? (
+                  <CheckCircle
+                    sx={{
+                      ...CustomizedIconButton,
+                      color: palette.primary.main,
+                      fontSize: '1.3rem',
+                      '&:hover': { fontSize: '1.4rem' },
+                    }}
+                  />
+                ) : selectedDocIds.includes(doc.id) ? (
                   <RemoveCircle
                     sx={{
                       ...CustomizedIconButton,
@@ -237,7 +252,10 @@ export default function LibraryMediasDisplay({
                       ...CustomizedIconButton,
                       color: 'white',
                       fontSize: '1.3rem',
-                      '&:hover': { color: palette.error.main, fontSize: '1.4rem' },
+                      '&:hover': {
+                        color: selectionMode === 'download' ? palette.primary.main : palette.error.main,
+                        fontSize: '1.4rem',
+                      },
                     }}
                   />
                 )}
@@ -255,7 +273,7 @@ export default function LibraryMediasDisplay({
         />
       </ImageListItem>
     ))
-  }, [currentPageImages, isDeleteSelectActive, selectedDocIdsForDelete])
+  }, [currentPageImages, isSelectActive, selectionMode, isSelectable, selectedDocIds])
 
   return (
     <>
@@ -291,7 +309,7 @@ export default function LibraryMediasDisplay({
         )}
       </Box>
 
-      {mediaFullScreen !== undefined && mediaFullScreen.format !== 'MP4' && !isDeleteSelectActive && (
+      {mediaFullScreen !== undefined && mediaFullScreen.format !== 'MP4' && !isSelectActive && (
         <Modal
           open={mediaFullScreen !== undefined}
           onClose={() => setMediaFullScreen(undefined)}
@@ -320,7 +338,7 @@ export default function LibraryMediasDisplay({
         </Modal>
       )}
 
-      {mediaFullScreen !== undefined && mediaFullScreen.format === 'MP4' && !isDeleteSelectActive && (
+      {mediaFullScreen !== undefined && mediaFullScreen.format === 'MP4' && !isSelectActive && (
         <Modal
           open={mediaFullScreen !== undefined}
           onClose={() => setMediaFullScreen(undefined)}
@@ -366,6 +384,10 @@ export default function LibraryMediasDisplay({
         open={mediaToExplore !== undefined}
         documentToExplore={mediaToExplore}
         handleMediaExploreClose={() => setMediaToExplore(undefined)}
+        handleMediaMetadataUpdate={(updatedDocument) => {
+          setMediaToExplore(updatedDocument)
+          onMediaMetadataUpdate(updatedDocument)
+        }}
       />
     </>
   )
@@ -0,0 +1,84 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+'use client'
+
+import * as React from 'react'
+import { useState } from 'react'
+import { Button, Menu, MenuItem } from '@mui/material'
+import { FileDownload } from '@mui/icons-material'
+
+import theme from '../../theme'
+import { FilterMediaFormI, getSelectedFilters, LibrarySortT } from '../../api/export-utils'
+import { CustomizedSendButton } from '../ux-components/Button-SX'
+const { palette } = theme
+
+const exportFormats = [
+  { value: 'csv', label: 'CSV (spreadsheet)' },
+  { value: 'json', label: 'JSON' },
+]
+
+// Downloads the metadata of every media matching the current Library query, not only of the loaded ones
+export default function LibraryMetadataExport({
+  filters,
+  sort,
+  disabled,
+}: {
+  filters: FilterMediaFormI
+  sort: LibrarySortT
+  disabled: boolean
+}) {
+  const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null)
+
+  const handleExport = (format: string) => {
+    setAnchorEl(null)
+
+    const params = new URLSearchParams({
+      format: format,
+      sort: sort,
+      filters: JSON.stringify(getSelectedFilters(filters)),
+    })
+    const link = document.createElement('a')
+    link.href = `/api/firestore/metadata-export?${params.toString()}`
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+  }
+
+  return (
+    <>
+      <Button
+        onClick={(event) => setAnchorEl(event.currentTarget)}
+        variant="contained"
+        disabled={disabled}
+        endIcon={<FileDownload />}
+        sx={CustomizedSendButton}
+      >
+        {'Export metadata'}
+      </Button>
+      <Menu
+        anchorEl={anchorEl}
+        open={anchorEl !== null}
+        onClose={() => setAnchorEl(null)}
+        sx={{ '& .MuiPaper-root': { background: 'white', color: palette.text.primary, boxShadow: 1 } }}
+      >
+        {exportFormats.map(({ value, label }) => (
+          <MenuItem key={value} onClick={() => handleExport(value)} sx={{ '&:hover': { fontWeight: 500 } }}>
+            {label}
+          </MenuItem>
+        ))}
+      </Menu>
+    </>
+  )
+}
@@ -0,0 +1,70 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+'use client'
+
+import * as React from 'react'
+import { MenuItem, TextField } from '@mui/material'
+
+import theme from '../../theme'
+import { librarySortOptions, LibrarySortT } from '../../api/export-utils'
+const { palette } = theme
+
+const CustomizedMenu = {
+  sx: {
+    '& .MuiPaper-root': {
+      background: 'white',
+      color: palette.text.primary,
+      boxShadow: 1,
+      '& .MuiMenuItem-root': {
+        background: 'transparent',
+        py: 0.5,
+        '&:hover': { fontWeight: 500, pl: 2.5 },
+        '&.Mui-selected': { background: 'transparent', color: palette.primary.main, fontWeight: 500 },
+      },
+    },
+  },
+}
+
+export default function LibrarySorting({
+  sort,
+  onSortChange,
+  disabled,
+}: {
+  sort: LibrarySortT
+  onSortChange: (sort: LibrarySortT) => void
+  disabled: boolean
+}) {
+  return (
+    <TextField
+      select
+      value={sort}
+      onChange={(event) => onSortChange(event.target.value as LibrarySortT)}
+      disabled={disabled}
+      variant="standard"
+      size="small"
+      label="Sort by"
+      InputLabelProps={{ sx: { color: palette.text.primary, fontWeight: 500, fontSize: '1rem' } }}
+      InputProps={{ sx: { color: palette.primary.main, fontSize: '1rem' } }}
+      SelectProps={{ MenuProps: CustomizedMenu }}
+      sx={{ width: 180, mr: 3, '& .MuiSvgIcon-root': { color: palette.text.secondary } }}
+    >
+      {librarySortOptions.map(({ value, label }) => (
+        <MenuItem key={value} value={value}>
+          {label}
+        </MenuItem>
+      ))}
+    </TextField>
+  )
+}
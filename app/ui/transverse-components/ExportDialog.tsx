@@ -13,7 +13,7 @@
 // limitations under the License.
 
 import * as React from 'react'
-import { useEffect, useState } from 'react'
+import { useState } from 'react'
 
 import {
   Dialog,
@@ -50,7 +50,7 @@ import { CustomRadio } from '../ux-components/InputRadioButton'
 
 import { ExportMediaFormFieldsI, ExportMediaFormI } from '../../api/export-utils'
 import { Controller, set, SubmitHandler, useForm } from 'react-hook-form'
-import FormInputChipGroupMultiple from '../ux-components/InputChipGroupMultiple'
+import FormInputExportField from '../ux-components/InputExportField'
 import { CloseWithoutSubmitWarning, ExportAlerts } from '../transverse-components/ExportAlerts'
 
 import theme from '../../theme'
@@ -58,7 +58,7 @@ import {
   copyImageToTeamBucket,
   downloadMediaFromGcs,
   getVideoThumbnailBase64,
-  uploadBase64Image,
+  uploadLibraryThumbnail,
 } from '../../api/cloud-storage/action'
 import { upscaleImage } from '../../api/imagen/action'
 import { addNewFirestoreEntry } from '../../api/firestore/action'
@@ -85,26 +85,37 @@ export const downloadBase64Media = (base64Data: any, filename: string, format: s
   document.body.removeChild(link)
 }
 
+const exportDoneStatus = 'Exported'
+
+// Several medias can be exported at once, all with the same metadata
 export default function ExportStepper({
   open,
   upscaleAvailable,
   mediaToExport,
+  mediasToExport,
   handleMediaExportClose,
+  previewFields,
 }: {
   open: boolean
   upscaleAvailable: boolean
-  mediaToExport: ImageI | VideoI | undefined
+  mediaToExport?: ImageI | VideoI
+  mediasToExport?: (ImageI | VideoI)[]
   handleMediaExportClose: () => void
+  previewFields?: ExportMediaFormFieldsI
 }) {
+  const medias = React.useMemo(
+    () => mediasToExport ?? (mediaToExport ? [mediaToExport] : []),
+    [mediaToExport, mediasToExport]
+  )
+  const isBulk = medias.length > 1
+
   const [activeStep, setActiveStep] = useState(0)
   const [isCloseWithoutSubmit, setIsCloseWithoutSubmit] = useState(false)
   const [isExporting, setIsExporting] = useState(false)
-  const [exportStatus, setExportStatus] = useState('')
   const [errorMsg, setErrorMsg] = useState('')
   const [isDownload, setIsDownload] = useState(false)
   const {
     handleSubmit,
-    resetField,
     control,
     setValue,
     getValues,
@@ -113,10 +124,6 @@ export default function ExportStepper({
     defaultValues: { upscaleFactor: 'no' },
   })
 
-  useEffect(() => {
-    if (mediaToExport) setValue('mediaToExport', mediaToExport)
-  }, [mediaToExport])
-
   const handleNext = () => {
     setActiveStep((prevActiveStep) => prevActiveStep + 1)
     setIsCloseWithoutSubmit(false)
@@ -131,7 +138,9 @@ export default function ExportStepper({
   }
 
   const { appContext } = useAppContext()
-  const exportMediaFormFields = appContext ? appContext.exportMetaOptions : appContextDataDefault.exportMetaOptions
+  // Fields being edited by an admin can be previewed, in which case nothing is exported on submit
+  const exportMediaFormFields =
+    previewFields ?? (appContext ? appContext.exportMetaOptions : appContextDataDefault.exportMetaOptions)
 
   let metadataReviewFields: any
   var infoToReview: { label: string; value: string }[] = []
@@ -147,16 +156,19 @@ export default function ExportStepper({
         exportMediaFormFields[field].isExportVisible &&
         !exportMediaFormFields[field].isUpdatable
     )
-    mediaToExport &&
-      metadataReviewFields.forEach((field: any) => {
-        const prop = exportMediaFormFields[field].prop
-        const value = mediaToExport[prop as keyof (ImageI | VideoI)]
-        if (prop && value)
-          infoToReview.push({
-            label: exportMediaFormFields[field].label,
-            value: value.toString(),
-          })
-      })
+    // Distinct values of the exported medias are listed together (ex: 'Ratio: 1:1, 16:9')
+    metadataReviewFields.forEach((field: any) => {
+      const prop = exportMediaFormFields[field].prop
+      const values = medias
+        .map((media) => media[prop as keyof (ImageI | VideoI)])
+        .filter((value) => prop && value)
+        .map((value) => value.toString())
+      if (values.length > 0)
+        infoToReview.push({
+          label: exportMediaFormFields[field].label,
+          value: Array.from(new Set(values)).join(', '),
+        })
+    })
 
     Object.entries(exportMediaFormFields).forEach(([name, field]) => {
       if (field.isUpdatable && field.isExportVisible) temp.push({ [name]: field })
@@ -164,113 +176,127 @@ export default function ExportStepper({
   }
   const MetadataImproveFields = temp
 
-  const handleImageExportSubmit: SubmitHandler<ExportMediaFormI> = React.useCallback(
-    async (formData: ExportMediaFormI) => {
-      setIsExporting(true)
-      setExportStatus('Starting...')
+  // Export progress of each media, medias of a bulk export being exported in parallel
+  const [mediaStatuses, setMediaStatuses] = useState<{ [key: string]: { status: string; error?: string } }>({})
+  const setMediaStatus = (key: string, status: string, error?: string) =>
+    setMediaStatuses((prevStatuses) => ({ ...prevStatuses, [key]: { status: status, error: error } }))
+
+  // Given media is copied, so it's left untouched if its export fails and is retried
+  const exportMedia = async (mediaToExport: ImageI | VideoI, formData: ExportMediaFormI) => {
+    const media = { ...mediaToExport }
+    const mediaData: ExportMediaFormI = { ...formData, mediaToExport: media }
+    const setStatus = (status: string) => setMediaStatus(media.key, status)
+
+    // 1. Upscale if needed
+    let res
+    const upscaleFactor = formData.upscaleFactor
+    if (upscaleFactor === 'x2' || upscaleFactor === 'x4') {
+      try {
+        setStatus('Upscaling...')
 
-      const media = formData.mediaToExport
+        res = await upscaleImage({ uri: media.gcsUri }, upscaleFactor, appContext)
+        if (typeof res === 'object' && 'error' in res && res.error) throw Error(res.error.replaceAll('Error: ', ''))
 
-      try {
-        // 1. Upscale if needed
-        let res
-        const upscaleFactor = formData.upscaleFactor
-        if (upscaleFactor === 'x2' || upscaleFactor === 'x4') {
-          try {
-            setExportStatus('Upscaling...')
-
-            res = await upscaleImage({ uri: media.gcsUri }, upscaleFactor, appContext)
-            if (typeof res === 'object' && 'error' in res && res.error) throw Error(res.error.replaceAll('Error: ', ''))
-
-            media.gcsUri = res.newGcsUri
-
-            media.width = media.width * parseInt(upscaleFactor.replace(/[^0-9]/g, ''))
-            media.height = media.height * parseInt(upscaleFactor.replace(/[^0-9]/g, ''))
-          } catch (error: any) {
-            throw Error(error)
-          }
-        }
+        media.gcsUri = res.newGcsUri
 
-        // 2. Copy media to team library
-        const currentGcsUri = media.gcsUri
-        const id = media.key
-        try {
-          setExportStatus('Exporting...')
-          const res = await copyImageToTeamBucket(currentGcsUri, id)
+        media.width = media.width * parseInt(upscaleFactor.replace(/[^0-9]/g, ''))
+        media.height = media.height * parseInt(upscaleFactor.replace(/[^0-9]/g, ''))
+      } catch (error: any) {
+        throw Error(error)
+      }
+    }
 
-          if (typeof res === 'object' && 'error' in res) throw Error(res.error.replaceAll('Error: ', ''))
+    // 2. Copy media to team library
+    const currentGcsUri = media.gcsUri
+    const id = media.key
+    try {
+      setStatus('Exporting...')
+      const res = await copyImageToTeamBucket(currentGcsUri, id)
 
-          const movedGcsUri = res
-          media.gcsUri = movedGcsUri
-        } catch (error: any) {
-          throw Error(error)
-        }
+      if (typeof res === 'object' && 'error' in res) throw Error(res.error.replaceAll('Error: ', ''))
 
-        // 2.5. If media is a video, upload its thumbnail
-        if (media.format === 'MP4') {
-          setExportStatus('Generating thumbnail...')
-
-          const result = await getVideoThumbnailBase64(media.gcsUri, media.ratio)
-          if (!result.thumbnailBase64Data) console.error('Failed to generate thumbnail:', result.error)
-          const thumbnailBase64Data = result.thumbnailBase64Data
-
-          if (thumbnailBase64Data && process.env.NEXT_PUBLIC_TEAM_BUCKET) {
-            try {
-              const uploadResult = await uploadBase64Image(
-                thumbnailBase64Data,
-                process.env.NEXT_PUBLIC_TEAM_BUCKET,
-                `${id}_thumbnail.png`,
-                'image/png'
-              )
-
-              if (uploadResult.success && uploadResult.fileUrl) formData.videoThumbnailGcsUri = uploadResult.fileUrl
-              else {
-                formData.videoThumbnailGcsUri = ''
-                console.warn('Video thumbnail upload failed:', uploadResult.error)
-              }
-            } catch (thumbError: any) {
-              console.error('Video thumbnail upload exception:', thumbError)
-            }
-          } else
-            console.warn(`Video ${id} is a video format but has no thumbnailBase64Data. Skipping thumbnail upload.`)
-        }
+      const movedGcsUri = res
+      media.gcsUri = movedGcsUri
+    } catch (error: any) {
+      throw Error(error)
+    }
 
-        // 3. Upload metadata to firestore
-        try {
-          setExportStatus('Saving data...')
+    // 2.5. If media is a video, upload its thumbnail
+    if (media.format === 'MP4') {
+      setStatus('Generating thumbnail...')
 
-          let res
-          if (exportMediaFormFields) res = await addNewFirestoreEntry(id, formData, exportMediaFormFields)
-          else throw Error("Can't find exportMediaFormFields")
+      const result = await getVideoThumbnailBase64(media.gcsUri, media.ratio)
+      if (!result.thumbnailBase64Data) console.error('Failed to generate thumbnail:', result.error)
+      const thumbnailBase64Data = result.thumbnailBase64Data
 
-          if (typeof res === 'object' && 'error' in res) throw Error(res.error.replaceAll('Error: ', ''))
-        } catch (error: any) {
-          throw Error(error)
-        }
+      if (thumbnailBase64Data && process.env.NEXT_PUBLIC_TEAM_BUCKET) {
+        try {
+          const uploadResult = await uploadLibraryThumbnail(thumbnailBase64Data, id)
 
-        // 4. DL locally if asked to
-        if (isDownload) {
-          try {
-            setExportStatus('Preparing download...')
-            const res = await downloadMediaFromGcs(media.gcsUri)
-            const name = `${media.key}.${media.format.toLowerCase()}`
-            downloadBase64Media(res.data, name, media.format)
-
-            if (typeof res === 'object' && res.error) throw Error(res.error.replaceAll('Error: ', ''))
-          } catch (error: any) {
-            throw Error(error)
+          if (uploadResult.success && uploadResult.fileUrl) mediaData.videoThumbnailGcsUri = uploadResult.fileUrl
+          else {
+            mediaData.videoThumbnailGcsUri = ''
+            console.warn('Video thumbnail upload failed:', uploadResult.error)
           }
+        } catch (thumbError: any) {
+          console.error('Video thumbnail upload exception:', thumbError)
         }
+      } else console.warn(`Video ${id} is a video format but has no thumbnailBase64Data. Skipping thumbnail upload.`)
+    }
+
+    // 3. Upload metadata to firestore
+    try {
+      setStatus('Saving data...')
+
+      const res = await addNewFirestoreEntry(id, mediaData)
+      if (typeof res === 'object' && 'error' in res) throw Error(res.error.replaceAll('Error: ', ''))
+    } catch (error: any) {
+      throw Error(error)
+    }
+
+    // 4. DL locally if asked to
+    if (isDownload) {
+      try {
+        setStatus('Preparing download...')
+        const res = await downloadMediaFromGcs(media.gcsUri)
+        const name = `${media.key}.${media.format.toLowerCase()}`
+        downloadBase64Media(res.data, name, media.format)
 
-        setExportStatus('')
-        setIsExporting(false)
-        onClose()
+        if (typeof res === 'object' && res.error) throw Error(res.error.replaceAll('Error: ', ''))
       } catch (error: any) {
-        console.log(error)
-        setErrorMsg('Error while exporting your image')
+        throw Error(error)
       }
+    }
+
+    setStatus(exportDoneStatus)
+  }
+
+  const handleImageExportSubmit: SubmitHandler<ExportMediaFormI> = React.useCallback(
+    async (formData: ExportMediaFormI) => {
+      if (previewFields) return onClose()
+
+      setIsExporting(true)
+      setErrorMsg('')
+
+      // Medias exported during a previous try are not exported again
+      const mediasToRetry = medias.filter(({ key }) => mediaStatuses[key]?.status !== exportDoneStatus)
+      const results = await Promise.allSettled(
+        mediasToRetry.map((media) =>
+          exportMedia(media, formData).catch((error: any) => {
+            console.log(error)
+            setMediaStatus(media.key, 'Failed', error?.message?.replaceAll('Error: ', ''))
+            throw error
+          })
+        )
+      )
+
+      setIsExporting(false)
+      const failedCount = results.filter(({ status }) => status === 'rejected').length
+      if (failedCount === 0) onClose()
+      else if (isBulk) setErrorMsg(`Error while exporting ${failedCount} of your ${medias.length} medias`)
+      else setErrorMsg('Error while exporting your image')
     },
-    [isDownload]
+    [isDownload, previewFields, medias, mediaStatuses, exportMediaFormFields]
   )
 
   const onCloseTry: DialogProps['onClose'] = (
@@ -290,9 +316,8 @@ export default function ExportStepper({
     handleMediaExportClose()
     setErrorMsg('')
     setIsExporting(false)
-    setExportStatus('')
+    setMediaStatuses({})
     setIsDownload(false)
-    resetField('mediaToExport')
   }
 
   function CustomStepIcon(props: StepIconProps) {
@@ -357,15 +382,13 @@ export default function ExportStepper({
 
             return (
               <Box key={param} py={1} pl={3} width="100%">
-                <FormInputChipGroupMultiple
+                <FormInputExportField
                   name={param}
-                  label={field.label}
+                  field={field}
                   key={param}
                   control={control}
                   setValue={setValue}
                   width="400"
-                  options={field.options}
-                  required={field.isMandatory ? field.isMandatory : false}
                 />
               </Box>
             )
@@ -376,6 +399,17 @@ export default function ExportStepper({
   }
 
   const isTooLarge = (width: number, height: number) => width > 5000 || height > 5000
+  // Sizes of a bulk export are the ones of its largest media, which must not become too large
+  const upscaleReference = medias.reduce<ImageI | VideoI | undefined>(
+    (largest, media) => (!largest || media.width * media.height > largest.width * largest.height ? media : largest),
+    undefined
+  )
+  const getSizeLabel = (factor: number) =>
+    upscaleReference
+      ? `${isBulk ? 'Up to ' : ''}${upscaleReference.width * factor} x ${upscaleReference.height * factor} px`
+      : ''
+  const isUpscaleTooLarge = (factor: number) =>
+    upscaleReference ? isTooLarge(upscaleReference.width * factor, upscaleReference.height * factor) : false
   const UpscaleStep = () => {
     return (
       <>
@@ -389,32 +423,24 @@ export default function ExportStepper({
             <RadioGroup {...field} sx={{ p: 2, pl: 3 }}>
               <CustomRadio
                 label="No upscaling"
-                subLabel={mediaToExport ? `${mediaToExport.width} x ${mediaToExport.height} px` : ''}
+                subLabel={getSizeLabel(1)}
                 value="no"
                 currentSelectedValue={field.value}
                 enabled={true}
               />
               <CustomRadio
                 label="Scale x2"
-                subLabel={
-                  mediaToExport && isTooLarge(mediaToExport.width * 2, mediaToExport.height * 2)
-                    ? 'Unavailable, image too large'
-                    : `${mediaToExport && mediaToExport.width * 2} x ${mediaToExport && mediaToExport.height * 2} px`
-                }
+                subLabel={isUpscaleTooLarge(2) ? 'Unavailable, image too large' : getSizeLabel(2)}
                 value="x2"
                 currentSelectedValue={field.value}
-                enabled={mediaToExport ? !isTooLarge(mediaToExport.width * 2, mediaToExport.height * 2) : true}
+                enabled={!isUpscaleTooLarge(2)}
               />
               <CustomRadio
                 label="Scale x4"
-                subLabel={
-                  mediaToExport && isTooLarge(mediaToExport.width * 4, mediaToExport.height * 4)
-                    ? 'Unavailable, image too large'
-                    : `${mediaToExport && mediaToExport.width * 4} x ${mediaToExport && mediaToExport.height * 4} px`
-                }
+                subLabel={isUpscaleTooLarge(4) ? 'Unavailable, image too large' : getSizeLabel(4)}
                 value="x4"
                 currentSelectedValue={field.value}
-                enabled={mediaToExport ? !isTooLarge(mediaToExport.width * 4, mediaToExport.height * 4) : true}
+                enabled={!isUpscaleTooLarge(4)}
               />
             </RadioGroup>
           )}
@@ -443,6 +469,13 @@ export default function ExportStepper({
     )
   }
 
+  const failedMedias = medias.filter(({ key }) => mediaStatuses[key]?.status === 'Failed')
+  const getSubmitLabel = () => {
+    if (isExporting) return isBulk ? 'Exporting...' : (mediaStatuses[medias[0]?.key]?.status ?? 'Exporting...')
+    if (failedMedias.length > 0) return isBulk ? `Retry ${failedMedias.length} failed` : 'Retry'
+    return isBulk ? `Export ${medias.length} medias` : 'Export'
+  }
+
   const SubmitBox = () => {
     return (
       <>
@@ -461,7 +494,9 @@ export default function ExportStepper({
               }}
             />
           }
-          label="Download this media locally while exporting"
+          label={
+            isBulk ? 'Download these medias locally while exporting' : 'Download this media locally while exporting'
+          }
           disableTypography
           sx={{
             px: 1.5,
@@ -483,7 +518,7 @@ export default function ExportStepper({
             endIcon={isExporting ? <WatchLater /> : <Send />}
             sx={CustomizedSendButton}
           >
-            {exportStatus ? exportStatus : 'Export'}
+            {getSubmitLabel()}
           </Button>
 
           <Button
@@ -494,6 +529,24 @@ export default function ExportStepper({
             {'Back'}
           </Button>
         </Box>
+
+        {isBulk && Object.keys(mediaStatuses).length > 0 && (
+          <Box sx={{ px: 1.5, pt: 2 }}>
+            {medias.map((media, index) => (
+              <Typography key={media.key} sx={{ fontSize: '0.9rem', color: palette.text.secondary }}>
+                {`Media ${index + 1} (${media.format}): `}
+                <Box
+                  component="span"
+                  sx={{ color: mediaStatuses[media.key]?.error ? palette.error.main : palette.text.primary }}
+                >
+                  {mediaStatuses[media.key]
+                    ? [mediaStatuses[media.key].status, mediaStatuses[media.key].error].filter(Boolean).join(' - ')
+                    : 'Waiting...'}
+                </Box>
+              </Typography>
+            ))}
+          </Box>
+        )}
       </>
     )
   }
@@ -542,7 +595,7 @@ export default function ExportStepper({
               alignContent: 'center',
             }}
           >
-            {'Export to internal Library'}
+            {`Export ${isBulk ? `${medias.length} medias ` : ''}to internal Library${previewFields ? ' (preview)' : ''}`}
           </Typography>
         </DialogTitle>
         <form onSubmit={handleSubmit(handleImageExportSubmit)}>
@@ -601,7 +654,6 @@ export default function ExportStepper({
           onClose={() => {
             setIsExporting(false)
             setErrorMsg('')
-            setExportStatus('')
           }}
         />
       )}
@@ -37,11 +37,13 @@ import { ImageI } from '../../api/generate-image-utils'
 import { CustomizedAvatarButton, CustomizedIconButton } from '../ux-components/Button-SX'
 import ExportStepper, { downloadBase64Media } from './ExportDialog'
 import DownloadDialog from './DownloadDialog'
+import { OutputSelectButton, OutputsSelectionBar } from './OutputsSelection'
 
 import theme from '../../theme'
 import { blurDataURL } from '../ux-components/BlurImage'
 import { CustomWhiteTooltip } from '../ux-components/Tooltip'
 import { appContextDataDefault, useAppContext } from '../../context/app-context'
+import { isFeatureEnabled } from '../../api/permissions-utils'
 import { useRouter } from 'next/navigation'
 import { downloadMediaFromGcs } from '@/app/api/cloud-storage/action'
 const { palette } = theme
@@ -64,8 +66,29 @@ export default function OutputImagesDisplay({
   const [imageToExport, setImageToExport] = useState<ImageI | undefined>()
   const [imageToDL, setImageToDL] = useState<ImageI | undefined>()
 
-  const { setAppContext } = useAppContext()
+  const { appContext, setAppContext } = useAppContext()
   const router = useRouter()
+  const isExportAllowed = isFeatureEnabled(appContext, 'libraryExport')
+
+  // Several outputs can be selected to be exported at once, with the same metadata
+  const [isSelecting, setIsSelecting] = useState(false)
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([])
+  const [imagesToExport, setImagesToExport] = useState<ImageI[] | undefined>()
+  const exportableImages = generatedImagesInGCS.filter((image) => image.src)
+  const isSelectionAvailable = isExportAllowed && !isLoading && exportableImages.length > 1
+  const handleSelectingToggle = () => {
+    setIsSelecting(!isSelecting)
+    setSelectedKeys([])
+  }
+  const handleSelectToggle = (key: string) =>
+    setSelectedKeys((prevKeys) => (prevKeys.includes(key) ? prevKeys.filter((k) => k !== key) : [...prevKeys, key]))
+  const handleSelectAll = () =>
+    setSelectedKeys(selectedKeys.length === exportableImages.length ? [] : exportableImages.map(({ key }) => key))
+  const handleBulkExportClose = () => {
+    setImagesToExport(undefined)
+    setIsSelecting(false)
+    setSelectedKeys([])
+  }
 
   const handleMoreLikeThisClick = (prompt: string) => {
     setAppContext((prevContext) => {
@@ -102,6 +125,16 @@ export default function OutputImagesDisplay({
   return (
     <>
       <Box sx={{ height: '79vh', maxHeight: 650, width: '90%' }}>
+        {isSelectionAvailable && (
+          <OutputsSelectionBar
+            isSelecting={isSelecting}
+            selectedCount={selectedKeys.length}
+            totalCount={exportableImages.length}
+            onSelectingToggle={handleSelectingToggle}
+            onSelectAll={handleSelectAll}
+            onExportSelected={() => setImagesToExport(exportableImages.filter(({ key }) => selectedKeys.includes(key)))}
+          />
+        )}
         {isLoading ? (
           <Skeleton variant="rounded" width={450} height={450} sx={{ mt: 2, bgcolor: palette.primary.light }} />
         ) : (
@@ -154,9 +187,14 @@ export default function OutputImagesDisplay({
                     }}
                     onClick={() => setImageFullScreen(image)}
                   >
-                    <Typography variant="body1" sx={{ textAlign: 'center' }}>
-                      Click to see full screen
-                    </Typography>
+                    <Box sx={{ textAlign: 'center', px: 2 }}>
+                      <Typography variant="body1">Click to see full screen</Typography>
+                      {image.description && (
+                        <Typography variant="caption" sx={{ display: 'block', pt: 1, fontStyle: 'italic' }}>
+                          {image.description}
+                        </Typography>
+                      )}
+                    </Box>
                   </Box>
                   <ImageListItemBar
                     sx={{
@@ -172,78 +210,89 @@ export default function OutputImagesDisplay({
                     }}
                     position="top"
                     actionIcon={
-                      <Stack direction="row" gap={0} pb={3}>
-                        {
-                          //  If there is a replayable prompt, display the "More like this" button
-                          isPromptReplayAvailable && !image.prompt.includes('[1]') && (
-                            <CustomWhiteTooltip title="More like this!" size="small">
+                      isSelectionAvailable && isSelecting ? (
+                        <OutputSelectButton
+                          isSelected={selectedKeys.includes(image.key)}
+                          onToggle={() => handleSelectToggle(image.key)}
+                        />
+                      ) : (
+                        <Stack direction="row" gap={0} pb={3}>
+                          {
+                            //  If there is a replayable prompt, display the "More like this" button
+                            isPromptReplayAvailable && !image.prompt.includes('[1]') && (
+                              <CustomWhiteTooltip title="More like this!" size="small">
+                                <IconButton
+                                  onClick={() => handleMoreLikeThisClick(image.prompt)}
+                                  aria-label="More like this!"
+                                  sx={{ pr: 0.2, zIndex: 10 }}
+                                  disableRipple
+                                >
+                                  <Avatar sx={CustomizedAvatarButton}>
+                                    <Favorite sx={CustomizedIconButton} />
+                                  </Avatar>
+                                </IconButton>
+                              </CustomWhiteTooltip>
+                            )
+                          }
+                          {process.env.NEXT_PUBLIC_EDIT_ENABLED === 'true' &&
+                            isFeatureEnabled(appContext, 'imageEdition') && (
+                              <CustomWhiteTooltip title="Edit this image" size="small">
+                                <IconButton
+                                  onClick={() => handleEditClick(image.gcsUri)}
+                                  aria-label="Edit image"
+                                  sx={{ px: 0.2, zIndex: 10 }}
+                                  disableRipple
+                                >
+                                  <Avatar sx={CustomizedAvatarButton}>
+                                    <Edit sx={CustomizedIconButton} />
+                                  </Avatar>
+                                </IconButton>
+                              </CustomWhiteTooltip>
+                            )}
+                          {process.env.NEXT_PUBLIC_VEO_ENABLED === 'true' &&
+                            process.env.NEXT_PUBLIC_VEO_ITV_ENABLED === 'true' &&
+                            isFeatureEnabled(appContext, 'videoGeneration') && (
+                              <CustomWhiteTooltip title="Image to video" size="small">
+                                <IconButton
+                                  onClick={() => handleITVClick(image.gcsUri)}
+                                  aria-label="Image to video"
+                                  sx={{ px: 0.2, zIndex: 10 }}
+                                  disableRipple
+                                >
+                                  <Avatar sx={CustomizedAvatarButton}>
+                                    <VideocamRounded sx={CustomizedIconButton} />
+                                  </Avatar>
+                                </IconButton>
+                              </CustomWhiteTooltip>
+                            )}
+                          {isExportAllowed && (
+                            <CustomWhiteTooltip title="Export to library" size="small">
                               <IconButton
-                                onClick={() => handleMoreLikeThisClick(image.prompt)}
-                                aria-label="More like this!"
-                                sx={{ pr: 0.2, zIndex: 10 }}
+                                onClick={() => setImageToExport(image)}
+                                aria-label="Export image"
+                                sx={{ px: 0.2, zIndex: 10 }}
                                 disableRipple
                               >
                                 <Avatar sx={CustomizedAvatarButton}>
-                                  <Favorite sx={CustomizedIconButton} />
+                                  <CreateNewFolderRounded sx={CustomizedIconButton} />
                                 </Avatar>
                               </IconButton>
                             </CustomWhiteTooltip>
-                          )
-                        }
-                        {process.env.NEXT_PUBLIC_EDIT_ENABLED === 'true' && (
-                          <CustomWhiteTooltip title="Edit this image" size="small">
+                          )}
+                          <CustomWhiteTooltip title="Download locally" size="small">
                             <IconButton
-                              onClick={() => handleEditClick(image.gcsUri)}
-                              aria-label="Edit image"
-                              sx={{ px: 0.2, zIndex: 10 }}
+                              onClick={isUpscaledDLAvailable ? () => setImageToDL(image) : () => handleDLimage(image)}
+                              aria-label="Download image"
+                              sx={{ pr: 1, pl: 0.2, zIndex: 10 }}
                               disableRipple
                             >
                               <Avatar sx={CustomizedAvatarButton}>
-                                <Edit sx={CustomizedIconButton} />
+                                <Download sx={CustomizedIconButton} />
                               </Avatar>
                             </IconButton>
                           </CustomWhiteTooltip>
-                        )}
-                        {process.env.NEXT_PUBLIC_VEO_ENABLED === 'true' &&
-                          process.env.NEXT_PUBLIC_VEO_ITV_ENABLED === 'true' && (
-                            <CustomWhiteTooltip title="Image to video" size="small">
-                              <IconButton
-                                onClick={() => handleITVClick(image.gcsUri)}
-                                aria-label="Image to video"
-                                sx={{ px: 0.2, zIndex: 10 }}
-                                disableRipple
-                              >
-                                <Avatar sx={CustomizedAvatarButton}>
-                                  <VideocamRounded sx={CustomizedIconButton} />
-                                </Avatar>
-                              </IconButton>
-                            </CustomWhiteTooltip>
-                          )}
-                        <CustomWhiteTooltip title="Export to library" size="small">
-                          <IconButton
-                            onClick={() => setImageToExport(image)}
-                            aria-label="Export image"
-                            sx={{ px: 0.2, zIndex: 10 }}
-                            disableRipple
-                          >
-                            <Avatar sx={CustomizedAvatarButton}>
-                              <CreateNewFolderRounded sx={CustomizedIconButton} />
-                            </Avatar>
-                          </IconButton>
-                        </CustomWhiteTooltip>
-                        <CustomWhiteTooltip title="Download locally" size="small">
-                          <IconButton
-                            onClick={isUpscaledDLAvailable ? () => setImageToDL(image) : () => handleDLimage(image)}
-                            aria-label="Download image"
-                            sx={{ pr: 1, pl: 0.2, zIndex: 10 }}
-                            disableRipple
-                          >
-                            <Avatar sx={CustomizedAvatarButton}>
-                              <Download sx={CustomizedIconButton} />
-                            </Avatar>
-                          </IconButton>
-                        </CustomWhiteTooltip>
-                      </Stack>
+                        </Stack>
+                      )
                     }
                   />
                 </ImageListItem>
@@ -288,6 +337,12 @@ export default function OutputImagesDisplay({
         mediaToExport={imageToExport}
         handleMediaExportClose={() => setImageToExport(undefined)}
       />
+      <ExportStepper
+        open={imagesToExport !== undefined}
+        upscaleAvailable={true}
+        mediasToExport={imagesToExport}
+        handleMediaExportClose={handleBulkExportClose}
+      />
       <DownloadDialog
         open={imageToDL !== undefined}
         mediaToDL={imageToDL}
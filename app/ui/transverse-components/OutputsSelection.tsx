@@ -0,0 +1,95 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+'use client'
+
+import * as React from 'react'
+
+import { CheckCircle, Close, CreateNewFolderRounded, DoneAll, RadioButtonUnchecked } from '@mui/icons-material'
+import { Box, Button, IconButton } from '@mui/material'
+
+import theme from '../../theme'
+import { CustomizedIconButton, CustomizedSendButton } from '../ux-components/Button-SX'
+import { CustomWhiteTooltip } from '../ux-components/Tooltip'
+const { palette } = theme
+
+// Bar above generated outputs to select several of them and export them at once
+export function OutputsSelectionBar({
+  isSelecting,
+  selectedCount,
+  totalCount,
+  onSelectingToggle,
+  onSelectAll,
+  onExportSelected,
+}: {
+  isSelecting: boolean
+  selectedCount: number
+  totalCount: number
+  onSelectingToggle: () => void
+  onSelectAll: () => void
+  onExportSelected: () => void
+}) {
+  let exportButtonLabel = 'Select to export'
+  if (isSelecting)
+    exportButtonLabel =
+      selectedCount > 0 ? `Export ${selectedCount} media${selectedCount > 1 ? 's' : ''}` : 'Select media(s)'
+
+  return (
+    <Box sx={{ display: 'flex', justifyContent: 'flex-end', alignItems: 'center', px: 1, pb: 1 }}>
+      {isSelecting && (
+        <>
+          <CustomWhiteTooltip title={selectedCount === totalCount ? 'Unselect all' : 'Select all'} size="small">
+            <IconButton onClick={onSelectAll} aria-label="Select all outputs" sx={{ px: 0.5 }}>
+              <DoneAll sx={{ fontSize: '1.3rem', color: palette.primary.main }} />
+            </IconButton>
+          </CustomWhiteTooltip>
+          <CustomWhiteTooltip title="Cancel selection" size="small">
+            <IconButton onClick={onSelectingToggle} aria-label="Cancel selection" sx={{ px: 0.5 }}>
+              <Close sx={{ fontSize: '1.3rem', color: palette.primary.main }} />
+            </IconButton>
+          </CustomWhiteTooltip>
+        </>
+      )}
+      <Button
+        onClick={isSelecting ? onExportSelected : onSelectingToggle}
+        variant="contained"
+        disabled={isSelecting && selectedCount === 0}
+        endIcon={<CreateNewFolderRounded />}
+        sx={{ ...CustomizedSendButton, my: 0 }}
+      >
+        {exportButtonLabel}
+      </Button>
+    </Box>
+  )
+}
+
+// Replaces an output's action icons while outputs are being selected
+export function OutputSelectButton({ isSelected, onToggle }: { isSelected: boolean; onToggle: () => void }) {
+  const iconSx = { ...CustomizedIconButton, fontSize: '1.5rem', '&:hover': { fontSize: '1.6rem' } }
+
+  return (
+    <IconButton
+      onClick={onToggle}
+      aria-label={isSelected ? 'Unselect output' : 'Select output'}
+      sx={{ pr: 1, zIndex: 10, '&:hover': { backgroundColor: 'transparent' } }}
+      disableRipple
+    >
+      {isSelected ? (
+        <CheckCircle sx={{ ...iconSx, color: palette.primary.main }} />
+      ) : (
+        <RadioButtonUnchecked sx={{ ...iconSx, color: 'white' }} />
+      )}
+    </IconButton>
+  )
+}
@@ -22,6 +22,8 @@ import { Drawer, List, ListItem, Typography, ListItemButton, Stack, IconButton,
 import Image from 'next/image'
 import icon from '../../../public/ImgStudioLogoReversedMini.svg'
 import { pages } from '../../routes'
+import { useAppContext } from '../../context/app-context'
+import { isFeatureEnabled } from '../../api/permissions-utils'
 
 import theme from '../../theme'
 import { useState } from 'react'
@@ -70,6 +72,17 @@ export default function SideNav() {
 
   const [open, setOpen] = useState(true)
 
+  const { appContext } = useAppContext()
+  const visiblePages = Object.values(pages)
+    .filter(({ isAdminOnly }) => !isAdminOnly || appContext?.isAdmin)
+    .map((page) => ({
+      ...page,
+      isAllowed:
+        appContext?.isLoading ||
+        page.features.length === 0 ||
+        page.features.some((feature) => isFeatureEnabled(appContext, feature)),
+    }))
+
   return (
     <Drawer variant="permanent" anchor="left" sx={open ? CustomizedDrawer : CustomizedDrawerClosed}>
       {!open && (
@@ -97,11 +110,11 @@ export default function SideNav() {
             <Image priority src={icon} width={200} alt="ImgStudio" />
           </ListItem>
 
-          {Object.values(pages).map(({ name, description, href, status }) => (
+          {visiblePages.map(({ name, description, href, status, isAllowed }) => (
             <ListItemButton
               key={name}
               selected={pathname === href}
-              disabled={status == 'false'}
+              disabled={status == 'false' || !isAllowed}
               onClick={() => router.push(href)}
               sx={CustomizedMenuItem}
             >
@@ -118,7 +131,7 @@ export default function SideNav() {
                     variant="caption"
                     color={pathname === href ? palette.primary.light : palette.secondary.light}
                   >
-                    {status == 'false' ? '/ SOON' : ''}
+                    {status == 'false' ? '/ SOON' : !isAllowed ? '/ NO ACCESS' : ''}
                   </Typography>
                 </Stack>
                 <Typography
@@ -35,20 +35,25 @@ import {
 import { VideoI } from '../../api/generate-video-utils'
 import { CustomizedAvatarButton, CustomizedIconButton } from '../ux-components/Button-SX'
 import ExportStepper, { downloadBase64Media } from './ExportDialog'
+import { OutputSelectButton, OutputsSelectionBar } from './OutputsSelection'
 
 import theme from '../../theme'
 import { CustomWhiteTooltip } from '../ux-components/Tooltip'
 import { downloadMediaFromGcs } from '@/app/api/cloud-storage/action'
+import { useAppContext } from '../../context/app-context'
+import { isFeatureEnabled } from '../../api/permissions-utils'
 const { palette } = theme
 
 export default function OutputVideosDisplay({
   isLoading,
   generatedVideosInGCS,
   generatedCount,
+  pendingCount = 0,
 }: {
   isLoading: boolean
   generatedVideosInGCS: VideoI[]
   generatedCount: number
+  pendingCount?: number
 }) {
   // State for full screen video display
   const [videoFullScreen, setVideoFullScreen] = useState<VideoI | undefined>()
@@ -68,6 +73,8 @@ export default function OutputVideosDisplay({
   const fullScreenVideoRef = useRef<HTMLVideoElement>(null)
 
   // State for export form and handlers
+  const { appContext } = useAppContext()
+  const isExportAllowed = isFeatureEnabled(appContext, 'libraryExport')
   const [videoExportOpen, setVideoExportOpen] = useState(false)
   const [videoToExport, setVideoToExport] = useState<VideoI | undefined>()
   const handleVideoExportOpen = (video: VideoI) => {
@@ -79,6 +86,26 @@ export default function OutputVideosDisplay({
     setVideoExportOpen(false)
   }
 
+  // Several outputs can be selected to be exported at once, with the same metadata
+  const [isSelecting, setIsSelecting] = useState(false)
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([])
+  const [videosToExport, setVideosToExport] = useState<VideoI[] | undefined>()
+  const exportableVideos = generatedVideosInGCS.filter((video) => video.src)
+  const isSelectionAvailable = isExportAllowed && exportableVideos.length > 1
+  const handleSelectingToggle = () => {
+    setIsSelecting(!isSelecting)
+    setSelectedKeys([])
+  }
+  const handleSelectToggle = (key: string) =>
+    setSelectedKeys((prevKeys) => (prevKeys.includes(key) ? prevKeys.filter((k) => k !== key) : [...prevKeys, key]))
+  const handleSelectAll = () =>
+    setSelectedKeys(selectedKeys.length === exportableVideos.length ? [] : exportableVideos.map(({ key }) => key))
+  const handleBulkExportClose = () => {
+    setVideosToExport(undefined)
+    setIsSelecting(false)
+    setSelectedKeys([])
+  }
+
   const [isDLloading, setIsDLloading] = useState(false)
   const handleDLvideo = async (video: VideoI) => {
     setIsDLloading(true)
@@ -104,7 +131,17 @@ export default function OutputVideosDisplay({
           width: generatedVideosInGCS[0] ? (generatedVideosInGCS[0].ratio === '16:9' ? '90%' : '70%') : '90%',
         }}
       >
-        {isLoading ? (
+        {isSelectionAvailable && (
+          <OutputsSelectionBar
+            isSelecting={isSelecting}
+            selectedCount={selectedKeys.length}
+            totalCount={exportableVideos.length}
+            onSelectingToggle={handleSelectingToggle}
+            onSelectAll={handleSelectAll}
+            onExportSelected={() => setVideosToExport(exportableVideos.filter(({ key }) => selectedKeys.includes(key)))}
+          />
+        )}
+        {isLoading && generatedVideosInGCS.length === 0 && pendingCount === 0 ? (
           <Skeleton variant="rounded" width={450} height={450} sx={{ mt: 2, bgcolor: palette.primary.light }} />
         ) : (
           <ImageList
@@ -179,55 +216,72 @@ export default function OutputVideosDisplay({
                     }}
                     position="top"
                     actionIcon={
-                      <Stack direction="row" gap={0} pb={3}>
-                        <CustomWhiteTooltip title="Export to library" size="small">
-                          <IconButton
-                            onClick={() => handleVideoExportOpen(video)}
-                            aria-label="Export video"
-                            sx={{
-                              pr: 0.5,
-                              pl: 0.5,
-                              '&:hover': {
-                                backgroundColor: 'transparent',
-                                border: 0,
-                                boxShadow: 0,
-                              },
-                            }}
-                          >
-                            <Avatar sx={CustomizedAvatarButton}>
-                              <CreateNewFolderRounded sx={CustomizedIconButton} />
-                            </Avatar>
-                          </IconButton>
-                        </CustomWhiteTooltip>
-                        <CustomWhiteTooltip title="Download locally" size="small">
-                          <IconButton
-                            onClick={() => handleDLvideo(video)}
-                            aria-label="Download video"
-                            sx={{
-                              pr: 1,
-                              pl: 0,
-                              '&:hover': {
-                                backgroundColor: 'transparent',
-                                border: 0,
-                                boxShadow: 0,
-                              },
-                            }}
-                          >
-                            <Avatar sx={CustomizedAvatarButton}>
-                              {isDLloading ? (
-                                <CircularProgress size={18} thickness={6} color="primary" />
-                              ) : (
-                                <Download sx={CustomizedIconButton} />
-                              )}
-                            </Avatar>
-                          </IconButton>
-                        </CustomWhiteTooltip>
-                      </Stack>
+                      isSelectionAvailable && isSelecting ? (
+                        <OutputSelectButton
+                          isSelected={selectedKeys.includes(video.key)}
+                          onToggle={() => handleSelectToggle(video.key)}
+                        />
+                      ) : (
+                        <Stack direction="row" gap={0} pb={3}>
+                          {isExportAllowed && (
+                            <CustomWhiteTooltip title="Export to library" size="small">
+                              <IconButton
+                                onClick={() => handleVideoExportOpen(video)}
+                                aria-label="Export video"
+                                sx={{
+                                  pr: 0.5,
+                                  pl: 0.5,
+                                  '&:hover': {
+                                    backgroundColor: 'transparent',
+                                    border: 0,
+                                    boxShadow: 0,
+                                  },
+                                }}
+                              >
+                                <Avatar sx={CustomizedAvatarButton}>
+                                  <CreateNewFolderRounded sx={CustomizedIconButton} />
+                                </Avatar>
+                              </IconButton>
+                            </CustomWhiteTooltip>
+                          )}
+                          <CustomWhiteTooltip title="Download locally" size="small">
+                            <IconButton
+                              onClick={() => handleDLvideo(video)}
+                              aria-label="Download video"
+                              sx={{
+                                pr: 1,
+                                pl: 0,
+                                '&:hover': {
+                                  backgroundColor: 'transparent',
+                                  border: 0,
+                                  boxShadow: 0,
+                                },
+                              }}
+                            >
+                              <Avatar sx={CustomizedAvatarButton}>
+                                {isDLloading ? (
+                                  <CircularProgress size={18} thickness={6} color="primary" />
+                                ) : (
+                                  <Download sx={CustomizedIconButton} />
+                                )}
+                              </Avatar>
+                            </IconButton>
+                          </CustomWhiteTooltip>
+                        </Stack>
+                      )
                     }
                   />
                 </ImageListItem>
               ) : null
             )}
+            {Array.from({ length: pendingCount }).map((_, index) => (
+              <ImageListItem key={`pending_${index}`}>
+                <Skeleton
+                  variant="rounded"
+                  sx={{ width: '100%', height: 'auto', aspectRatio: '16/9', bgcolor: palette.primary.light }}
+                />
+              </ImageListItem>
+            ))}
           </ImageList>
         )}
       </Box>
@@ -279,6 +333,12 @@ export default function OutputVideosDisplay({
         mediaToExport={videoToExport}
         handleMediaExportClose={handleVideoExportClose}
       />
+      <ExportStepper
+        open={videosToExport !== undefined}
+        upscaleAvailable={false}
+        mediasToExport={videosToExport}
+        handleMediaExportClose={handleBulkExportClose}
+      />
     </>
   )
 }
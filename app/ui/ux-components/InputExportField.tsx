@@ -0,0 +1,97 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import React from 'react'
+import { Controller } from 'react-hook-form'
+import { Box, Checkbox, FormControlLabel, MenuItem, TextField, Typography } from '@mui/material'
+
+import theme from '../../theme'
+const { palette } = theme
+
+import { FormExportFieldInputI } from './InputInterface'
+import FormInputChipGroupMultiple from './InputChipGroupMultiple'
+
+const CustomizedTextField = {
+  '& .MuiInputBase-root': { fontSize: '0.9rem', color: palette.primary.main },
+}
+
+// Input of an export field, depending on its type
+export default function FormInputExportField({ name, field, control, width, setValue }: FormExportFieldInputI) {
+  const required = field.isMandatory ? field.isMandatory : false
+
+  if (field.type === 'multiple-select')
+    return (
+      <FormInputChipGroupMultiple
+        name={name}
+        label={field.label}
+        control={control}
+        setValue={setValue}
+        width={width}
+        options={field.options}
+        required={required}
+      />
+    )
+
+  if (field.type === 'boolean')
+    return (
+      <Controller
+        name={name}
+        control={control}
+        render={({ field: { onChange, value = false } }) => (
+          <FormControlLabel
+            control={<Checkbox size="small" checked={value} onChange={(event) => onChange(event.target.checked)} />}
+            label={field.label}
+            disableTypography
+            sx={{ fontSize: '0.9rem', color: palette.text.primary }}
+          />
+        )}
+      />
+    )
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', width: width }}>
+      <Typography
+        variant="caption"
+        sx={{ color: palette.text.primary, fontSize: '0.75rem', fontWeight: 500, lineHeight: '1.3em', pb: 0.5 }}
+      >
+        {field.label + (required ? ' *' : '')}
+      </Typography>
+      <Controller
+        name={name}
+        control={control}
+        rules={{ required: required ? 'This field is mandatory' : false }}
+        render={({ field: { onChange, value = '' }, fieldState: { error } }) => (
+          <TextField
+            select={field.type === 'select'}
+            type={field.type === 'number' || field.type === 'date' ? field.type : 'text'}
+            onChange={onChange}
+            value={value}
+            helperText={error ? error.message : null}
+            error={!!error}
+            variant="standard"
+            size="small"
+            sx={CustomizedTextField}
+          >
+            {field.type === 'select' &&
+              [{ value: '', label: 'None' }, ...(field.options ?? [])].map(({ value, label }) => (
+                <MenuItem key={value} value={value} sx={{ fontSize: '0.9rem' }}>
+                  {label}
+                </MenuItem>
+              ))}
+          </TextField>
+        )}
+      />
+    </Box>
+  )
+}
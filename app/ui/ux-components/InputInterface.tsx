@@ -13,6 +13,7 @@
 // limitations under the License.
 
 import { advancedSettingsI, chipGroupFieldsI, generalSettingsI, selectFieldsI } from '../../api/generate-image-utils'
+import { ExportMediaFieldI } from '../../api/export-utils'
 
 export interface FormTextInputI {
   name: string
@@ -55,6 +56,14 @@ export interface FormChipGroupMultipleInputI {
   required: boolean
 }
 
+export interface FormExportFieldInputI {
+  name: string
+  field: ExportMediaFieldI
+  control: any
+  width: string
+  setValue?: any
+}
+
 export interface GenerateSettingsI {
   control: any
   setValue?: any
@@ -0,0 +1,49 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// Checks an export fields options file against the schema the app loads it with, before uploading it to its bucket
+// Usage: npm run check-export-fields -- [path/to/export-fields-options.json]
+
+const fs = require('fs')
+const path = require('path')
+const ts = require('typescript')
+
+// App modules are written in TypeScript, they are transpiled when required
+const requireTypeScript = (module, fileName) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(fileName, 'utf-8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2017, esModuleInterop: true },
+    fileName: fileName,
+  })
+  module._compile(outputText, fileName)
+}
+require.extensions['.ts'] = requireTypeScript
+require.extensions['.tsx'] = requireTypeScript
+
+const { formatExportFieldError, parseExportFields } = require('./app/api/export-utils.tsx')
+
+const filePath = path.resolve(process.argv[2] ?? path.join(__dirname, 'export-fields-options.json'))
+
+let json
+try {
+  json = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+} catch (error) {
+  console.error(`Could not read ${filePath}: ${error.message}`)
+  process.exit(1)
+}
+
+const { fields, errors } = parseExportFields(json)
+errors.forEach((error) => console.error(`Invalid field ${formatExportFieldError(error)}`))
+console.log(`${Object.keys(fields).length} valid field(s) and ${errors.length} error(s) in ${filePath}`)
+
+process.exit(errors.length > 0 ? 1 : 0)